@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import ClipLoader from 'react-spinners/ClipLoader';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { ArrowLeft } from 'lucide-react';
+import DarkModeToggle from '../DarkModeToggle';
+import { type UsageSummary, summarizeUsage } from '../lib/analytics';
+import { createClient } from '@/lib/supabase/client';
+import { listAvatars } from '@/lib/supabase/avatars';
+import { listAvatarSessionsSince, listSessionEventsSince } from '@/lib/supabase/telemetry';
+
+const RANGES = [7, 30, 90];
+
+function formatSeconds(ms: number | null) {
+  return ms === null ? '–' : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatPercent(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-4">
+      <div className="text-sm text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="text-2xl font-bold mt-1">{value}</div>
+    </div>
+  );
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-4">
+      <h2 className="font-bold mb-4">{title}</h2>
+      <div className="h-64">{children}</div>
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [avatarNames, setAvatarNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const supabase = createClient();
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        router.push('/login');
+        return;
+      }
+      setIsLoading(true);
+      setError(null);
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (days - 1));
+      try {
+        const [sessions, events, avatars] = await Promise.all([
+          listAvatarSessionsSince(supabase, since),
+          listSessionEventsSince(supabase, since),
+          listAvatars(supabase)
+        ]);
+        setAvatarNames(Object.fromEntries(avatars.map(a => [a.avatar_id, a.avatar_name])));
+        setSummary(summarizeUsage(sessions, events, since));
+      } catch (loadError) {
+        console.error('Error loading analytics:', loadError);
+        setError('Failed to load analytics');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadAnalytics();
+  }, [days]);
+
+  const avatarUsage = summary?.avatars.map(a => ({ ...a, name: avatarNames[a.avatarId] ?? a.avatarId })) ?? [];
+
+  return (
+    <div className="flex flex-col max-w-6xl mx-auto dark:bg-gray-900 dark:text-white min-h-screen">
+      <div className="flex justify-between dark:bg-gray-800 dark:text-white items-center p-3 bg-white shadow mb-6">
+        <div className="flex items-center gap-3">
+          <Link href="/" className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Back to avatars">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <h1 className="text-2xl font-bold">Analytics</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded px-2 py-2"
+          >
+            {RANGES.map(range => (
+              <option key={range} value={range}>Last {range} days</option>
+            ))}
+          </select>
+          <DarkModeToggle />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-4 p-3 bg-red-100 text-red-700 rounded-lg">{error}</div>
+      )}
+
+      {isLoading || !summary ? (
+        <div className="flex justify-center items-center flex-1">
+          {isLoading && <ClipLoader color="#6366f1" size={48} />}
+        </div>
+      ) : (
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <StatCard label="Sessions" value={String(summary.sessions)} />
+            <StatCard label="Questions" value={String(summary.questions)} />
+            <StatCard label="Median time to first word" value={formatSeconds(summary.medianTimeToFirstWordMs)} />
+            <StatCard label="Median assistant latency" value={formatSeconds(summary.medianAssistantLatencyMs)} />
+            <StatCard label="Sessions with errors" value={formatPercent(summary.errorRate)} />
+            <StatCard label="Sessions with disconnects" value={formatPercent(summary.disconnectRate)} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartCard title="Sessions per day">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={summary.daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" tickFormatter={(day: string) => day.slice(5)} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="sessions" name="Sessions" fill="#7c3aed" />
+                  <Bar dataKey="questions" name="Questions" fill="#60a5fa" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="Error rates">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={summary.daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" tickFormatter={(day: string) => day.slice(5)} />
+                  <YAxis tickFormatter={(rate: number) => `${Math.round(rate * 100)}%`} domain={[0, 1]} />
+                  <Tooltip formatter={(rate: number) => formatPercent(rate)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="errorRate" name="Errors" stroke="#ef4444" dot={false} />
+                  <Line type="monotone" dataKey="disconnectRate" name="Disconnects" stroke="#f59e0b" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="Usage per avatar">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={avatarUsage} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="name" width={120} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="sessions" name="Sessions" fill="#7c3aed" />
+                  <Bar dataKey="minutes" name="Minutes" fill="#34d399" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="Average minutes per phase">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={summary.phaseMinutes}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="phase" />
+                  <YAxis />
+                  <Tooltip />
+                  <Bar dataKey="minutes" name="Minutes" fill="#60a5fa" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-4">
+            <h2 className="font-bold mb-4">Top questions</h2>
+            {summary.topQuestions.length === 0 ? (
+              <p className="text-gray-500">No questions asked in this period.</p>
+            ) : (
+              <ol className="space-y-2">
+                {summary.topQuestions.map((entry, index) => (
+                  <li key={entry.question} className="flex justify-between gap-4">
+                    <span className="truncate">{index + 1}. {entry.question}</span>
+                    <span className="text-gray-500 shrink-0">{entry.count}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <p className="text-sm text-gray-500 mt-4">
+              Median speaking time per answer: {formatSeconds(summary.medianSpeakDurationMs)}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireUser } from '@/lib/api/auth'
+import { invalidBody, readJsonBody } from '@/lib/api/request'
+import { createOpenAIClient } from '@/lib/openai/server'
+import { cancelActiveRuns } from '@/lib/openai/assistant'
+import { ownsThread } from '@/lib/supabase/conversations'
+import { isMockBackend } from '@/lib/mock/config'
+
+// Stops whatever run is still answering on the thread. Responds once the
+// thread can take the next message.
+export async function POST(request: NextRequest) {
+  const { supabase, response: unauthorized } = await requireUser()
+  if (unauthorized) return unauthorized
+
+  const input = await readJsonBody(request)
+  if (!input) return invalidBody()
+  const { threadId } = input
+  if (typeof threadId !== 'string') {
+    return NextResponse.json({ error: 'threadId is required' }, { status: 400 })
+  }
+
+  if (!await ownsThread(supabase, threadId)) {
+    return NextResponse.json({ error: 'Unknown thread' }, { status: 404 })
+  }
+
+  // Mock answers stop as soon as the stream request is aborted
+  if (isMockBackend()) {
+    return NextResponse.json({ cancelled: true })
+  }
+
+  try {
+    await cancelActiveRuns(createOpenAIClient(), threadId)
+    return NextResponse.json({ cancelled: true })
+  } catch (error) {
+    console.error('[api/assistant/cancel] Failed to cancel runs:', error)
+    return NextResponse.json({ error: 'Failed to cancel runs' }, { status: 500 })
+  }
+}
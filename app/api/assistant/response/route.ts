@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireUser } from '@/lib/api/auth'
+import { invalidBody, readJsonBody } from '@/lib/api/request'
+import { createOpenAIClient, getAssistantIdForAvatar } from '@/lib/openai/server'
+import { createDefaultToolRegistry } from '@/lib/openai/tools'
+import { type TokenUsage, type ToolCallRecord, appendToolCalls, ownsThread, recordMessageRun } from '@/lib/supabase/conversations'
+import { AssistantRunError, getAssistantResponse } from '@/lib/openai/assistant'
+import { isMockBackend } from '@/lib/mock/config'
+import { getMockResponse } from '@/lib/mock/assistant'
+
+export async function POST(request: NextRequest) {
+  const { supabase, response: unauthorized } = await requireUser()
+  if (unauthorized) return unauthorized
+
+  const input = await readJsonBody(request)
+  if (!input) return invalidBody()
+  const { threadId, message, avatarId, messageId } = input
+  if (typeof threadId !== 'string' || typeof message !== 'string' || !message.trim()) {
+    return NextResponse.json({ error: 'threadId and message are required' }, { status: 400 })
+  }
+
+  if (!await ownsThread(supabase, threadId)) {
+    return NextResponse.json({ error: 'Unknown thread' }, { status: 404 })
+  }
+
+  if (isMockBackend()) {
+    return NextResponse.json({ response: getMockResponse(message) })
+  }
+
+  // Tool calls and the run are saved on the history entry the client created
+  // for this question
+  const runOptions = {
+    tools: createDefaultToolRegistry(),
+    onToolCalls: typeof messageId === 'string'
+      ? (records: ToolCallRecord[]) => appendToolCalls(supabase, messageId, records)
+      : undefined,
+    onRun: typeof messageId === 'string'
+      ? (run: { runId: string; usage?: TokenUsage | null }) => recordMessageRun(supabase, messageId, run)
+      : undefined,
+  }
+
+  try {
+    const response = await getAssistantResponse(createOpenAIClient(), await getAssistantIdForAvatar(supabase, typeof avatarId === 'string' ? avatarId : null), threadId, message, runOptions)
+    return NextResponse.json({ response })
+  } catch (error) {
+    console.error('[api/assistant/response] Failed to get assistant response:', error)
+    // Why the run failed is worth showing; anything else stays in the log
+    const message = error instanceof AssistantRunError ? error.message : 'Failed to get assistant response'
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireUser } from '@/lib/api/auth'
+import { invalidBody, readJsonBody } from '@/lib/api/request'
+import { createOpenAIClient, getAssistantIdForAvatar } from '@/lib/openai/server'
+import { createDefaultToolRegistry } from '@/lib/openai/tools'
+import { type TokenUsage, type ToolCallRecord, appendToolCalls, ownsThread, recordMessageRun } from '@/lib/supabase/conversations'
+import { type AssistantStreamEvent, AssistantRunError, streamAssistantResponse } from '@/lib/openai/assistant'
+import { isMockBackend } from '@/lib/mock/config'
+import { streamMockResponse } from '@/lib/mock/assistant'
+
+// Streams the assistant's text deltas back as newline-delimited JSON events so
+// the client can start speaking before the run has finished. A failed run ends
+// with an error event.
+export async function POST(request: NextRequest) {
+  const { supabase, response: unauthorized } = await requireUser()
+  if (unauthorized) return unauthorized
+
+  const input = await readJsonBody(request)
+  if (!input) return invalidBody()
+  const { threadId, message, avatarId, messageId } = input
+  if (typeof threadId !== 'string' || typeof message !== 'string' || !message.trim()) {
+    return NextResponse.json({ error: 'threadId and message are required' }, { status: 400 })
+  }
+
+  if (!await ownsThread(supabase, threadId)) {
+    return NextResponse.json({ error: 'Unknown thread' }, { status: 404 })
+  }
+
+  // Stop pulling from OpenAI as soon as the browser goes away
+  const abortController = new AbortController()
+  request.signal.addEventListener('abort', () => abortController.abort(), { once: true })
+
+  // Tool calls and the run are saved on the history entry the client created
+  // for this question
+  const runOptions = {
+    tools: createDefaultToolRegistry(),
+    onToolCalls: typeof messageId === 'string'
+      ? (records: ToolCallRecord[]) => appendToolCalls(supabase, messageId, records)
+      : undefined,
+    onRun: typeof messageId === 'string'
+      ? (run: { runId: string; usage?: TokenUsage | null }) => recordMessageRun(supabase, messageId, run)
+      : undefined,
+    signal: abortController.signal,
+  }
+
+  let deltas: AsyncGenerator<string>
+  try {
+    deltas = isMockBackend()
+      ? streamMockResponse(message, abortController.signal, runOptions.onRun)
+      : streamAssistantResponse(createOpenAIClient(), await getAssistantIdForAvatar(supabase, typeof avatarId === 'string' ? avatarId : null), threadId, message, runOptions)
+  } catch (error) {
+    console.error('[api/assistant/stream] Failed to start assistant stream:', error)
+    return NextResponse.json({ error: 'Failed to start assistant stream' }, { status: 500 })
+  }
+
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AssistantStreamEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+      try {
+        for await (const delta of deltas) {
+          send({ type: 'delta', text: delta })
+        }
+      } catch (error) {
+        if (abortController.signal.aborted) return
+        console.error('[api/assistant/stream] Assistant stream failed:', error)
+        // Why the run failed is worth showing; anything else stays in the log
+        send({ type: 'error', error: error instanceof AssistantRunError ? error.message : 'The assistant stream failed' })
+      }
+      controller.close()
+    },
+    cancel() {
+      abortController.abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireUser } from '@/lib/api/auth'
+import { createOpenAIClient } from '@/lib/openai/server'
+import { type ThreadSeedMessage, createThread } from '@/lib/openai/assistant'
+import { isMockBackend } from '@/lib/mock/config'
+
+function isSeed(value: unknown): value is ThreadSeedMessage[] {
+  return Array.isArray(value) && value.every((message) =>
+    typeof message?.question === 'string' && typeof message?.response === 'string'
+  )
+}
+
+// Creates an empty thread, or one that already holds the given exchanges
+// when the body has { messages: [{ question, response }] }
+export async function POST(request: NextRequest) {
+  const { response: unauthorized } = await requireUser()
+  if (unauthorized) return unauthorized
+
+  const body = await request.json().catch(() => ({}))
+  const seed = body?.messages ?? []
+  if (!isSeed(seed)) {
+    return NextResponse.json({ error: 'messages must be a list of { question, response }' }, { status: 400 })
+  }
+
+  if (isMockBackend()) {
+    return NextResponse.json({ threadId: `mock-thread-${crypto.randomUUID()}` })
+  }
+
+  try {
+    const threadId = await createThread(createOpenAIClient(), seed)
+    return NextResponse.json({ threadId })
+  } catch (error) {
+    console.error('[api/assistant/thread] Failed to create thread:', error)
+    return NextResponse.json({ error: 'Failed to create thread' }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/api/auth'
+import { isMockBackend } from '@/lib/mock/config'
+
+// Exchanges the server-held HeyGen API key for a short-lived streaming token.
+export async function POST() {
+  const { response: unauthorized } = await requireUser()
+  if (unauthorized) return unauthorized
+
+  // MockStreamingAvatar accepts any token
+  if (isMockBackend()) {
+    return NextResponse.json({ token: 'mock-token' })
+  }
+
+  const apiKey = process.env.HEYGEN_API_KEY
+  if (!apiKey) {
+    return NextResponse.json({ error: 'HEYGEN_API_KEY is not set in environment variables' }, { status: 500 })
+  }
+
+  const response = await fetch('https://api.heygen.com/v1/streaming.create_token', {
+    method: 'POST',
+    headers: {
+      'x-api-key': apiKey,
+      'Content-Type': 'application/json',
+    },
+  })
+
+  if (!response.ok) {
+    return NextResponse.json({ error: `Failed to fetch token: ${response.statusText}` }, { status: 502 })
+  }
+
+  const { data } = await response.json()
+  if (!data?.token) {
+    return NextResponse.json({ error: 'No token received from API' }, { status: 502 })
+  }
+
+  return NextResponse.json({ token: data.token })
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { invalidBody, readJsonBody } from '@/lib/api/request'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { findKioskDevice, signInAsKioskDevice, touchKioskDevice } from '@/lib/supabase/kiosk-devices'
+
+// Exchanges a kiosk device token for a Supabase session as the device's
+// account. Called on every kiosk start and recovery, so an expired session is
+// simply replaced. Open to signed-out requests; the token is the credential.
+export async function POST(request: NextRequest) {
+  const input = await readJsonBody(request)
+  if (!input) return invalidBody()
+  const { token, avatarId } = input
+  if (typeof token !== 'string' || typeof avatarId !== 'string') {
+    return NextResponse.json({ error: 'token and avatarId are required' }, { status: 400 })
+  }
+
+  try {
+    const admin = createAdminClient()
+    const device = await findKioskDevice(admin, token, avatarId)
+    if (!device) {
+      return NextResponse.json({ error: 'Unknown or revoked device token' }, { status: 401 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (user?.id !== device.user_id) {
+      await signInAsKioskDevice(admin, supabase, device)
+    }
+    await touchKioskDevice(admin, device.id)
+
+    return NextResponse.json({ deviceName: device.name, pinRequired: device.has_pin })
+  } catch (error) {
+    console.error('[api/kiosk/session] Failed to start kiosk session:', error)
+    return NextResponse.json({ error: 'Failed to start kiosk session' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { invalidBody, readJsonBody } from '@/lib/api/request'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkKioskPin } from '@/lib/supabase/kiosk-devices'
+
+// Slows down guessing; a kiosk PIN is only a few digits
+const FAILED_PIN_DELAY_MS = 1000
+
+// Checks the PIN that reveals a kiosk's hidden controls. Answers 429 while
+// too many wrong PINs have locked the device out.
+export async function POST(request: NextRequest) {
+  const input = await readJsonBody(request)
+  if (!input) return invalidBody()
+  const { token, pin } = input
+  if (typeof token !== 'string' || typeof pin !== 'string') {
+    return NextResponse.json({ error: 'token and pin are required' }, { status: 400 })
+  }
+
+  try {
+    const { unlocked, lockedUntil } = await checkKioskPin(createAdminClient(), token, pin)
+    if (!unlocked) {
+      await new Promise((resolve) => setTimeout(resolve, FAILED_PIN_DELAY_MS))
+    }
+    if (lockedUntil) {
+      return NextResponse.json({ unlocked: false, lockedUntil }, { status: 429 })
+    }
+    return NextResponse.json({ unlocked })
+  } catch (error) {
+    console.error('[api/kiosk/unlock] Failed to check PIN:', error)
+    return NextResponse.json({ error: 'Failed to check PIN' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireUser } from '@/lib/api/auth'
+import { readFormData } from '@/lib/api/request'
+import { isMockBackend } from '@/lib/mock/config'
+import { getMockTranscript } from '@/lib/mock/assistant'
+
+// Forwards recorded audio to Whisper so the OpenAI key never reaches the browser.
+export async function POST(request: NextRequest) {
+  const { response: unauthorized } = await requireUser()
+  if (unauthorized) return unauthorized
+
+  const incoming = await readFormData(request)
+  if (!incoming) {
+    return NextResponse.json({ error: 'Request body must be multipart form data' }, { status: 400 })
+  }
+  const file = incoming.get('file')
+  if (!(file instanceof Blob)) {
+    return NextResponse.json({ error: 'An audio file is required' }, { status: 400 })
+  }
+
+  if (isMockBackend()) {
+    return NextResponse.json({ text: getMockTranscript() })
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    return NextResponse.json({ error: 'OPENAI_API_KEY is not set in environment variables' }, { status: 500 })
+  }
+
+  const formData = new FormData()
+  formData.append('file', file, 'audio.webm')
+  formData.append('model', 'whisper-1')
+
+  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: formData,
+  })
+
+  if (!response.ok) {
+    return NextResponse.json({ error: `Transcription failed with status ${response.status}` }, { status: 502 })
+  }
+
+  const data = await response.json()
+  return NextResponse.json({ text: data.text })
+}
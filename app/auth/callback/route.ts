@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import type { EmailOtpType } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+
+// Only pages on this site, so the link can't send users elsewhere. Checked on
+// the resolved URL: browsers read `/\evil.com` as `//evil.com`.
+function safeNext(next: string | null, origin: string) {
+  const fallback = new URL('/', origin)
+  if (!next || !next.startsWith('/') || next.includes('\\')) return fallback
+  try {
+    const url = new URL(next, origin)
+    return url.origin === origin ? url : fallback
+  } catch {
+    return fallback
+  }
+}
+
+// Landing page for every emailed link: sign-up confirmation, magic link and
+// password reset. Exchanges the code for a session cookie and moves on to
+// `next`; failures go back to the login page with an error code it explains.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const next = safeNext(searchParams.get('next'), request.nextUrl.origin)
+
+  const failed = (code: string) => {
+    const url = request.nextUrl.clone()
+    url.pathname = '/login'
+    url.search = ''
+    url.searchParams.set('error', code)
+    return NextResponse.redirect(url)
+  }
+
+  // The auth server already rejected the link, e.g. because it expired
+  const linkError = searchParams.get('error_code') ?? searchParams.get('error')
+  if (linkError) return failed(linkError)
+
+  const supabase = await createClient()
+  const code = searchParams.get('code')
+  const tokenHash = searchParams.get('token_hash')
+  const type = searchParams.get('type') as EmailOtpType | null
+
+  let error
+  if (code) {
+    ({ error } = await supabase.auth.exchangeCodeForSession(code))
+  } else if (tokenHash && type) {
+    // Email templates that link with a token hash instead of a PKCE code
+    ({ error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type }))
+  } else {
+    return failed('missing_code')
+  }
+
+  if (error) {
+    console.error('Error completing auth callback:', error)
+    return failed(error.code ?? 'otp_expired')
+  }
+
+  return NextResponse.redirect(next)
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import { friendlyAuthError } from '@/lib/supabase/auth-errors';
+
+const ForgotPassword = () => {
+    const [email, setEmail] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sent, setSent] = useState(false);
+    const supabase = createClient();
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError(null);
+        // The link signs the user in through the callback, then lands on the reset form
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+            redirectTo: `${window.location.origin}/auth/callback?next=/auth/reset-password`
+        });
+        setIsLoading(false);
+        if (error) {
+            setError(friendlyAuthError(error));
+        } else {
+            setSent(true);
+        }
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100">
+            <form onSubmit={handleSubmit} className="bg-white p-6 rounded shadow-md w-full max-w-sm">
+                <h2 className="text-2xl mb-4 text-gray-900">Reset your password</h2>
+                {error && <p className="text-red-500 mb-2">{error}</p>}
+                {sent ? (
+                    // Same message whether or not the account exists
+                    <p className="text-green-600 mb-4">If {email} has an account, a reset link is on its way.</p>
+                ) : (
+                    <>
+                        <p className="text-gray-600 mb-4 text-sm">Enter your email and we&apos;ll send you a link to choose a new password.</p>
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="Email"
+                            required
+                            className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                        />
+                        <button type="submit" className="bg-blue-500 text-white p-2 rounded w-full" disabled={isLoading}>
+                            {isLoading ? 'Sending...' : 'Send reset link'}
+                        </button>
+                    </>
+                )}
+                <Link href="/login" className="block text-blue-500 text-sm mt-4">Back to login</Link>
+            </form>
+        </div>
+    );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { PASSWORD_MIN_LENGTH, friendlyAuthError } from '@/lib/supabase/auth-errors';
+
+// Reached from the reset email via /auth/callback, which has already signed
+// the user in; all that's left is to set the new password.
+const ResetPassword = () => {
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [hasSession, setHasSession] = useState<boolean | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const router = useRouter();
+    const supabase = createClient();
+
+    useEffect(() => {
+        supabase.auth.getUser().then(({ data: { user } }) => setHasSession(!!user));
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError(null);
+        if (password.length < PASSWORD_MIN_LENGTH) {
+            setError(`Use at least ${PASSWORD_MIN_LENGTH} characters for your password.`);
+            return;
+        }
+        if (password !== confirmPassword) {
+            setError('The passwords don\'t match.');
+            return;
+        }
+        setIsLoading(true);
+        const { error } = await supabase.auth.updateUser({ password });
+        setIsLoading(false);
+        if (error) {
+            setError(friendlyAuthError(error));
+        } else {
+            router.push('/');
+        }
+    };
+
+    if (hasSession === false) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gray-100">
+                <div className="bg-white p-6 rounded shadow-md w-full max-w-sm text-gray-900">
+                    <h2 className="text-2xl mb-4">Link expired</h2>
+                    <p className="mb-4">{friendlyAuthError({ code: 'otp_expired' })}</p>
+                    <Link href="/auth/forgot-password" className="text-blue-500 text-sm">Request a new link</Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100">
+            <form onSubmit={handleSubmit} className="bg-white p-6 rounded shadow-md w-full max-w-sm">
+                <h2 className="text-2xl mb-4 text-gray-900">Choose a new password</h2>
+                {error && <p className="text-red-500 mb-2">{error}</p>}
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={`New password (at least ${PASSWORD_MIN_LENGTH} characters)`}
+                    required
+                    className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                />
+                <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Confirm new password"
+                    required
+                    className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                />
+                <button type="submit" className="bg-blue-500 text-white p-2 rounded w-full" disabled={isLoading || hasSession === null}>
+                    {isLoading ? 'Saving...' : 'Set new password'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default ResetPassword;
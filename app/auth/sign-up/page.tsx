@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { PASSWORD_MIN_LENGTH, friendlyAuthError } from '@/lib/supabase/auth-errors';
+
+// New accounts start as viewers; an admin promotes operators afterwards
+const SignUp = () => {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sentTo, setSentTo] = useState<string | null>(null);
+    const router = useRouter();
+    const supabase = createClient();
+
+    const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError(null);
+        if (password.length < PASSWORD_MIN_LENGTH) {
+            setError(`Use at least ${PASSWORD_MIN_LENGTH} characters for your password.`);
+            return;
+        }
+        if (password !== confirmPassword) {
+            setError('The passwords don\'t match.');
+            return;
+        }
+        setIsLoading(true);
+        const { data, error } = await supabase.auth.signUp({
+            email,
+            password,
+            options: { emailRedirectTo: `${window.location.origin}/auth/callback` }
+        });
+        setIsLoading(false);
+        if (error) {
+            setError(friendlyAuthError(error));
+        } else if (data.session) {
+            // Email confirmation is turned off for this project
+            router.push('/');
+        } else if (data.user && data.user.identities?.length === 0) {
+            // Supabase hides existing accounts behind a fake success
+            setError(friendlyAuthError({ code: 'user_already_exists' }));
+        } else {
+            setSentTo(email);
+        }
+    };
+
+    if (sentTo) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-gray-100">
+                <div className="bg-white p-6 rounded shadow-md w-full max-w-sm text-gray-900">
+                    <h2 className="text-2xl mb-4">Check your email</h2>
+                    <p className="mb-4">We sent a confirmation link to {sentTo}. Open it to finish creating your account.</p>
+                    <Link href="/login" className="text-blue-500 text-sm">Back to login</Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100">
+            <form onSubmit={handleSignUp} className="bg-white p-6 rounded shadow-md w-full max-w-sm">
+                <h2 className="text-2xl mb-4 text-gray-900">Create an account</h2>
+                {error && <p className="text-red-500 mb-2">{error}</p>}
+                <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Email"
+                    required
+                    className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={`Password (at least ${PASSWORD_MIN_LENGTH} characters)`}
+                    required
+                    className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                />
+                <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Confirm password"
+                    required
+                    className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                />
+                <button type="submit" className="bg-blue-500 text-white p-2 rounded w-full" disabled={isLoading}>
+                    {isLoading ? 'Creating account...' : 'Sign up'}
+                </button>
+                <p className="text-sm mt-4 text-gray-600">
+                    Already have an account? <Link href="/login" className="text-blue-500">Log in</Link>
+                </p>
+            </form>
+        </div>
+    );
+};
+
+export default SignUp;
@@ -1,29 +1,43 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
-import { Mic, MessageSquare, Send, Play, Square } from "lucide-react";
+import { Mic, MessageSquare, Send, Play, Square, Ear } from "lucide-react";
 import Toast from '../components/Toast';
 import AvatarVideoStream from '../components/AvatarVideoStream';
 import ChromaKeyPanel from '../components/ChromaKeyPanel';
+import RecordingsPanel from '../components/RecordingsPanel';
+import HistoryTransferPanel from '../components/HistoryTransferPanel';
+import ConversationSidebar from '../components/ConversationSidebar';
+import HighlightedText from '../components/HighlightedText';
+import MessageStatusBar from '../components/MessageStatusBar';
 import AudioHandler from '../components/AudioHandler';
 import AudioSignalAnimation from '../components/AudioSignalAnimation';
-
-// Custom events for communication
-const CHAT_HISTORY_EVENT = 'chatHistoryUpdate';
-const AVATAR_SPEAKING_STARTED = 'avatarSpeakingStarted';
-const AVATAR_SPEAKING_ENDED = 'avatarSpeakingEnded';
-
-interface ChatMessage {
-  question: string;
-  response: string;
-  timestamp: string;
-}
-
-declare global {
-  interface Window {
-    currentChatQuestion?: string;
-  }
-}
+import {
+  DEFAULT_VOICE_ACTIVITY_OPTIONS,
+  type ListeningState,
+  type VoiceActivityOptions,
+  parseVoiceActivityOptions
+} from '../lib/voice-activity';
+import {
+  type AvatarPhase,
+  type BusMessage,
+  type ChromaKeyConfig,
+  type ChromaTool,
+  createMessageId,
+  normalizePairingCode,
+  useMessageBus
+} from '../lib/message-bus';
+import { createClient } from '@/lib/supabase/client';
+import { joinPairing } from '@/lib/supabase/pairings';
+import { hasRole } from '@/lib/supabase/roles';
+import { useRole } from '../lib/use-role';
+import {
+  type ChatMessage,
+  type Conversation,
+  clearMessages,
+  getLatestConversation,
+  listMessages
+} from '@/lib/supabase/conversations';
 
 export default function ChatInterface() {
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
@@ -35,47 +49,159 @@ export default function ChatInterface() {
   const [mode, setMode] = useState<'text' | 'audio'>('text');
   const [isRecording, setIsRecording] = useState(false);
   const [recordingStatus, setRecordingStatus] = useState('');
+  // Hands-free: keep the microphone open and submit every utterance
+  const [handsFree, setHandsFree] = useState(false);
+  const [listeningState, setListeningState] = useState<ListeningState>('off');
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivityOptions>(DEFAULT_VOICE_ACTIVITY_OPTIONS);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const currentQuestionRef = useRef<string>('');
+  const conversationIdRef = useRef<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [recordingsVersion, setRecordingsVersion] = useState(0);
+  // Bumped when an answer lands, so the sidebar's titles and order follow
+  const [conversationsVersion, setConversationsVersion] = useState(0);
+  const [searchQuery, setSearchQuery] = useState('');
+  const avatarIdRef = useRef<string | null>(null);
+  const [avatarId, setAvatarId] = useState<string | null>(null);
+  const [avatarPhase, setAvatarPhase] = useState<AvatarPhase | null>(null);
+  // Chroma-key tools run on the avatar screen; the panel mirrors their state
+  const [screenChromaConfig, setScreenChromaConfig] = useState<ChromaKeyConfig | null>(null);
+  const [eyedropperActive, setEyedropperActive] = useState(false);
+  const [splitView, setSplitView] = useState(false);
+  // Set when driving an avatar screen on another device
+  const [pairingCode, setPairingCode] = useState<string | null>(null);
+  const [pairingInput, setPairingInput] = useState('');
+  const [pairingError, setPairingError] = useState<string | null>(null);
+  const supabase = createClient();
+  const role = useRole();
 
-  // Load chat history from localStorage on mount
-  useEffect(() => {
-    const history = localStorage.getItem('avatarChatHistory');
-    if (history) {
-      setChatHistory(JSON.parse(history));
+  const loadHistory = async () => {
+    try {
+      const conversation = await getLatestConversation(supabase, avatarIdRef.current);
+      conversationIdRef.current = conversation?.id ?? null;
+      setConversationId(conversationIdRef.current);
+      setChatHistory(conversation ? await listMessages(supabase, conversation.id) : []);
+    } catch (error) {
+      console.error('Failed to load chat history:', error);
     }
-  }, []);
+  };
 
-  // Listen for chat history updates
+  // Load the conversation from Supabase on mount
   useEffect(() => {
-    const handleChatHistoryUpdate = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      setChatHistory([...customEvent.detail]);
-    };
-    window.addEventListener(CHAT_HISTORY_EVENT, handleChatHistoryUpdate);
-    return () => window.removeEventListener(CHAT_HISTORY_EVENT, handleChatHistoryUpdate);
+    const params = new URLSearchParams(window.location.search);
+    // Opened from an avatar screen, the chat is pinned to that avatar's conversation
+    avatarIdRef.current = params.get('avatarId');
+    setAvatarId(avatarIdRef.current);
+    const code = params.get('code');
+    if (code) {
+      // Paired consoles get history from the avatar screen instead
+      setPairingCode(normalizePairingCode(code));
+    } else {
+      loadHistory();
+    }
   }, []);
 
-  // Listen for avatar speaking status via localStorage (cross-tab)
-  useEffect(() => {
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === 'avatarSpeakingStatus' && event.newValue) {
-        try {
-          const { status } = JSON.parse(event.newValue);
-            if (status === 'started') {
-              setIsLoading(true);
-            } else if (status === 'ended') {
-              setIsLoading(false);
-              currentQuestionRef.current = '';
-          }
-        } catch (e) {}
+  // Follow the avatar window over the message bus
+  const postMessage = useMessageBus((message: BusMessage) => {
+    if (message.type === 'speaking_started') {
+      setIsLoading(true);
+    } else if (message.type === 'speaking_ended') {
+      setIsLoading(false);
+      currentQuestionRef.current = '';
+      setConversationsVersion(version => version + 1);
+    } else if (message.type === 'response_chunk') {
+      // Show the answer as it streams in; the request ID is the message's ID
+      setChatHistory(prev => prev.map(m => m.id === message.requestId
+        ? { ...m, response: message.text, status: m.status === 'queued' ? 'thinking' : m.status }
+        : m));
+    } else if (message.type === 'chat_failed') {
+      setChatHistory(prev => prev.map(m => m.id === message.requestId
+        ? { ...m, status: 'failed', error: message.error }
+        : m));
+      setIsLoading(false);
+    } else if (message.type === 'phase_change') {
+      setAvatarPhase(message.phase);
+    } else if (message.type === 'history_sync') {
+      conversationIdRef.current = message.conversationId;
+      setConversationId(message.conversationId);
+      // Questions the avatar screen has not saved yet stay on the list
+      setChatHistory(prev => [
+        ...message.messages,
+        ...prev.filter(local => local.status === 'queued' && !message.messages.some(saved => saved.id === local.id))
+      ]);
+    } else if (message.type === 'recording_saved') {
+      setRecordingsVersion(version => version + 1);
+    } else if (message.type === 'config_change') {
+      // Sampled with the eyedropper on the avatar screen, or its config when
+      // this console joined
+      setScreenChromaConfig(message.config);
+    } else if (message.type === 'chroma_tool') {
+      if (message.tool === 'eyedropper') {
+        setEyedropperActive(message.enabled);
+      } else {
+        setSplitView(message.enabled);
       }
-    };
-    window.addEventListener('storage', handleStorage);
-    return () => window.removeEventListener('storage', handleStorage);
+    }
+  }, {
+    pairingCode,
+    // A paired console talks only to its avatar screen, never to local windows
+    local: !pairingCode,
+    avatarId,
+    onRemoteJoined: () => postMessage({ type: 'history_request' })
+  });
+
+  const handlePair = async () => {
+    const code = normalizePairingCode(pairingInput);
+    if (!code) return;
+    setPairingError(null);
+    try {
+      if (!await joinPairing(supabase, code)) {
+        setPairingError('No avatar screen shows that code');
+        return;
+      }
+    } catch (joinError) {
+      console.error('Failed to pair:', joinError);
+      setPairingError(joinError instanceof Error ? joinError.message : 'Failed to pair');
+      return;
+    }
+    setPairingCode(code);
+    setPairingInput('');
+    setChatHistory([]);
+    setAvatarPhase(null);
+  };
+
+  const handleChromaTool = (tool: ChromaTool, enabled: boolean) => {
+    if (tool === 'eyedropper') {
+      setEyedropperActive(enabled);
+    } else {
+      setSplitView(enabled);
+    }
+    postMessage({ type: 'chroma_tool', tool, enabled });
+  };
+
+  const handleUnpair = () => {
+    setPairingCode(null);
+    setAvatarPhase(null);
+    loadHistory();
+  };
+
+  // Load saved hands-free settings
+  useEffect(() => {
+    setVoiceActivity(parseVoiceActivityOptions(localStorage.getItem('handsFreeSettings')));
   }, []);
 
+  const updateVoiceActivity = (changes: Partial<VoiceActivityOptions>) => {
+    const next = { ...voiceActivity, ...changes };
+    setVoiceActivity(next);
+    localStorage.setItem('handsFreeSettings', JSON.stringify(next));
+  };
+
+  const toggleHandsFree = () => {
+    setHandsFree((prev) => !prev);
+    setIsRecording(false);
+  };
+
   // Auto-scroll to bottom when chat history updates
   useEffect(() => {
     if (bottomRef.current) {
@@ -83,20 +209,6 @@ export default function ChatInterface() {
     }
   }, [chatHistory]);
 
-  // Poll localStorage for chat history changes every 1 second
-  useEffect(() => {
-    let lastHistory = JSON.stringify(chatHistory);
-    const interval = setInterval(() => {
-      const history = localStorage.getItem('avatarChatHistory');
-      if (history && history !== lastHistory) {
-        const parsed = JSON.parse(history);
-        setChatHistory(parsed);
-        lastHistory = history;
-      }
-    }, 1000);
-    return () => clearInterval(interval);
-  }, []);
-
   // --- Mode toggle logic ---
   const toggleMode = () => {
     setMode((prev) => (prev === 'text' ? 'audio' : 'text'));
@@ -116,27 +228,25 @@ export default function ChatInterface() {
     }
   };
 
+  // The entry stays queued until the avatar screen saves it. Passing a failed
+  // message's ID asks its question again in place.
+  const askQuestion = (question: string, retryId?: string) => {
+    const id = retryId ?? createMessageId();
+    currentQuestionRef.current = question;
+    setChatHistory(prev => retryId
+      ? prev.map(m => m.id === retryId ? { ...m, response: '', status: 'queued', error: null } : m)
+      : [...prev, { id, question, response: '', createdAt: new Date().toISOString(), status: 'queued' }]);
+    postMessage({ type: 'chat_request', requestId: id, question });
+    setIsLoading(true);
+  };
+
   // --- Chat logic (same as before) ---
   const handleSpeak = async () => {
     if (!userInput.trim()) return;
     try {
       const currentInput = userInput;
-      currentQuestionRef.current = currentInput;
-      window.currentChatQuestion = currentInput;
       setUserInput('');
-      setChatHistory(prev => [
-        ...prev,
-        {
-          question: currentInput,
-          response: '...',
-          timestamp: new Date().toLocaleString()
-        }
-      ]);
-      localStorage.setItem('currentChatRequest', JSON.stringify({
-        question: currentInput,
-        timestamp: Date.now()
-      }));
-      setIsLoading(true);
+      askQuestion(currentInput);
     } catch (error) {
       setError('Failed to send message');
       setToastMessage('Failed to send message');
@@ -149,20 +259,7 @@ export default function ChatInterface() {
   const handleTranscriptionComplete = async (text: string) => {
     if (!text.trim()) return;
     try {
-      currentQuestionRef.current = text;
-      setChatHistory(prev => [
-        ...prev,
-        {
-          question: text,
-          response: '...',
-          timestamp: new Date().toLocaleString()
-        }
-      ]);
-      localStorage.setItem('currentChatRequest', JSON.stringify({
-        question: text,
-        timestamp: Date.now()
-      }));
-      setIsLoading(true);
+      askQuestion(text);
       setUserInput('');
     } catch (error) {
       setError('Failed to send transcribed message');
@@ -173,20 +270,43 @@ export default function ChatInterface() {
     }
   };
 
+  // Cut the avatar off mid-answer; the avatar screen marks the exchange as interrupted
+  const handleStop = () => {
+    postMessage({ type: 'interrupt' });
+    setIsLoading(false);
+    currentQuestionRef.current = '';
+  };
+
+  // Open a conversation here and have the avatar screen continue it
+  const selectConversation = async (conversation: Conversation) => {
+    conversationIdRef.current = conversation.id;
+    setConversationId(conversation.id);
+    postMessage({ type: 'conversation_select', conversationId: conversation.id });
+    try {
+      setChatHistory(await listMessages(supabase, conversation.id));
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    }
+  };
+
+  // Deleting the open conversation falls back to the latest remaining one
+  const handleConversationDeleted = async (deletedId: string) => {
+    if (deletedId !== conversationIdRef.current) return;
+    await loadHistory();
+    if (conversationIdRef.current) {
+      postMessage({ type: 'conversation_select', conversationId: conversationIdRef.current });
+    }
+  };
+
   const clearHistory = () => setShowToast(true);
-  const handleConfirmClear = () => {
+  const handleConfirmClear = async () => {
     try {
-      localStorage.removeItem('avatarChatHistory');
+      // The avatar screen clears its own conversation; locally we can also do it directly
+      postMessage({ type: 'history_clear' });
+      if (!pairingCode && conversationIdRef.current) {
+        await clearMessages(supabase, conversationIdRef.current);
+      }
       setChatHistory([]);
-      const event = new CustomEvent(CHAT_HISTORY_EVENT, { detail: [], bubbles: true, composed: true });
-      window.dispatchEvent(event);
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'avatarChatHistory',
-        newValue: null,
-        oldValue: localStorage.getItem('avatarChatHistory'),
-        storageArea: localStorage,
-        url: window.location.href
-      }));
       setShowToast(false);
     } catch (error) {
       console.error('Failed to clear history:', error);
@@ -194,6 +314,15 @@ export default function ChatInterface() {
   };
   const handleCancelClear = () => setShowToast(false);
 
+  // The middleware already keeps viewers out; this covers a role changed mid-session
+  if (role && !hasRole(role, 'operator')) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-100 text-gray-700 p-6 text-center">
+        Your role can watch the avatar screen but not send it questions. Ask an admin for operator access.
+      </div>
+    );
+  }
+
   return (
     <>
       <style jsx global>{`
@@ -224,18 +353,79 @@ export default function ChatInterface() {
           color: #111827 !important;
         }
       `}</style>
-      <div className="chat-interface-container min-h-screen bg-[#f3f4f6] p-8">
+      <div className={`chat-interface-container min-h-screen bg-[#f3f4f6] p-8 ${pairingCode ? '' : 'lg:pl-80'}`}>
+        {/* Paired consoles follow the avatar screen's conversation */}
+        {!pairingCode && (
+          <ConversationSidebar
+            activeConversationId={conversationId}
+            avatarId={avatarId}
+            refreshKey={conversationsVersion}
+            onSelect={selectConversation}
+            onDeleted={handleConversationDeleted}
+            onSearchChange={setSearchQuery}
+          />
+        )}
         <div className="max-w-4xl mx-auto">
           <div className="flex justify-between items-center mb-8">
-            <h1 className="text-3xl font-bold text-gray-900">Chat Interface</h1>
-            <button
-              onClick={clearHistory}
-              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
-            >
-              Clear History
-            </button>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-gray-900">Chat Interface</h1>
+              {avatarPhase && (
+                <span className="text-sm text-gray-500 bg-white rounded-full px-3 py-1 shadow">
+                  Avatar: {avatarPhase === 'stream' ? 'live' : avatarPhase.replace('_', ' ')}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {pairingCode ? (
+                <>
+                  <span className="text-sm text-gray-700 font-mono tracking-widest">Paired: {pairingCode}</span>
+                  <button
+                    onClick={handleUnpair}
+                    className="px-4 py-2 bg-white text-gray-900 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors"
+                  >
+                    Unpair
+                  </button>
+                </>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={pairingInput}
+                    onChange={(e) => setPairingInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handlePair();
+                    }}
+                    placeholder="Pair code"
+                    className="w-32 px-3 py-2 border border-gray-200 rounded-lg bg-white text-gray-900 font-mono uppercase outline-none"
+                  />
+                  <button
+                    onClick={handlePair}
+                    disabled={!normalizePairingCode(pairingInput)}
+                    className="px-4 py-2 bg-white text-gray-900 border border-gray-200 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                  >
+                    Pair
+                  </button>
+                  {pairingError && <span className="text-sm text-red-600">{pairingError}</span>}
+                </>
+              )}
+              <button
+                onClick={clearHistory}
+                className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+              >
+                Clear History
+              </button>
+            </div>
           </div>
 
+          <RecordingsPanel conversationId={conversationId} refreshKey={recordingsVersion} />
+          <HistoryTransferPanel
+            conversationId={conversationId}
+            avatarId={avatarId}
+            messages={chatHistory}
+            canImport={!pairingCode}
+            onImported={selectConversation}
+          />
+
           {/* Chat History */}
           <div className="space-y-4 mb-8" ref={chatContainerRef}>
             {chatHistory.length === 0 ? (
@@ -243,14 +433,34 @@ export default function ChatInterface() {
                 No chat history available
               </div>
             ) : (
-              chatHistory.map((message, index) => (
-                <div key={index} className="bg-white rounded-lg shadow p-6">
+              chatHistory.map(message => (
+                <div key={message.id} className="bg-white rounded-lg shadow p-6">
                   <div className="mb-4">
-                    <p className="text-sm text-gray-500">{message.timestamp}</p>
-                    <p className="font-semibold text-gray-800">Q: {message.question}</p>
+                    <p className="text-sm text-gray-500">{new Date(message.createdAt).toLocaleString()}</p>
+                    <p className="font-semibold text-gray-800">Q: <HighlightedText text={message.question} query={searchQuery} /></p>
                   </div>
                   <div>
-                    <p className="text-gray-600">A: {message.response}</p>
+                    <p className="text-gray-600 whitespace-pre-wrap">
+                      A: {message.response
+                        ? <HighlightedText text={message.response} query={searchQuery} />
+                        : <span className="italic text-gray-400">{message.status === 'queued' || message.status === 'thinking' ? '…' : 'No answer'}</span>}
+                    </p>
+                    <MessageStatusBar message={message} onRetry={() => askQuestion(message.question, message.id)} />
+                    {message.toolCalls && message.toolCalls.length > 0 && (
+                      <details className="mt-2 text-xs text-gray-500">
+                        <summary className="cursor-pointer">
+                          Used {message.toolCalls.map(call => call.name).join(', ')}
+                        </summary>
+                        <ul className="mt-1 space-y-1">
+                          {message.toolCalls.map((call, i) => (
+                            <li key={i} className="font-mono break-all">
+                              <span className={call.status === 'ok' ? 'text-green-700' : 'text-red-600'}>{call.name}</span>
+                              ({JSON.stringify(call.arguments)}) {call.status !== 'ok' && `[${call.status}] `}→ {call.output} ({call.durationMs} ms)
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
                 </div>
               ))
@@ -260,6 +470,34 @@ export default function ChatInterface() {
 
           {/* Input Interface - v0 style */}
           <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-gray-200">
+            {mode === 'audio' && handsFree && (
+              <div className="flex items-center w-full max-w-3xl mx-auto gap-6 mb-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  Sensitivity
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={voiceActivity.sensitivity}
+                    onChange={(e) => updateVoiceActivity({ sensitivity: parseFloat(e.target.value) })}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Pause before sending
+                  <input
+                    type="range"
+                    min={300}
+                    max={3000}
+                    step={100}
+                    value={voiceActivity.silenceDurationMs}
+                    onChange={(e) => updateVoiceActivity({ silenceDurationMs: parseInt(e.target.value, 10) })}
+                  />
+                  <span className="w-12 text-gray-500">{(voiceActivity.silenceDurationMs / 1000).toFixed(1)}s</span>
+                </label>
+                {recordingStatus && <span className="text-gray-500">{recordingStatus}</span>}
+              </div>
+            )}
             <div className="flex items-center w-full max-w-3xl mx-auto gap-2">
               {/* Mode toggle button (left) */}
               <button
@@ -271,6 +509,20 @@ export default function ChatInterface() {
                 {mode === 'text' ? <Mic className="h-5 w-5 text-gray-900" /> : <MessageSquare className="h-5 w-5 text-gray-900" />}
               </button>
 
+              {/* Hands-free toggle, audio mode only */}
+              {mode === 'audio' && (
+                <button
+                  className={`h-12 w-12 rounded-lg border flex items-center justify-center transition-colors ${handsFree ? 'bg-gray-900 border-gray-900' : 'bg-white border-gray-200 hover:bg-gray-100'}`}
+                  onClick={toggleHandsFree}
+                  aria-label={handsFree ? 'Turn Off Hands-free' : 'Turn On Hands-free'}
+                  aria-pressed={handsFree}
+                  title="Hands-free: listen continuously and send each question automatically"
+                  type="button"
+                >
+                  <Ear className={`h-5 w-5 ${handsFree ? 'text-white' : 'text-gray-900'}`} />
+                </button>
+              )}
+
               {/* Input field or audio visualizer */}
               <div className="input-area flex-1 relative bg-white rounded-lg h-12 overflow-hidden border border-gray-200">
                 {mode === 'text' ? (
@@ -279,19 +531,19 @@ export default function ChatInterface() {
                     value={userInput}
                     onChange={(e) => setUserInput(e.target.value)}
                     className="w-full h-full px-4 outline-none"
-                    placeholder="Type your message..."
-                    disabled={isLoading}
+                    placeholder={isLoading ? "Type to interrupt..." : "Type your message..."}
                     onKeyPress={(e) => {
-                      if (e.key === 'Enter' && !isLoading) handleSpeak();
+                      // Sending while the avatar speaks interrupts it
+                      if (e.key === 'Enter') handleSpeak();
                     }}
                   />
                 ) : (
                   <div className="w-full h-full flex items-center justify-center px-4">
                     {isRecording ? (
-                      <AudioSignalAnimation isRecording={isRecording} />
+                      <AudioSignalAnimation isRecording={isRecording} state={handsFree ? listeningState : 'hearing'} />
                     ) : (
                       <div className="absolute inset-0 flex items-center justify-center text-gray-400">
-                        Tap to record audio
+                        {handsFree ? 'Tap to start listening' : 'Tap to record audio'}
                       </div>
                     )}
                   </div>
@@ -304,24 +556,36 @@ export default function ChatInterface() {
                 onClick={handleSendOrRecord}
                 aria-label={mode === 'text' ? 'Send Message' : isRecording ? 'Stop Recording' : 'Start Recording'}
                 type="button"
-                disabled={isLoading || (mode === 'text' && !userInput.trim())}
+                disabled={mode === 'text' && !userInput.trim()}
               >
                 {mode === 'text' ? (
-                  isLoading ? (
-                    <svg className="animate-spin h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                  ) : (
-                    <Send className="h-5 w-5 text-gray-900" />
-                  )
+                  <Send className="h-5 w-5 text-gray-900" />
                 ) : isRecording ? (
                   <Square className="h-5 w-5 text-gray-900" />
                 ) : (
                   <Play className="h-5 w-5 text-gray-900" />
                 )}
               </button>
-              <ChromaKeyPanel />
+              {/* Stop button, shown while the avatar is answering */}
+              {isLoading && (
+                <button
+                  className="h-12 w-12 rounded-lg bg-red-50 border border-red-200 flex items-center justify-center hover:bg-red-100 transition-colors"
+                  onClick={handleStop}
+                  aria-label="Stop Avatar"
+                  title="Stop the avatar"
+                  type="button"
+                >
+                  <Square className="h-5 w-5 text-red-600 fill-red-600" />
+                </button>
+              )}
+              <ChromaKeyPanel
+                onConfigChange={(config) => postMessage({ type: 'config_change', config })}
+                avatarId={avatarId}
+                screenConfig={screenChromaConfig}
+                eyedropperActive={eyedropperActive}
+                splitView={splitView}
+                onToolChange={handleChromaTool}
+              />
             </div>
           </div>
         </div>
@@ -329,6 +593,11 @@ export default function ChatInterface() {
         {/* Audio Handler */}
         <AudioHandler
           isRecording={isRecording}
+          handsFree={handsFree}
+          // Don't let the microphone pick up the avatar's own answer
+          paused={isLoading}
+          voiceActivity={voiceActivity}
+          onListeningStateChange={setListeningState}
           onTranscriptionComplete={handleTranscriptionComplete}
           onRecordingStatusChange={setRecordingStatus}
         />
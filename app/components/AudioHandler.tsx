@@ -1,29 +1,99 @@
-import { useState, useRef, useEffect } from 'react';
+import { useRef, useEffect } from 'react';
+import {
+  DEFAULT_VOICE_ACTIVITY_OPTIONS,
+  type ListeningState,
+  type VoiceActivityOptions,
+  VoiceActivityDetector
+} from '../lib/voice-activity';
 
 interface AudioHandlerProps {
   onTranscriptionComplete: (text: string) => void;
   isRecording: boolean;
   onRecordingStatusChange: (status: string) => void;
+  // Keep listening while isRecording and submit each utterance on its own
+  handsFree?: boolean;
+  // Ignore the microphone, e.g. while the avatar is speaking
+  paused?: boolean;
+  voiceActivity?: VoiceActivityOptions;
+  onListeningStateChange?: (state: ListeningState) => void;
 }
 
-export default function AudioHandler({ onTranscriptionComplete, isRecording, onRecordingStatusChange }: AudioHandlerProps) {
+export default function AudioHandler({
+  onTranscriptionComplete,
+  isRecording,
+  onRecordingStatusChange,
+  handsFree = false,
+  paused = false,
+  voiceActivity = DEFAULT_VOICE_ACTIVITY_OPTIONS,
+  onListeningStateChange
+}: AudioHandlerProps) {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  // False once hands-free listening is turned off, even mid-getUserMedia
+  const listeningRef = useRef<boolean>(false);
+  // Set when the utterance being recorded should be thrown away on stop
+  const discardUtteranceRef = useRef<boolean>(false);
+  const pendingTranscriptionsRef = useRef<number>(0);
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+  const voiceActivityRef = useRef(voiceActivity);
+  voiceActivityRef.current = voiceActivity;
+  const onTranscriptionCompleteRef = useRef(onTranscriptionComplete);
+  onTranscriptionCompleteRef.current = onTranscriptionComplete;
+  const onListeningStateChangeRef = useRef(onListeningStateChange);
+  onListeningStateChangeRef.current = onListeningStateChange;
 
   useEffect(() => {
-    if (isRecording) {
-      startRecording();
-    } else {
+    if (!isRecording) {
       stopRecording();
+      return;
+    }
+    if (handsFree) {
+      listeningRef.current = true;
+      startListening();
+      return () => stopListening();
+    }
+    startRecording();
+  }, [isRecording, handsFree]);
+
+  useEffect(() => {
+    detectorRef.current?.setOptions(voiceActivity);
+  }, [voiceActivity]);
+
+  useEffect(() => {
+    if (!detectorRef.current) return;
+    detectorRef.current.setPaused(paused);
+    if (paused) {
+      // Whatever was being recorded is most likely the avatar itself
+      discardUtterance();
+      onRecordingStatusChange('Paused while the avatar speaks');
+    } else {
+      onRecordingStatusChange('Listening...');
+    }
+    updateListeningState();
+  }, [paused]);
+
+  const updateListeningState = (hearing = false) => {
+    let state: ListeningState = 'off';
+    if (detectorRef.current) {
+      if (hearing) {
+        state = 'hearing';
+      } else if (pendingTranscriptionsRef.current > 0) {
+        state = 'processing';
+      } else {
+        state = 'listening';
+      }
     }
-  }, [isRecording]);
+    onListeningStateChangeRef.current?.(state);
+  };
 
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
-      
+
       const mediaRecorder = new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
@@ -51,24 +121,104 @@ export default function AudioHandler({ onTranscriptionComplete, isRecording, onR
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop();
       onRecordingStatusChange('Processing audio...');
-      
+
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
     }
   };
 
+  // --- Hands-free mode ---
+  const startListening = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (!listeningRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      const detector = new VoiceActivityDetector(stream, {
+        onSpeechStart: startUtterance,
+        onSpeechEnd: (durationMs) => {
+          // Very short bursts are coughs, clicks and door slams
+          discardUtteranceRef.current = durationMs < voiceActivityRef.current.minSpeechMs;
+          mediaRecorderRef.current?.stop();
+        }
+      }, voiceActivityRef.current);
+      detector.setPaused(pausedRef.current);
+      detector.start();
+      detectorRef.current = detector;
+      onRecordingStatusChange(pausedRef.current ? 'Paused while the avatar speaks' : 'Listening...');
+      updateListeningState();
+    } catch (error) {
+      console.error('Error starting hands-free listening:', error);
+      onRecordingStatusChange('Error: ' + (error as Error).message);
+    }
+  };
+
+  // Record one utterance on the shared microphone stream
+  const startUtterance = () => {
+    if (!streamRef.current) return;
+    const mediaRecorder = new MediaRecorder(streamRef.current);
+    const chunks: Blob[] = [];
+    mediaRecorderRef.current = mediaRecorder;
+    discardUtteranceRef.current = false;
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    mediaRecorder.onstop = async () => {
+      if (mediaRecorderRef.current === mediaRecorder) {
+        mediaRecorderRef.current = null;
+      }
+      if (discardUtteranceRef.current || chunks.length === 0) {
+        updateListeningState();
+        return;
+      }
+      pendingTranscriptionsRef.current += 1;
+      updateListeningState();
+      try {
+        await sendToWhisper(new Blob(chunks, { type: 'audio/webm' }));
+      } finally {
+        pendingTranscriptionsRef.current -= 1;
+        updateListeningState();
+      }
+    };
+
+    mediaRecorder.start();
+    updateListeningState(true);
+  };
+
+  const discardUtterance = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+      discardUtteranceRef.current = true;
+      mediaRecorderRef.current.stop();
+    }
+  };
+
+  const stopListening = () => {
+    listeningRef.current = false;
+    discardUtterance();
+    detectorRef.current?.stop();
+    detectorRef.current = null;
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    onRecordingStatusChange('');
+    updateListeningState();
+  };
+
   const sendToWhisper = async (audioBlob: Blob) => {
     try {
       const formData = new FormData();
       formData.append('file', audioBlob, 'audio.webm');
-      formData.append('model', 'whisper-1');
 
-      const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      const response = await fetch('/api/transcribe', {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.NEXT_PUBLIC_OPENAI_API_KEY}`,
-        },
         body: formData
       });
 
@@ -77,8 +227,12 @@ export default function AudioHandler({ onTranscriptionComplete, isRecording, onR
       }
 
       const data = await response.json();
-      onRecordingStatusChange('');
-      onTranscriptionComplete(data.text);
+      if (detectorRef.current) {
+        onRecordingStatusChange(pausedRef.current ? 'Paused while the avatar speaks' : 'Listening...');
+      } else {
+        onRecordingStatusChange('');
+      }
+      onTranscriptionCompleteRef.current(data.text);
     } catch (error) {
       console.error('Error transcribing audio:', error);
       onRecordingStatusChange('Error: Failed to transcribe audio');
@@ -86,4 +240,4 @@ export default function AudioHandler({ onTranscriptionComplete, isRecording, onR
   };
 
   return null; // This is a utility component, no UI needed
-} 
\ No newline at end of file
+}
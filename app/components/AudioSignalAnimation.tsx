@@ -1,15 +1,27 @@
 "use client"
 
 import { useEffect, useRef } from "react"
+import type { ListeningState } from "../lib/voice-activity"
 
 interface AudioSignalAnimationProps {
   isRecording: boolean
+  // Hands-free mode only; manual recording always animates as "hearing"
+  state?: ListeningState
 }
 
-export default function AudioSignalAnimation({ isRecording }: AudioSignalAnimationProps) {
+const STATE_LABELS: Partial<Record<ListeningState, string>> = {
+  listening: "Listening...",
+  hearing: "Hearing you",
+  processing: "Processing...",
+}
+
+export default function AudioSignalAnimation({ isRecording, state = "hearing" }: AudioSignalAnimationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationFrameRef = useRef<number | null>(null)
   const barsRef = useRef<{ height: number; x: number }[]>([])
+  // Read by the animation loop on every frame
+  const stateRef = useRef(state)
+  stateRef.current = state
 
   // Initialize bars
   useEffect(() => {
@@ -89,20 +101,30 @@ export default function AudioSignalAnimation({ isRecording }: AudioSignalAnimati
         }
       })
 
-      // Every few frames, update some bar heights to create variation
+      // Every few frames, update some bar heights to create variation.
+      // Listening stays close to flat; processing keeps a steady low pulse.
+      const current = stateRef.current
       if (Math.random() > 0.7) {
         const randomIndex = Math.floor(Math.random() * barsRef.current.length)
         if (barsRef.current[randomIndex]) {
-          barsRef.current[randomIndex].height = Math.random() * 20 + 5
+          barsRef.current[randomIndex].height = current === "hearing" ? Math.random() * 20 + 5 : Math.random() * 4 + 2
         }
       }
 
       // Draw bars
-      ctx.fillStyle = "#000000"
+      if (current === "processing") {
+        ctx.globalAlpha = 0.5 + 0.5 * Math.abs(Math.sin(Date.now() / 300))
+        ctx.fillStyle = "#2563eb"
+      } else {
+        ctx.globalAlpha = 1
+        ctx.fillStyle = current === "hearing" ? "#000000" : "#9ca3af"
+      }
       barsRef.current.forEach((bar) => {
-        const halfHeight = bar.height / 2
-        ctx.fillRect(bar.x, centerY - halfHeight, barWidth, bar.height)
+        const height = current === "hearing" ? bar.height : Math.min(bar.height, 6)
+        const halfHeight = height / 2
+        ctx.fillRect(bar.x, centerY - halfHeight, barWidth, height)
       })
+      ctx.globalAlpha = 1
 
       // Continue animation if still recording
       if (isRecording) {
@@ -113,5 +135,15 @@ export default function AudioSignalAnimation({ isRecording }: AudioSignalAnimati
     animate()
   }
 
-  return <canvas ref={canvasRef} className="w-full h-full" style={{ display: isRecording ? "block" : "none" }} />
+  const label = STATE_LABELS[state]
+  return (
+    <div className="relative w-full h-full" style={{ display: isRecording ? "block" : "none" }}>
+      <canvas ref={canvasRef} className="w-full h-full" />
+      {label && state !== "hearing" && (
+        <span className="absolute inset-0 flex items-center justify-center text-xs font-medium text-gray-500 pointer-events-none">
+          {label}
+        </span>
+      )}
+    </div>
+  )
 } 
\ No newline at end of file
@@ -0,0 +1,498 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import ClipLoader from 'react-spinners/ClipLoader';
+import { createClient } from '@/lib/supabase/client';
+import {
+  type Avatar,
+  type AvatarMediaKind,
+  createAvatar,
+  getAvatar,
+  removeAvatarMedia,
+  saveAvatarSettings,
+  updateAvatar,
+  uploadAvatarMedia
+} from '@/lib/supabase/avatars';
+import {
+  type AvatarSettings,
+  type CaptionSettings,
+  type ChromaBackground,
+  DEFAULT_AVATAR_SETTINGS,
+  DEFAULT_CAPTION_SETTINGS
+} from '@/lib/supabase/avatar-settings';
+import { type ClipInfo, CLIP_TYPES, IMAGE_TYPES, probeStoredClip, validateClip, validateImage } from '../lib/media-validation';
+
+export type AvatarFormMode = 'create' | 'edit' | 'duplicate';
+
+interface AvatarFormModalProps {
+  mode: AvatarFormMode;
+  // The avatar being edited or duplicated
+  avatar?: Avatar;
+  settings?: AvatarSettings;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type ClipKind = 'idle' | 'to_live' | 'to_idle';
+type BackgroundType = ChromaBackground['type'];
+
+// Background loops play for the whole session, so they may run much longer than clips
+const MAX_BACKGROUND_VIDEO_SECONDS = 600;
+
+const MEDIA_FIELDS: { kind: Exclude<AvatarMediaKind, 'background'>; column: keyof Avatar; label: string }[] = [
+  { kind: 'preview', column: 'avatar_preview_image_url', label: 'Preview image' },
+  { kind: 'idle', column: 'idle_video_path', label: 'Idle loop clip' },
+  { kind: 'to_live', column: 'to_live_video_path', label: 'Idle to live clip' },
+  { kind: 'to_idle', column: 'to_idle_video_path', label: 'Live to idle clip' }
+];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-violet-500';
+
+export default function AvatarFormModal({ mode, avatar, settings = DEFAULT_AVATAR_SETTINGS, onClose, onSaved }: AvatarFormModalProps) {
+  const [avatarId, setAvatarId] = useState(mode === 'edit' ? avatar?.avatar_id ?? '' : '');
+  const [avatarName, setAvatarName] = useState(
+    mode === 'duplicate' && avatar ? `${avatar.avatar_name} (copy)` : avatar?.avatar_name ?? ''
+  );
+  const [form, setForm] = useState<AvatarSettings>(settings);
+  const [files, setFiles] = useState<Partial<Record<AvatarMediaKind, File>>>({});
+  const [clipInfo, setClipInfo] = useState<Partial<Record<ClipKind, ClipInfo>>>({});
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<AvatarMediaKind, string>>>({});
+  const [backgroundFile, setBackgroundFile] = useState<File | null>(null);
+  const [backgroundError, setBackgroundError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const supabase = createClient();
+
+  const updateForm = (changes: Partial<AvatarSettings>) => setForm((prev) => ({ ...prev, ...changes }));
+  const updateCaptions = (changes: Partial<CaptionSettings>) =>
+    setForm((prev) => ({ ...prev, captions: { ...(prev.captions ?? DEFAULT_CAPTION_SETTINGS), ...changes } }));
+
+  const handleFileChange = async (kind: AvatarMediaKind, file: File | undefined) => {
+    setFieldErrors((prev) => ({ ...prev, [kind]: undefined }));
+    setFiles((prev) => ({ ...prev, [kind]: undefined }));
+    if (kind !== 'preview') {
+      setClipInfo((prev) => ({ ...prev, [kind]: undefined }));
+    }
+    if (!file) return;
+    try {
+      if (kind === 'preview') {
+        validateImage(file);
+      } else {
+        const info = await validateClip(file);
+        setClipInfo((prev) => ({ ...prev, [kind]: info }));
+      }
+      setFiles((prev) => ({ ...prev, [kind]: file }));
+    } catch (validationError) {
+      setFieldErrors((prev) => ({ ...prev, [kind]: (validationError as Error).message }));
+    }
+  };
+
+  const handleBackgroundTypeChange = (type: BackgroundType) => {
+    setBackgroundFile(null);
+    setBackgroundError(null);
+    if (type === 'none') {
+      updateForm({ background: null });
+    } else if (type === 'color') {
+      updateForm({ background: { type, color: '#000000' } });
+    } else {
+      // Keep the stored file when switching back to its own type
+      const current = form.background;
+      updateForm({ background: { type, url: current?.type === type ? current.url : '' } });
+    }
+  };
+
+  const handleBackgroundFileChange = async (file: File | undefined) => {
+    setBackgroundFile(null);
+    setBackgroundError(null);
+    if (!file) return;
+    try {
+      if (form.background?.type === 'video') {
+        await validateClip(file, { maxSeconds: MAX_BACKGROUND_VIDEO_SECONDS });
+      } else {
+        validateImage(file);
+      }
+      setBackgroundFile(file);
+    } catch (validationError) {
+      setBackgroundError((validationError as Error).message);
+    }
+  };
+
+  // Transitions cut straight into and out of the idle loop, so they must match
+  // it. Clips kept from the stored avatar count too; one that cannot be
+  // loaded is left out rather than blocking the save.
+  const resolutionMismatch = async () => {
+    const picked = Object.values(clipInfo).filter((info): info is ClipInfo => Boolean(info));
+    if (picked.length === 0) return null;
+    const stored = await Promise.all(
+      MEDIA_FIELDS.filter(({ kind, column }) => kind !== 'preview' && !clipInfo[kind as ClipKind] && avatar?.[column])
+        .map(({ column }) => probeStoredClip(avatar![column]).catch((probeError) => {
+          console.warn('[AvatarFormModal] Could not read stored clip:', probeError);
+          return null;
+        }))
+    );
+    const sizes = [...picked, ...stored]
+      .filter((info): info is ClipInfo => Boolean(info))
+      .map((info) => `${info.width}x${info.height}`);
+    return new Set(sizes).size > 1 ? `All clips must have the same resolution (got ${Array.from(new Set(sizes)).join(', ')})` : null;
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    const id = avatarId.trim();
+    if (!id || !avatarName.trim()) {
+      setError('Avatar ID and name are required');
+      return;
+    }
+    const missing = MEDIA_FIELDS.filter(({ kind, column }) => !files[kind] && !avatar?.[column]);
+    if (missing.length > 0) {
+      setError(`Please add: ${missing.map((field) => field.label.toLowerCase()).join(', ')}`);
+      return;
+    }
+    const mismatch = await resolutionMismatch();
+    if (mismatch) {
+      setError(mismatch);
+      return;
+    }
+    const background = form.background;
+    if ((background?.type === 'image' || background?.type === 'video') && !background.url && !backgroundFile) {
+      setError(`Please add a background ${background.type}`);
+      return;
+    }
+
+    setIsSaving(true);
+    // Uploads no saved row points at yet, removed again if the save fails
+    let pending: string[] = [];
+    try {
+      // Checked before uploading, so a taken ID leaves no files behind
+      if (mode !== 'edit' && await getAvatar(supabase, id)) {
+        setError(`An avatar with ID "${id}" already exists`);
+        return;
+      }
+      // New uploads replace the existing URLs; a duplicate reuses the originals
+      const urls: Partial<Avatar> = {};
+      for (const { kind, column } of MEDIA_FIELDS) {
+        const file = files[kind];
+        if (file) {
+          urls[column] = await uploadAvatarMedia(supabase, id, kind, file);
+          pending.push(urls[column]!);
+        } else {
+          urls[column] = avatar?.[column];
+        }
+      }
+      let savedBackground = background;
+      if ((background?.type === 'image' || background?.type === 'video') && backgroundFile) {
+        const url = await uploadAvatarMedia(supabase, id, 'background', backgroundFile);
+        pending.push(url);
+        savedBackground = { type: background.type, url };
+      }
+      const row = {
+        avatar_name: avatarName.trim(),
+        avatar_preview_image_url: urls.avatar_preview_image_url!,
+        idle_video_path: urls.idle_video_path!,
+        to_live_video_path: urls.to_live_video_path!,
+        to_idle_video_path: urls.to_idle_video_path!
+      };
+      if (mode === 'edit') {
+        await updateAvatar(supabase, id, row);
+      } else {
+        await createAvatar(supabase, { avatar_id: id, ...row });
+      }
+      pending = pending.filter((url) => !Object.values(row).includes(url));
+      await saveAvatarSettings(supabase, id, {
+        ...form,
+        background: savedBackground,
+        assistantId: form.assistantId?.trim() || null,
+        voiceId: form.voiceId?.trim() || null,
+        greeting: form.greeting?.trim() || null
+      });
+      pending = [];
+
+      if (mode === 'edit' && avatar) {
+        const replaced = MEDIA_FIELDS.filter(({ kind }) => files[kind]).map(({ column }) => avatar[column]);
+        const previous = settings.background;
+        const savedUrl = savedBackground && 'url' in savedBackground ? savedBackground.url : null;
+        if (previous && 'url' in previous && previous.url !== savedUrl) {
+          replaced.push(previous.url);
+        }
+        // The avatar is saved; a file left behind is not worth failing over
+        removeAvatarMedia(supabase, replaced).catch((removeError) =>
+          console.error('[AvatarFormModal] Failed to remove replaced media:', removeError)
+        );
+      }
+      onSaved();
+    } catch (saveError) {
+      console.error('[AvatarFormModal] Failed to save avatar:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save avatar');
+      removeAvatarMedia(supabase, pending).catch((removeError) =>
+        console.error('[AvatarFormModal] Failed to remove uploaded media:', removeError)
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const title = mode === 'edit' ? 'Edit avatar' : mode === 'duplicate' ? 'Duplicate avatar' : 'New avatar';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-2xl max-h-full overflow-y-auto bg-white dark:bg-gray-800 dark:text-white rounded-xl shadow-lg p-6 space-y-4"
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold">{title}</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm">
+            HeyGen avatar ID
+            <input
+              className={`${inputClass} mt-1 disabled:opacity-60`}
+              value={avatarId}
+              onChange={(e) => setAvatarId(e.target.value)}
+              disabled={mode === 'edit'}
+              required
+            />
+          </label>
+          <label className="block text-sm">
+            Name
+            <input className={`${inputClass} mt-1`} value={avatarName} onChange={(e) => setAvatarName(e.target.value)} required />
+          </label>
+        </div>
+
+        <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <legend className="text-sm font-semibold mb-2">Media</legend>
+          {MEDIA_FIELDS.map(({ kind, column, label }) => (
+            <label key={kind} className="block text-sm">
+              {label}
+              <input
+                type="file"
+                accept={(kind === 'preview' ? IMAGE_TYPES : CLIP_TYPES).join(',')}
+                className="block w-full mt-1 text-sm"
+                onChange={(e) => handleFileChange(kind, e.target.files?.[0])}
+              />
+              {fieldErrors[kind] ? (
+                <span className="text-red-500 text-xs">{fieldErrors[kind]}</span>
+              ) : kind !== 'preview' && clipInfo[kind] ? (
+                <span className="text-gray-500 text-xs">
+                  {clipInfo[kind]!.width}x{clipInfo[kind]!.height}, {clipInfo[kind]!.durationSeconds.toFixed(1)}s
+                </span>
+              ) : avatar?.[column] && !files[kind] ? (
+                <span className="text-gray-500 text-xs">Keeping the current file</span>
+              ) : null}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <legend className="text-sm font-semibold mb-2">Persona</legend>
+          <label className="block text-sm">
+            OpenAI assistant ID
+            <input
+              className={`${inputClass} mt-1`}
+              value={form.assistantId ?? ''}
+              onChange={(e) => updateForm({ assistantId: e.target.value })}
+              placeholder="Default assistant"
+            />
+          </label>
+          <label className="block text-sm">
+            HeyGen voice ID
+            <input
+              className={`${inputClass} mt-1`}
+              value={form.voiceId ?? ''}
+              onChange={(e) => updateForm({ voiceId: e.target.value })}
+              placeholder="Avatar's default voice"
+            />
+          </label>
+          <label className="block text-sm">
+            Voice rate ({form.voiceRate.toFixed(2)})
+            <input
+              type="range"
+              min={0.5}
+              max={1.5}
+              step={0.05}
+              className="w-full mt-1"
+              value={form.voiceRate}
+              onChange={(e) => updateForm({ voiceRate: parseFloat(e.target.value) })}
+            />
+          </label>
+          <label className="block text-sm">
+            Language
+            <input className={`${inputClass} mt-1`} value={form.language} onChange={(e) => updateForm({ language: e.target.value })} />
+          </label>
+          <label className="block text-sm">
+            Quality
+            <select
+              className={`${inputClass} mt-1`}
+              value={form.quality}
+              onChange={(e) => updateForm({ quality: e.target.value as AvatarSettings['quality'] })}
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </label>
+          <label className="block text-sm">
+            Inactivity timeout (seconds)
+            <input
+              type="number"
+              min={1}
+              className={`${inputClass} mt-1`}
+              value={form.inactivityTimeoutSeconds}
+              onChange={(e) => updateForm({ inactivityTimeoutSeconds: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            />
+          </label>
+          <label className="block text-sm sm:col-span-2">
+            Greeting
+            <textarea
+              className={`${inputClass} mt-1`}
+              rows={2}
+              value={form.greeting ?? ''}
+              onChange={(e) => updateForm({ greeting: e.target.value })}
+              placeholder="Spoken when the avatar goes live"
+            />
+          </label>
+        </fieldset>
+
+        <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <legend className="text-sm font-semibold mb-2">Background</legend>
+          <label className="block text-sm">
+            Behind the keyed avatar
+            <select
+              className={`${inputClass} mt-1`}
+              value={form.background?.type ?? 'none'}
+              onChange={(e) => handleBackgroundTypeChange(e.target.value as BackgroundType)}
+            >
+              <option value="none">Transparent</option>
+              <option value="color">Solid color</option>
+              <option value="image">Image</option>
+              <option value="video">Video</option>
+            </select>
+          </label>
+          {form.background?.type === 'color' && (
+            <label className="block text-sm">
+              Color
+              <input
+                type="color"
+                className="block w-full h-10 mt-1"
+                value={form.background.color}
+                onChange={(e) => updateForm({ background: { type: 'color', color: e.target.value } })}
+              />
+            </label>
+          )}
+          {(form.background?.type === 'image' || form.background?.type === 'video') && (
+            <label className="block text-sm">
+              Background {form.background.type}
+              <input
+                type="file"
+                accept={(form.background.type === 'image' ? IMAGE_TYPES : CLIP_TYPES).join(',')}
+                className="block w-full mt-1 text-sm"
+                onChange={(e) => handleBackgroundFileChange(e.target.files?.[0])}
+              />
+              {backgroundError ? (
+                <span className="text-red-500 text-xs">{backgroundError}</span>
+              ) : form.background.url && !backgroundFile ? (
+                <span className="text-gray-500 text-xs">Keeping the current file</span>
+              ) : null}
+            </label>
+          )}
+        </fieldset>
+
+        <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <legend className="text-sm font-semibold mb-2">Captions</legend>
+          <label className="block text-sm">
+            Position
+            <select
+              className={`${inputClass} mt-1`}
+              value={form.captions?.position ?? 'off'}
+              onChange={(e) => e.target.value === 'off'
+                ? updateForm({ captions: null })
+                : updateCaptions({ position: e.target.value as CaptionSettings['position'] })}
+            >
+              <option value="off">Off</option>
+              <option value="bottom">Bottom</option>
+              <option value="top">Top</option>
+            </select>
+          </label>
+          {form.captions && (
+            <>
+              <label className="block text-sm">
+                Font size
+                <select
+                  className={`${inputClass} mt-1`}
+                  value={form.captions.fontSize}
+                  onChange={(e) => updateCaptions({ fontSize: e.target.value as CaptionSettings['fontSize'] })}
+                >
+                  <option value="small">Small</option>
+                  <option value="medium">Medium</option>
+                  <option value="large">Large</option>
+                </select>
+              </label>
+              <label className="block text-sm">
+                Contrast
+                <select
+                  className={`${inputClass} mt-1`}
+                  value={form.captions.contrast}
+                  onChange={(e) => updateCaptions({ contrast: e.target.value as CaptionSettings['contrast'] })}
+                >
+                  <option value="standard">Standard</option>
+                  <option value="high">High</option>
+                </select>
+              </label>
+              <label className="block text-sm">
+                Caption language
+                <input
+                  className={`${inputClass} mt-1`}
+                  value={form.captions.language ?? ''}
+                  onChange={(e) => updateCaptions({ language: e.target.value.trim() || null })}
+                  placeholder={`Avatar's language (${form.language})`}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.captions.showQuestion}
+                  onChange={(e) => updateCaptions({ showQuestion: e.target.checked })}
+                />
+                Show the visitor&apos;s question
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.captions.showRecap}
+                  onChange={(e) => updateCaptions({ showRecap: e.target.checked })}
+                />
+                Show the last answer while idle
+              </label>
+            </>
+          )}
+        </fieldset>
+
+        {error && <div className="p-3 bg-red-100 text-red-700 rounded-lg text-sm">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg flex items-center gap-2 disabled:opacity-60"
+          >
+            {isSaving && <ClipLoader size={16} color="#ffffff" />}
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -7,8 +7,74 @@ import StreamingAvatar, {
   TaskType
 } from "@heygen/streaming-avatar";
 import { OpenAIAssistant } from '../lib/openai-assistant';
+import { MockStreamingAvatar, type StreamingAvatarClient } from '../lib/mock-streaming-avatar';
+import { type BackoffOptions, DEFAULT_BACKOFF_OPTIONS, retryWithBackoff } from '../lib/retry';
+import { SentenceSplitter } from '../lib/sentence-splitter';
+import { SessionTelemetry } from '../lib/session-telemetry';
+import { type RecordingSource, SessionRecorder, isRecordingSupported } from '../lib/session-recorder';
+import { type BusMessage, createPairingCode, useMessageBus } from '../lib/message-bus';
+import {
+  type PhaseEvent,
+  type PhaseMachine,
+  type PhaseMachineHooks,
+  type PhaseState,
+  createPhaseMachine,
+  initialPhaseState
+} from '../lib/avatar-phase-machine';
+import { FALLBACK_RESPONSE, formatForDisplay, formatForSpeech } from '@/lib/openai/response';
+import { isMockBackend } from '@/lib/mock/config';
+import { saveSessionRecording } from '@/lib/supabase/recordings';
+import { createClient } from '@/lib/supabase/client';
+import { registerPairing } from '@/lib/supabase/pairings';
+import {
+  type Conversation,
+  clearMessages,
+  getConversation,
+  getLatestConversation,
+  getOrCreateConversation,
+  type MessageLatency,
+  type MessageUpdate,
+  insertMessage,
+  listMessages,
+  setConversationThread,
+  updateMessage
+} from '@/lib/supabase/conversations';
 import Link from 'next/link';
 import IdleVideoPlayer from './IdleVideoPlayer';
+import CaptionOverlay, { type CaptionLine, type CaptionRecap } from './CaptionOverlay';
+import { type AvatarSettings, type ChromaKeyConfig, DEFAULT_AVATAR_SETTINGS } from '@/lib/supabase/avatar-settings';
+import {
+  type ChromaKeyRenderer,
+  type SampleRegion,
+  createChromaKeyRenderer,
+  deriveChromaKeyConfig,
+  sampleVideoRegion,
+  toVideoCoordinates
+} from '../lib/chroma-key';
+
+const AVATAR_QUALITY: Record<AvatarSettings['quality'], AvatarQuality> = {
+  low: AvatarQuality.Low,
+  medium: AvatarQuality.Medium,
+  high: AvatarQuality.High
+};
+
+// Consoles are brought up to date with the latest part of the conversation only
+const HISTORY_SYNC_LIMIT = 50;
+
+// Moves the saved message along as the avatar answers; the first of done,
+// interrupted or failed is final
+interface ActiveExchange {
+  question: string;
+  markSpeaking: () => void;
+  markDone: () => void;
+  markInterrupted: () => void;
+  markFailed: (reason: string) => void;
+}
+
+// What the chat shows for a failed answer
+function failureReason(error: unknown) {
+  return error instanceof Error && error.message ? error.message : 'The answer could not be completed';
+}
 
 interface AvatarVideoStreamProps {
   avatarName: string;
@@ -16,75 +82,37 @@ interface AvatarVideoStreamProps {
   toLiveVideoUrl: string;
   toIdleVideoUrl: string;
   onClose: () => void;
+  // Persona: assistant, voice, language, quality, timeouts, greeting and chroma key
+  settings?: AvatarSettings;
+  // How hard to try re-creating the HeyGen session after a disconnect
+  reconnect?: Partial<BackoffOptions>;
+  // Viewers only watch; the chat console is for operators
+  showChatLink?: boolean;
+  // Unattended screens: no controls or banners, errors go to onFatalError
+  kiosk?: boolean;
+  // Kept across reloads so paired consoles find the screen again
+  pairingCode?: string;
+  onFatalError?: (message: string) => void;
 }
 
-interface ChatMessage {
-  question: string;
-  response: string;
-  timestamp: string;
-}
-
-// Custom events for communication
-const CHAT_HISTORY_EVENT = 'chatHistoryUpdate';
-const AVATAR_READY_EVENT = 'avatarReady';
-const CHAT_REQUEST_EVENT = 'chatRequest';
-const AVATAR_SPEAKING_STARTED = 'avatarSpeakingStarted';
-const AVATAR_SPEAKING_ENDED = 'avatarSpeakingEnded';
-
-// Chroma keying utility
-function applyChromaKey(
-  sourceVideo: HTMLVideoElement,
-  targetCanvas: HTMLCanvasElement,
-  options: { minHue: number; maxHue: number; minSaturation: number; threshold: number }
-) {
-  const ctx = targetCanvas.getContext('2d', { willReadFrequently: true, alpha: true });
-  if (!ctx || sourceVideo.readyState < 2) return;
-  targetCanvas.width = sourceVideo.videoWidth;
-  targetCanvas.height = sourceVideo.videoHeight;
-  ctx.clearRect(0, 0, targetCanvas.width, targetCanvas.height);
-  ctx.drawImage(sourceVideo, 0, 0, targetCanvas.width, targetCanvas.height);
-  const imageData = ctx.getImageData(0, 0, targetCanvas.width, targetCanvas.height);
-  const data = imageData.data;
-  for (let i = 0; i < data.length; i += 4) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-    // Convert RGB to HSV
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    const delta = max - min;
-    let h = 0;
-    if (delta === 0) h = 0;
-    else if (max === r) h = ((g - b) / delta) % 6;
-    else if (max === g) h = (b - r) / delta + 2;
-    else h = (r - g) / delta + 4;
-    h = Math.round(h * 60);
-    if (h < 0) h += 360;
-    const s = max === 0 ? 0 : delta / max;
-    const v = max / 255;
-    // Chroma key: set green pixels to black
-    const isGreen =
-      h >= options.minHue &&
-      h <= options.maxHue &&
-      s > options.minSaturation &&
-      v > 0.15 &&
-      g > r * options.threshold &&
-      g > b * options.threshold;
-    if (isGreen) {
-      data[i] = 0;     // R
-      data[i + 1] = 0; // G
-      data[i + 2] = 0; // B
-      data[i + 3] = 255; // Opaque black
-    }
-  }
-  ctx.putImageData(imageData, 0, 0);
-}
-
-export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVideoUrl, toIdleVideoUrl, onClose }: AvatarVideoStreamProps) {
+export default function AvatarVideoStream({
+  avatarName,
+  idleVideoUrl,
+  toLiveVideoUrl,
+  toIdleVideoUrl,
+  onClose,
+  settings = DEFAULT_AVATAR_SETTINGS,
+  reconnect,
+  showChatLink = true,
+  kiosk = false,
+  pairingCode: initialPairingCode,
+  onFatalError
+}: AvatarVideoStreamProps) {
+  const reconnectOptions: BackoffOptions = { ...DEFAULT_BACKOFF_OPTIONS, ...reconnect };
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [avatar, setAvatar] = useState<StreamingAvatar | null>(null);
-  const avatarRef = useRef<StreamingAvatar | null>(null);
+  const [avatar, setAvatar] = useState<StreamingAvatarClient | null>(null);
+  const avatarRef = useRef<StreamingAvatarClient | null>(null);
   const [sessionData, setSessionData] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [isClosing, setIsClosing] = useState(false);
@@ -94,68 +122,169 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
   const cleanupRef = useRef<(() => void) | null>(null);
   const sessionInitPromiseRef = useRef<Promise<void> | null>(null);
   const openaiAssistantRef = useRef<OpenAIAssistant | null>(null);
-  const pendingChatRequestsRef = useRef<{ question: string; timestamp: number }[]>([]);
+  const conversationRef = useRef<Conversation | null>(null);
+  // Picked in the chat sidebar; without one, sessions resume the latest conversation
+  const selectedConversationIdRef = useRef<string | null>(null);
+  const pendingChatRequestsRef = useRef<{ requestId: string; question: string; timestamp: number }[]>([]);
+  // Chat requests are handled one at a time, in the order they arrive
+  const chatRequestQueueRef = useRef<Promise<void>>(Promise.resolve());
   const isReadyRef = useRef<boolean>(false);
-  const chromaKeyConfigRef = useRef({ minHue: 103, maxHue: 337, minSaturation: 0.75, threshold: 1.0 });
+  const chromaKeyConfigRef = useRef<ChromaKeyConfig>({ minHue: 103, maxHue: 337, minSaturation: 0.75, threshold: 1.0 });
   const chromaKeyStopRef = useRef<() => void>();
+  const chromaKeyRendererRef = useRef<ChromaKeyRenderer | null>(null);
+  // The raw stream stays visible only if no renderer could be created
+  const [isChromaKeyActive, setIsChromaKeyActive] = useState(false);
+  // Chroma-key tuning tools, switched on from the chat console
+  const [eyedropperActive, setEyedropperActive] = useState(false);
+  const [splitView, setSplitView] = useState(false);
+  const [eyedropperDrag, setEyedropperDrag] = useState<{ startX: number; startY: number; endX: number; endY: number } | null>(null);
   const avatarStreamRef = useRef<MediaStream | null>(null);
   const inactivityTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inactivityCountdownRef = useRef<number>(30);
   const inactivityIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const [phase, setPhase] = useState<'idle' | 'to_live' | 'stream' | 'to_idle'>('idle');
+  const [phaseState, setPhaseState] = useState<PhaseState>(initialPhaseState);
+  const { phase } = phaseState;
   const phaseRef = useRef(phase);
-  const [pendingTransitionToLive, setPendingTransitionToLive] = useState(false);
+  // The machine calls hooks through this ref so it always reaches the latest render's handlers
+  const phaseHooksRef = useRef<PhaseMachineHooks | null>(null);
+  const phaseMachineRef = useRef<PhaseMachine | null>(null);
+  if (!phaseMachineRef.current) {
+    phaseMachineRef.current = createPhaseMachine({
+      startSession: () => phaseHooksRef.current?.startSession(),
+      endSession: () => phaseHooksRef.current?.endSession(),
+      playClip: (clip) => phaseHooksRef.current?.playClip(clip),
+      startInactivityTimer: () => phaseHooksRef.current?.startInactivityTimer(),
+      clearInactivityTimer: () => phaseHooksRef.current?.clearInactivityTimer(),
+      reportError: (message) => phaseHooksRef.current?.reportError(message),
+      close: () => phaseHooksRef.current?.close(),
+      onStateChange: (state, previous) => {
+        console.log(`[AvatarVideoStream][Phase] ${previous.phase} -> ${state.phase}`, state);
+        phaseRef.current = state.phase;
+        setPhaseState(state);
+      }
+    });
+  }
+  const sendPhaseEvent = (event: PhaseEvent) => phaseMachineRef.current!.send(event);
   const toLiveVideoRef = useRef<HTMLVideoElement>(null);
   const toIdleVideoRef = useRef<HTMLVideoElement>(null);
   const idleVideoRef = useRef<HTMLVideoElement>(null);
-  const [pendingResponse, setPendingResponse] = useState<{ question: string; response: string } | null>(null);
+  const speechQueueRef = useRef<{ question: string; text: string }[]>([]);
+  const isDrainingSpeechRef = useRef<boolean>(false);
+  const responseInFlightRef = useRef<boolean>(false);
+  const speakingQuestionRef = useRef<string>('');
+  // Sentences handed to the avatar that it has not finished saying yet
+  const unfinishedSpeechRef = useRef<{ question: string; text: string }[]>([]);
+  const recoveryControllerRef = useRef<AbortController | null>(null);
+  // The exchange the avatar is answering or speaking, until it finishes or is interrupted
+  const activeExchangeRef = useRef<ActiveExchange | null>(null);
+  // Bumped on every interrupt; work started under an older value is dropped
+  const interruptGenerationRef = useRef<number>(0);
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null);
+  // Usage telemetry for the current live session, from startSession to its end
+  const telemetryRef = useRef<SessionTelemetry | null>(null);
+  // Operators on another device join this screen's session with this code,
+  // once the screen has claimed it
+  const [pairingCode, setPairingCode] = useState(() => initialPairingCode ?? createPairingCode());
+  const [pairingRegistered, setPairingRegistered] = useState(false);
+  // When on, every live session is recorded and uploaded once it returns to idle
+  const [recordSessions, setRecordSessions] = useState(false);
+  const [isRecordingSession, setIsRecordingSession] = useState(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Kept apart from conversationRef, which is cleared before the to_idle clip ends
+  const recordingConversationIdRef = useRef<string | null>(null);
+  // Caption layer: the question being answered, the sentence being spoken, and
+  // what was said in answer to the last question for the idle recap
+  const [captionQuestion, setCaptionQuestion] = useState('');
+  const [captionLine, setCaptionLine] = useState<CaptionLine | null>(null);
+  const [captionRecap, setCaptionRecap] = useState<CaptionRecap | null>(null);
+  // Set by each new question; its first spoken sentence starts a fresh recap
+  const recapResetRef = useRef(false);
+
+  const supabase = createClient();
+
+  const postMessage = useMessageBus((message: BusMessage) => {
+    if (message.type === 'chat_request') {
+      console.log("[AvatarVideoStream] Received chat request via message bus");
+      handleChatRequest(message.requestId, message.question);
+    } else if (message.type === 'interrupt') {
+      interruptAvatar();
+    } else if (message.type === 'config_change') {
+      chromaKeyConfigRef.current = message.config;
+    } else if (message.type === 'chroma_tool') {
+      if (message.tool === 'eyedropper') {
+        setEyedropperActive(message.enabled);
+        setEyedropperDrag(null);
+      } else {
+        setSplitView(message.enabled);
+      }
+    } else if (message.type === 'history_request') {
+      // A chat console just joined; bring it up to date
+      postMessage({ type: 'phase_change', phase: phaseRef.current });
+      postMessage({ type: 'config_change', config: chromaKeyConfigRef.current });
+      syncHistory();
+    } else if (message.type === 'history_clear') {
+      clearHistory();
+    } else if (message.type === 'conversation_select') {
+      selectConversation(message.conversationId);
+    }
+  }, { pairingCode: pairingRegistered ? pairingCode : null, avatarId: avatarName });
+
+  useEffect(() => {
+    let cancelled = false;
+    setPairingRegistered(false);
+    registerPairing(supabase, pairingCode)
+      .then((registered) => {
+        if (cancelled) return;
+        if (registered) {
+          setPairingRegistered(true);
+        } else {
+          // Another screen holds this code
+          setPairingCode(createPairingCode());
+        }
+      })
+      .catch((error) => console.error("[AvatarVideoStream] Failed to register pairing code:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pairingCode]);
 
-  useEffect(() => { phaseRef.current = phase; }, [phase]);
+  useEffect(() => {
+    postMessage({ type: 'phase_change', phase });
+    telemetryRef.current?.phase(phase);
+  }, [phase]);
   useEffect(() => { avatarRef.current = avatar; }, [avatar]);
 
   // Helper function to fetch access token
   const fetchAccessToken = async (): Promise<string> => {
-    const apiKey = process.env.NEXT_PUBLIC_HEYGEN_API_KEY;
-    if (!apiKey) {
-      throw new Error('HEYGEN_API_KEY is not set in environment variables');
-    }
-
-    const response = await fetch(
-      "https://api.heygen.com/v1/streaming.create_token",
-      {
-        method: "POST",
-        headers: { 
-          "x-api-key": apiKey,
-          "Content-Type": "application/json"
-        },
-      }
-    );
+    const response = await fetch("/api/heygen/token", { method: "POST" });
 
     if (!response.ok) {
       throw new Error(`Failed to fetch token: ${response.statusText}`);
     }
 
-    const { data } = await response.json();
-    if (!data?.token) {
+    const { token } = await response.json();
+    if (!token) {
       throw new Error('No token received from API');
     }
 
     console.log("Access token received");
-    return data.token;
+    return token;
   };
 
-  // Initialize OpenAI Assistant
+  // Initialize OpenAI Assistant, resuming this avatar's stored conversation thread
   const initializeOpenAI = async () => {
-    const openaiApiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-    const openaiAssistantId = process.env.NEXT_PUBLIC_OPENAI_ASSISTANT_ID;
-    
-    if (!openaiApiKey || !openaiAssistantId) {
-      throw new Error('OpenAI API key or Assistant ID not set in environment variables');
-    }
-
     try {
-      const assistant = new OpenAIAssistant(openaiApiKey, openaiAssistantId);
-      await assistant.initialize();
+      const selected = selectedConversationIdRef.current
+        ? await getConversation(supabase, selectedConversationIdRef.current)
+        : null;
+      const conversation = selected ?? await getOrCreateConversation(supabase, avatarName);
+      const assistant = new OpenAIAssistant(avatarName);
+      const threadId = await assistant.initialize(conversation.thread_id);
+      if (threadId !== conversation.thread_id) {
+        await setConversationThread(supabase, conversation.id, threadId);
+      }
+      conversationRef.current = { ...conversation, thread_id: threadId };
+      recordingConversationIdRef.current = conversation.id;
       openaiAssistantRef.current = assistant;
     } catch (error) {
       console.error('Failed to initialize OpenAI Assistant:', error);
@@ -178,81 +307,458 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
       if (request) {
         console.log("[AvatarVideoStream] Processing pending chat request:", request.question);
         try {
-          const response = await openaiAssistantRef.current?.getResponse(request.question);
-          if (!response) {
-            throw new Error("No response from OpenAI Assistant");
-          }
-          console.log("[AvatarVideoStream] OpenAI Assistant response:", response);
-
-          // Store the response for later use
-          console.log("[AvatarVideoStream] Storing response for later speaking");
-          setPendingResponse({ question: request.question, response });
+          // Sentences are queued and spoken once the stream phase is reached
+          await streamChatResponse(request.requestId, request.question, request.timestamp);
         } catch (error) {
           console.error("[AvatarVideoStream] Failed to process pending request:", error);
+          postMessage({ type: 'chat_failed', requestId: request.requestId, error: failureReason(error) });
+          endFailedAnswer();
           setError("Failed to process pending request");
+          telemetryRef.current?.error("Failed to process pending request");
         }
       }
     }
   };
 
-  // Shared function to update chat history and dispatch event
-  function updateChatHistory(question: string, response: string) {
-    const newMessage: ChatMessage = {
-      question,
-      response,
-      timestamp: new Date().toLocaleString()
-    };
-    const history = localStorage.getItem('avatarChatHistory');
-    const chatHistory = history ? JSON.parse(history) : [];
-    const updatedHistory = [...chatHistory, newMessage];
-    localStorage.setItem('avatarChatHistory', JSON.stringify(updatedHistory));
-    // Dispatch event to notify other windows
-    const event = new CustomEvent(CHAT_HISTORY_EVENT, {
-      detail: updatedHistory,
-      bubbles: true,
-      composed: true
-    });
-    window.dispatchEvent(event);
-  }
+  // Send this avatar's latest messages to the chat consoles: windows of this
+  // browser and consoles paired through the private channel. Paired consoles
+  // may be signed in as someone else, so they get the messages rather than
+  // reading them from Supabase themselves.
+  const currentConversation = async () => {
+    if (conversationRef.current) return conversationRef.current;
+    const selected = selectedConversationIdRef.current
+      ? await getConversation(supabase, selectedConversationIdRef.current)
+      : null;
+    return selected ?? await getLatestConversation(supabase, avatarName);
+  };
 
-  // Make avatar speak the pending response when in stream phase
-  const speakPendingResponse = async () => {
-    console.log("[AvatarVideoStream] Checking if should speak pending response:", { 
-      hasPendingResponse: !!pendingResponse, 
-      hasAvatar: !!avatar, 
-      phase 
-    });
-    if (!pendingResponse || !avatar || phase !== 'stream') {
-      console.log("[AvatarVideoStream] Not ready to speak:", { 
-        pendingResponse: !!pendingResponse, 
-        avatar: !!avatar, 
-        phase 
+  const syncHistory = async () => {
+    try {
+      const conversation = await currentConversation();
+      const messages = conversation ? await listMessages(supabase, conversation.id) : [];
+      postMessage({
+        type: 'history_sync',
+        conversationId: conversation?.id ?? null,
+        messages: messages.slice(-HISTORY_SYNC_LIMIT)
       });
-      return;
+    } catch (error) {
+      console.error("[AvatarVideoStream] Failed to sync chat history:", error);
     }
-    console.log("[AvatarVideoStream] Making avatar speak pending response");
+  };
+
+  const clearHistory = async () => {
     try {
-      const currentAvatar = (window as any).avatar;
-      if (!currentAvatar) {
-        throw new Error("Avatar not available");
+      const conversation = await currentConversation();
+      if (conversation) {
+        await clearMessages(supabase, conversation.id);
+      }
+      await syncHistory();
+    } catch (error) {
+      console.error("[AvatarVideoStream] Failed to clear chat history:", error);
+    }
+  };
+
+  // Continue a conversation picked in the chat sidebar. Only this avatar's
+  // conversations can be held here; during a session the assistant moves to
+  // the picked conversation's thread, or a new one if it has none yet.
+  const selectConversation = async (conversationId: string) => {
+    try {
+      const conversation = await getConversation(supabase, conversationId);
+      if (!conversation || conversation.avatar_id !== avatarName) {
+        console.log("[AvatarVideoStream] Ignoring conversation of another avatar:", conversationId);
+        return;
+      }
+      selectedConversationIdRef.current = conversation.id;
+      if (openaiAssistantRef.current) {
+        const assistant = new OpenAIAssistant(avatarName);
+        const threadId = await assistant.initialize(conversation.thread_id);
+        if (threadId !== conversation.thread_id) {
+          await setConversationThread(supabase, conversation.id, threadId);
+        }
+        conversationRef.current = { ...conversation, thread_id: threadId };
+        recordingConversationIdRef.current = conversation.id;
+        openaiAssistantRef.current = assistant;
+      }
+      await syncHistory();
+    } catch (error) {
+      console.error("[AvatarVideoStream] Failed to switch conversation:", error);
+    }
+  };
+
+  // Store the question in the conversation under the ID the console gave it.
+  // Returns a function that saves the entry's progress as the answer streams.
+  async function startChatHistoryEntry(messageId: string, question: string): Promise<(changes: MessageUpdate) => void> {
+    const conversation = conversationRef.current;
+    if (!conversation) {
+      throw new Error("Conversation not initialized");
+    }
+    await insertMessage(supabase, conversation.id, messageId, question);
+    syncHistory();
+    // Chain the writes so a slow update never lands after a newer one
+    let pendingWrite = Promise.resolve();
+    return (changes: MessageUpdate) => {
+      pendingWrite = pendingWrite
+        .then(() => updateMessage(supabase, messageId, changes))
+        .then(syncHistory)
+        .catch((error) => console.error("[AvatarVideoStream] Failed to save response:", error));
+    };
+  }
+
+  // Speak queued sentences in order; only runs while the live stream is showing
+  const drainSpeechQueue = async () => {
+    if (isDrainingSpeechRef.current || phaseRef.current !== 'stream') return;
+    const currentAvatar = (window as any).avatar;
+    if (!currentAvatar) return;
+    isDrainingSpeechRef.current = true;
+    try {
+      // Stop if the session is replaced mid-queue; recovery drains it again
+      while (speechQueueRef.current.length > 0 && (window as any).avatar === currentAvatar) {
+        const next = speechQueueRef.current.shift()!;
+        speakingQuestionRef.current = next.question;
+        sendPhaseEvent({ type: 'SPEAK_START' });
+        postMessage({ type: 'speaking_started', question: next.question });
+        activeExchangeRef.current?.markSpeaking();
+        telemetryRef.current?.speakingStarted(next.question);
+        unfinishedSpeechRef.current.push(next);
+        await currentAvatar.speak({
+          text: next.text,
+          taskType: TaskType.REPEAT
+        });
       }
-      // Set localStorage for speaking started
-      console.log("[AvatarVideoStream] Setting avatarSpeakingStatus to started");
-      localStorage.setItem('avatarSpeakingStatus', JSON.stringify({ status: 'started', question: pendingResponse.question }));
-      // Update chat history here
-      updateChatHistory(pendingResponse.question, pendingResponse.response);
-      await currentAvatar.speak({
-        text: pendingResponse.response,
-        taskType: TaskType.REPEAT
-      });
-      // Clear pending response after speaking
-      setPendingResponse(null);
     } catch (speakError) {
+      // A dropped stream is handled by recoverSession, which replays the queue
+      if (recoveryControllerRef.current) return;
       console.error("[AvatarVideoStream] Failed to make avatar speak:", speakError);
       setError("Failed to make avatar speak");
-      // Set localStorage for speaking ended (error case)
-      console.log("[AvatarVideoStream] Setting avatarSpeakingStatus to ended (error case)");
-      localStorage.setItem('avatarSpeakingStatus', JSON.stringify({ status: 'ended', question: pendingResponse.question }));
+      telemetryRef.current?.error("Failed to make avatar speak");
+      telemetryRef.current?.speakingEnded();
+      speechQueueRef.current = [];
+      activeExchangeRef.current?.markFailed("Failed to make avatar speak");
+      activeExchangeRef.current = null;
+      console.log("[AvatarVideoStream] Posting speaking_ended (error case)");
+      postMessage({ type: 'speaking_ended', question: speakingQuestionRef.current });
+      sendPhaseEvent({ type: 'SPEAK_END' });
+    } finally {
+      isDrainingSpeechRef.current = false;
+    }
+  };
+
+  const enqueueSpeech = (question: string, text: string) => {
+    if (!text) return;
+    speechQueueRef.current.push({ question, text });
+    drainSpeechQueue();
+  };
+
+  // Stream the assistant's answer and hand each finished sentence to the avatar
+  // receivedAt is when the question arrived; latencies are measured from it
+  const streamChatResponse = async (requestId: string, question: string, receivedAt: number) => {
+    const assistant = openaiAssistantRef.current;
+    if (!assistant) {
+      throw new Error("No response from OpenAI Assistant");
+    }
+    const generation = interruptGenerationRef.current;
+    const isInterrupted = () => generation !== interruptGenerationRef.current;
+    const splitter = new SentenceSplitter();
+    const updateEntry = await startChatHistoryEntry(requestId, question);
+    const latency: MessageLatency = {};
+    const elapsed = () => Date.now() - receivedAt;
+    // The first ending wins: an answer that failed mid-stream may still finish
+    // speaking the sentences it had, without becoming done
+    let finished = false;
+    const finish = (changes: MessageUpdate) => {
+      if (finished) return;
+      finished = true;
+      latency.totalMs = elapsed();
+      updateEntry({ ...changes, latency: { ...latency } });
+    };
+    let rawText = '';
+    let completedText = '';
+    let spokenText = '';
+    // Format everything completed so far for speech and speak only what is new.
+    // The chat keeps the markdown; only the avatar hears the spoken form.
+    const speakCompleted = (sentence: string) => {
+      completedText += sentence;
+      const speakable = formatForSpeech(completedText);
+      if (speakable.length <= spokenText.length) return;
+      let start = spokenText.length;
+      if (!speakable.startsWith(spokenText)) {
+        // A later sentence changed how an earlier one reads; carry on from the
+        // last word both versions share rather than going silent
+        let common = 0;
+        while (common < spokenText.length && speakable[common] === spokenText[common]) common++;
+        start = speakable.lastIndexOf(' ', common) + 1;
+      }
+      enqueueSpeech(question, speakable.slice(start).trim());
+      spokenText = speakable;
+    };
+
+    if (isInterrupted()) {
+      finish({ status: 'interrupted' });
+      return;
+    }
+    activeExchangeRef.current = {
+      question,
+      markSpeaking: () => {
+        if (finished || latency.firstSpeechMs !== undefined) return;
+        latency.firstSpeechMs = elapsed();
+        updateEntry({ status: 'speaking', latency: { ...latency } });
+      },
+      markDone: () => finish({ status: 'done' }),
+      markInterrupted: () => finish({ response: formatForDisplay(rawText), status: 'interrupted' }),
+      markFailed: (reason) => finish({ response: formatForDisplay(rawText), status: 'failed', error: reason })
+    };
+
+    responseInFlightRef.current = true;
+    try {
+      for await (const delta of assistant.streamResponse(question, requestId)) {
+        if (isInterrupted()) break;
+        telemetryRef.current?.responseStarted(question);
+        latency.firstTokenMs ??= elapsed();
+        rawText += delta;
+        postMessage({ type: 'response_chunk', requestId, question, text: formatForDisplay(rawText) });
+        const sentences = splitter.push(delta);
+        sentences.forEach(speakCompleted);
+        // Save once per finished sentence rather than on every delta
+        if (sentences.length > 0 && !finished) {
+          updateEntry({ response: formatForDisplay(rawText), latency: { ...latency } });
+        }
+      }
+      // interruptAvatar has already saved what was said so far
+      if (isInterrupted()) return;
+      speakCompleted(splitter.flush());
+      const response = formatForDisplay(rawText);
+      if (!finished) {
+        updateEntry({ response: response || FALLBACK_RESPONSE, latency: { ...latency } });
+      }
+      if (!response) {
+        enqueueSpeech(question, FALLBACK_RESPONSE);
+      }
+      console.log("[AvatarVideoStream] OpenAI Assistant response:", rawText);
+    } catch (error) {
+      activeExchangeRef.current = null;
+      finish({ response: formatForDisplay(rawText), status: 'failed', error: failureReason(error) });
+      // Leave the thread free for a retry
+      assistant.cancel().catch(() => {});
+      throw error;
+    } finally {
+      responseInFlightRef.current = false;
+    }
+  };
+
+  // A failed answer may never reach the avatar's stop-talking event, which
+  // ends speaking; end it here so the live stream still counts down to idle
+  const endFailedAnswer = () => {
+    if (isDrainingSpeechRef.current || speechQueueRef.current.length > 0 || unfinishedSpeechRef.current.length > 0) {
+      return;
+    }
+    sendPhaseEvent({ type: 'SPEAK_END' });
+  };
+
+  // Questions still waiting for a session will not be answered; their
+  // consoles mark them failed so they can be retried
+  const failPendingRequests = (reason: string) => {
+    for (const request of pendingChatRequestsRef.current) {
+      postMessage({ type: 'chat_failed', requestId: request.requestId, error: reason });
+    }
+    pendingChatRequestsRef.current = [];
+  };
+
+  // Barge-in: stop the avatar mid-sentence, drop queued sentences and questions,
+  // and record the exchange as interrupted. Resolves once the assistant thread
+  // can take the next question.
+  const interruptAvatar = async () => {
+    interruptGenerationRef.current += 1;
+    failPendingRequests("Skipped for a newer question");
+    speechQueueRef.current = [];
+    unfinishedSpeechRef.current = [];
+    const exchange = activeExchangeRef.current;
+    activeExchangeRef.current = null;
+    if (!exchange) return;
+
+    console.log("[AvatarVideoStream] Interrupting answer to:", exchange.question);
+    recorderRef.current?.endCaption();
+    setCaptionLine(null);
+    exchange.markInterrupted();
+    telemetryRef.current?.speakingEnded();
+    postMessage({ type: 'speaking_ended', question: exchange.question });
+    sendPhaseEvent({ type: 'SPEAK_END' });
+    const stops: Promise<unknown>[] = [];
+    if (responseInFlightRef.current && openaiAssistantRef.current) {
+      stops.push(openaiAssistantRef.current.cancel());
+    }
+    if (avatarRef.current) {
+      stops.push(avatarRef.current.interrupt());
+    }
+    try {
+      await Promise.all(stops);
+    } catch (error) {
+      console.error("[AvatarVideoStream] Failed to interrupt avatar:", error);
+    }
+  };
+
+  // Create a HeyGen streaming session and make it the current avatar. Used for
+  // the first connection and for every reconnection attempt.
+  const startStreamingAvatar = async () => {
+    console.log("[AvatarVideoStream] Fetching access token");
+    const token = await fetchAccessToken();
+    console.log("[AvatarVideoStream] Access token received");
+    
+    console.log("[AvatarVideoStream] Creating new avatar instance");
+    const newAvatar: StreamingAvatarClient = isMockBackend()
+      ? new MockStreamingAvatar({ token })
+      : new StreamingAvatar({ token });
+
+    // Set up event listeners
+    const handleStreamReady = (event: any) => {
+      console.log("[AvatarVideoStream] Stream ready event received");
+      if (event.detail) {
+        avatarStreamRef.current = event.detail;
+        recorderRef.current?.setAudioStream(event.detail);
+        sendPhaseEvent({ type: 'STREAM_READY' });
+        // If videoRef is available (video is rendered), attach stream
+        if (videoRef.current) {
+          videoRef.current.srcObject = event.detail;
+          videoRef.current.onloadedmetadata = () => {
+            console.log("[AvatarVideoStream] Video metadata loaded");
+            videoRef.current?.play().catch(console.error);
+          };
+        }
+      } else {
+        console.warn("[AvatarVideoStream] Stream is not available yet, will retry on next event.");
+      }
+    };
+
+    const handleStreamDisconnected = () => {
+      console.log("[AvatarVideoStream] Stream disconnected");
+      telemetryRef.current?.disconnect();
+      if (videoRef.current) {
+        videoRef.current.srcObject = null;
+      }
+      recoverSession();
+    };
+
+    // The sentence being spoken is the oldest unfinished one; it becomes a caption
+    const handleStartTalking = () => {
+      const sentence = unfinishedSpeechRef.current[0];
+      if (!sentence) return;
+      recorderRef.current?.caption('Avatar', sentence.text);
+      setCaptionLine({ text: sentence.text, startedAt: Date.now(), done: false });
+    };
+
+    const handleStopTalking = (event: any) => {
+      console.log('[Heygen] AVATAR_STOP_TALKING event received:', event);
+      recorderRef.current?.endCaption();
+      setCaptionLine(line => line && { ...line, done: true });
+      const spoken = unfinishedSpeechRef.current[0];
+      // The greeting has no question and does not replace the recap
+      if (spoken?.question) {
+        const reset = recapResetRef.current;
+        recapResetRef.current = false;
+        setCaptionRecap(recap => !reset && recap
+          ? { ...recap, answer: `${recap.answer} ${spoken.text}` }
+          : { question: spoken.question, answer: spoken.text });
+      }
+      unfinishedSpeechRef.current.shift();
+      // More sentences are still on their way; the avatar has only paused
+      if (speechQueueRef.current.length > 0 || isDrainingSpeechRef.current || responseInFlightRef.current) {
+        return;
+      }
+      activeExchangeRef.current?.markDone();
+      activeExchangeRef.current = null;
+      telemetryRef.current?.speakingEnded();
+      postMessage({ type: 'speaking_ended', question: speakingQuestionRef.current });
+      sendPhaseEvent({ type: 'SPEAK_END' });
+    };
+
+    newAvatar.on(StreamingEvents.STREAM_READY, handleStreamReady);
+    newAvatar.on(StreamingEvents.STREAM_DISCONNECTED, handleStreamDisconnected);
+    newAvatar.on(StreamingEvents.AVATAR_START_TALKING, handleStartTalking);
+    newAvatar.on(StreamingEvents.AVATAR_STOP_TALKING, handleStopTalking);
+    
+    const removeListeners = () => {
+      newAvatar.off(StreamingEvents.STREAM_READY, handleStreamReady);
+      newAvatar.off(StreamingEvents.STREAM_DISCONNECTED, handleStreamDisconnected);
+      newAvatar.off(StreamingEvents.AVATAR_START_TALKING, handleStartTalking);
+      newAvatar.off(StreamingEvents.AVATAR_STOP_TALKING, handleStopTalking);
+    };
+
+    console.log("[AvatarVideoStream] Creating avatar session");
+    let newSessionData;
+    try {
+      newSessionData = await newAvatar.createStartAvatar({
+        quality: AVATAR_QUALITY[settings.quality],
+        avatarName,
+        voice: settings.voiceId ? { voiceId: settings.voiceId, rate: settings.voiceRate } : { rate: settings.voiceRate },
+        language: settings.language
+      });
+    } catch (error) {
+      removeListeners();
+      throw error;
+    }
+
+    console.log("[AvatarVideoStream] Session data received:", newSessionData);
+    
+    // Store cleanup function
+    cleanupRef.current = () => {
+      console.log("[AvatarVideoStream] Running cleanup");
+      removeListeners();
+      if (videoRef.current) {
+        videoRef.current.srcObject = null;
+      }
+    };
+
+    // Store avatar instance globally
+    console.log("[AvatarVideoStream] Storing avatar instance globally");
+    (window as any).avatar = newAvatar;
+
+    // Set the avatar state
+    avatarRef.current = newAvatar;
+    setAvatar(newAvatar);
+    setSessionData(newSessionData);
+  };
+
+  // Rebuild the HeyGen session after an unexpected disconnect. The OpenAI
+  // thread and conversation are kept, and anything the avatar had not finished
+  // saying is spoken again. If every attempt fails the screen returns to idle.
+  const recoverSession = async () => {
+    if (recoveryControllerRef.current || phaseRef.current === 'idle' || phaseRef.current === 'to_idle') return;
+    const controller = new AbortController();
+    recoveryControllerRef.current = controller;
+    isReadyRef.current = false;
+    sendPhaseEvent({ type: 'STREAM_LOST' });
+    speechQueueRef.current = [...unfinishedSpeechRef.current, ...speechQueueRef.current];
+    unfinishedSpeechRef.current = [];
+
+    // Drop the dead session without touching the conversation
+    cleanupRef.current?.();
+    cleanupRef.current = null;
+    avatarRef.current?.stopAvatar().catch(() => {});
+    avatarRef.current = null;
+    setAvatar(null);
+    delete (window as any).avatar;
+
+    try {
+      await retryWithBackoff(async (attempt) => {
+        console.log(`[AvatarVideoStream] Reconnecting, attempt ${attempt} of ${reconnectOptions.maxAttempts}`);
+        setReconnectAttempt(attempt);
+        await startStreamingAvatar();
+      }, reconnectOptions, controller.signal);
+      console.log("[AvatarVideoStream] Session recovered");
+      isReadyRef.current = true;
+      setError(null);
+      chatRequestQueueRef.current = chatRequestQueueRef.current.then(processPendingChatRequests);
+      drainSpeechQueue();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("[AvatarVideoStream] Failed to recover session:", error);
+      speechQueueRef.current = [];
+      activeExchangeRef.current?.markFailed("The avatar stream was lost");
+      activeExchangeRef.current = null;
+      failPendingRequests("The avatar stream was lost");
+      sendPhaseEvent({ type: 'ERROR', message: 'Stream disconnected' });
+    } finally {
+      recoveryControllerRef.current = null;
+      setReconnectAttempt(null);
     }
   };
 
@@ -279,111 +785,28 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
         console.log("[AvatarVideoStream] OpenAI Assistant initialized");
         
         // Then initialize avatar
-        console.log("[AvatarVideoStream] Fetching access token");
-        const token = await fetchAccessToken();
-        console.log("[AvatarVideoStream] Access token received");
-        
-        console.log("[AvatarVideoStream] Creating new avatar instance");
-        const newAvatar = new StreamingAvatar({ token });
-
-        // Set up event listeners
-        const handleStreamReady = (event: any) => {
-          console.log("[AvatarVideoStream] Stream ready event received");
-          if (event.detail) {
-            avatarStreamRef.current = event.detail;
-            // If videoRef is available (video is rendered), attach stream
-            if (videoRef.current) {
-              videoRef.current.srcObject = event.detail;
-              videoRef.current.onloadedmetadata = () => {
-                console.log("[AvatarVideoStream] Video metadata loaded");
-                videoRef.current?.play().catch(console.error);
-              };
-            }
-          } else {
-            console.warn("[AvatarVideoStream] Stream is not available yet, will retry on next event.");
-          }
-        };
-
-        const handleStreamDisconnected = () => {
-          console.log("[AvatarVideoStream] Stream disconnected");
-          if (videoRef.current) {
-            videoRef.current.srcObject = null;
-          }
-          if (!isClosing) {
-            setError("Stream disconnected");
-          }
-        };
-
-        newAvatar.on(StreamingEvents.STREAM_READY, handleStreamReady);
-        newAvatar.on(StreamingEvents.STREAM_DISCONNECTED, handleStreamDisconnected);
-        newAvatar.on(StreamingEvents.AVATAR_STOP_TALKING, (event) => {
-          console.log('[Heygen] AVATAR_STOP_TALKING event received:', event);
-          // Set avatarSpeakingStatus to ended for the current question
-          const lastQuestion = (window as any).currentChatQuestion || '';
-          localStorage.setItem('avatarSpeakingStatus', JSON.stringify({ status: 'ended', question: lastQuestion }));
-
-          // Only start inactivity timer if in 'stream' phase (live state)
-          if (phaseRef.current === 'stream') {
-            clearInactivityTimers();
-            inactivityCountdownRef.current = 20;
-            console.log('[InactivityTimer][LOCAL] Started: 20 seconds');
-            inactivityIntervalRef.current = setInterval(() => {
-              inactivityCountdownRef.current -= 1;
-              console.log(`[InactivityTimer][LOCAL] Countdown: ${inactivityCountdownRef.current}s`);
-            }, 1000);
-            inactivityTimeoutRef.current = setTimeout(() => {
-              console.log('[InactivityTimer][LOCAL] Timer expired, transitioning to idle phase');
-              clearInactivityTimers();
-              transitionToIdlePhase();
-            }, 20000);
-          } else {
-            console.log('[InactivityTimer][LOCAL] Not starting timer: phase is', phaseRef.current);
-          }
-        });
-        
-        console.log("[AvatarVideoStream] Creating avatar session");
-        const newSessionData = await newAvatar.createStartAvatar({
-          quality: AvatarQuality.High,
-          avatarName
-        });
-
-        console.log("[AvatarVideoStream] Session data received:", newSessionData);
-        
-        // Store cleanup function
-        cleanupRef.current = () => {
-          console.log("[AvatarVideoStream] Running cleanup");
-          newAvatar.off(StreamingEvents.STREAM_READY, handleStreamReady);
-          newAvatar.off(StreamingEvents.STREAM_DISCONNECTED, handleStreamDisconnected);
-          if (videoRef.current) {
-            videoRef.current.srcObject = null;
-          }
-        };
-
-        // Store avatar instance globally and dispatch event
-        console.log("[AvatarVideoStream] Storing avatar instance globally");
-        (window as any).avatar = newAvatar;
-        window.dispatchEvent(new CustomEvent(AVATAR_READY_EVENT, {
-          detail: newAvatar,
-          bubbles: true,
-          composed: true
-        }));
-        console.log("[AvatarVideoStream] Avatar ready event dispatched");
-
-        // Set the avatar state
-        setAvatar(newAvatar);
-        setSessionData(newSessionData);
+        await startStreamingAvatar();
         initializationRef.current = true;
 
+        // The greeting goes ahead of whatever question woke the avatar up
+        if (settings.greeting) {
+          speechQueueRef.current.push({ question: '', text: settings.greeting });
+        }
+
         // Set ready state immediately since we have the avatar instance
         isReadyRef.current = true;
         console.log("[AvatarVideoStream] Components ready for processing requests");
         
-        // Process any pending chat requests
+        // Process any pending chat requests, ahead of anything that arrives from now on
         console.log("[AvatarVideoStream] Processing pending chat requests");
-        await processPendingChatRequests();
+        chatRequestQueueRef.current = chatRequestQueueRef.current.then(processPendingChatRequests);
+        await chatRequestQueueRef.current;
       } catch (error) {
         console.error('[AvatarVideoStream] Failed to initialize avatar session:', error);
-        setError(error instanceof Error ? error.message : 'Failed to initialize avatar session');
+        sendPhaseEvent({
+          type: 'ERROR',
+          message: error instanceof Error ? error.message : 'Failed to initialize avatar session'
+        });
         initializationRef.current = false;
         isReadyRef.current = false;
       } finally {
@@ -399,6 +822,7 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
     console.log('[Cleanup][DEBUG] cleanupAvatarSession called. avatar:', !!avatarRef.current, 'sessionData:', !!sessionData);
     try {
       setIsClosing(true);
+      recoveryControllerRef.current?.abort();
       if (cleanupRef.current) {
         console.log('[Cleanup][DEBUG] Running cleanup before stopAvatar');
         cleanupRef.current();
@@ -415,6 +839,12 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
       isReadyRef.current = false;
       sessionInitPromiseRef.current = null;
       openaiAssistantRef.current = null;
+      conversationRef.current = null;
+      speechQueueRef.current = [];
+      unfinishedSpeechRef.current = [];
+      // Closing the session cuts short whatever was still being answered
+      activeExchangeRef.current?.markInterrupted();
+      activeExchangeRef.current = null;
       if (videoRef.current) {
         videoRef.current.srcObject = null;
         console.log('[Cleanup][DEBUG] Cleared videoRef srcObject');
@@ -429,41 +859,105 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
   };
 
   // End the avatar session and close modal
-  const terminateAvatarSession = async () => {
-    await cleanupAvatarSession();
-    onClose();
+  const terminateAvatarSession = () => {
+    sendPhaseEvent({ type: 'CLOSE' });
   };
 
   // Chroma key processing loop
   const startChromaKey = () => {
     if (!videoRef.current || !canvasRef.current) return;
+    const renderer = createChromaKeyRenderer(canvasRef.current);
+    if (!renderer) {
+      console.warn("[AvatarVideoStream] Chroma key unavailable, showing the raw stream");
+      return;
+    }
+    console.log(`[AvatarVideoStream] Chroma key using ${renderer.kind} renderer`);
+    renderer.setBackground(settings.background);
+    chromaKeyRendererRef.current = renderer;
+    setIsChromaKeyActive(true);
     let stopped = false;
     function render() {
       if (stopped) return;
-      applyChromaKey(videoRef.current!, canvasRef.current!, chromaKeyConfigRef.current);
+      renderer!.render(videoRef.current!, chromaKeyConfigRef.current);
       requestAnimationFrame(render);
     }
     render();
-    chromaKeyStopRef.current = () => { stopped = true; };
+    chromaKeyStopRef.current = () => {
+      stopped = true;
+      renderer.dispose();
+      chromaKeyRendererRef.current = null;
+    };
   };
 
-  // Listen for chroma key config changes
   useEffect(() => {
-    function updateConfigFromStorage() {
-      const stored = localStorage.getItem('chromaKeyConfig');
-      if (stored) {
-        chromaKeyConfigRef.current = JSON.parse(stored);
-      }
+    chromaKeyRendererRef.current?.setBackground(settings.background);
+  }, [settings.background]);
+
+  // --- Eyedropper ---
+  const closeEyedropper = () => {
+    setEyedropperActive(false);
+    setEyedropperDrag(null);
+    postMessage({ type: 'chroma_tool', tool: 'eyedropper', enabled: false });
+  };
+
+  // Keys out everything in the clicked spot or dragged rectangle and sends
+  // the resulting config back to the console's panel
+  const applyEyedropperSample = (drag: { startX: number; startY: number; endX: number; endY: number }) => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const start = toVideoCoordinates(video, drag.startX, drag.startY);
+    const end = toVideoCoordinates(video, drag.endX, drag.endY);
+    let region: SampleRegion = {
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y)
+    };
+    // A plain click samples a small square around the cursor
+    if (region.width < 3 && region.height < 3) {
+      region = {
+        x: Math.max(0, start.x - 4),
+        y: Math.max(0, start.y - 4),
+        width: Math.min(9, video.videoWidth - Math.max(0, start.x - 4)),
+        height: Math.min(9, video.videoHeight - Math.max(0, start.y - 4))
+      };
     }
-    updateConfigFromStorage();
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === 'chromaKeyConfig') {
-        updateConfigFromStorage();
-      }
+    const config = deriveChromaKeyConfig(sampleVideoRegion(video, region), chromaKeyConfigRef.current);
+    console.log('[AvatarVideoStream] Eyedropper sampled config:', config);
+    chromaKeyConfigRef.current = config;
+    postMessage({ type: 'config_change', config });
+  };
+
+  const handleEyedropperMouseDown = (event: React.MouseEvent) => {
+    setEyedropperDrag({ startX: event.clientX, startY: event.clientY, endX: event.clientX, endY: event.clientY });
+  };
+
+  const handleEyedropperMouseMove = (event: React.MouseEvent) => {
+    setEyedropperDrag(prev => prev && { ...prev, endX: event.clientX, endY: event.clientY });
+  };
+
+  const handleEyedropperMouseUp = (event: React.MouseEvent) => {
+    if (!eyedropperDrag) return;
+    applyEyedropperSample({ ...eyedropperDrag, endX: event.clientX, endY: event.clientY });
+    closeEyedropper();
+  };
+
+  useEffect(() => {
+    if (!eyedropperActive) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeEyedropper();
     };
-    window.addEventListener('storage', onStorage);
-    return () => window.removeEventListener('storage', onStorage);
-  }, []);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [eyedropperActive]);
+
+  // Start from the avatar's own chroma key preset; later changes arrive over
+  // the message bus
+  useEffect(() => {
+    if (settings.chromaKey) {
+      chromaKeyConfigRef.current = settings.chromaKey;
+    }
+  }, [settings.chromaKey]);
 
   // Start chroma keying when video is ready
   useEffect(() => {
@@ -489,24 +983,9 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
 
   useEffect(() => {
     console.log("[AvatarVideoStream] Component mounted");
-    // Listen for chat requests via storage events
-    console.log("[AvatarVideoStream] Setting up storage event listener");
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'currentChatRequest' && e.newValue) {
-        console.log("[AvatarVideoStream] Received chat request via storage");
-        try {
-          const chatRequest = JSON.parse(e.newValue);
-          handleChatRequest(new CustomEvent(CHAT_REQUEST_EVENT, {
-            detail: { question: chatRequest.question }
-          }));
-        } catch (error) {
-          console.error("[AvatarVideoStream] Failed to parse chat request:", error);
-        }
-      }
-    };
-    window.addEventListener('storage', handleStorageChange);
     return () => {
       console.log("[AvatarVideoStream] Component unmounting");
+      finishRecording();
       if (cleanupRef.current) {
         cleanupRef.current();
       }
@@ -518,109 +997,136 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
       sessionInitPromiseRef.current = null;
       openaiAssistantRef.current = null;
       delete (window as any).avatar;
-      window.removeEventListener('storage', handleStorageChange);
     };
   }, []);
 
   // Handle chat request
-  const handleChatRequest = async (event: Event) => {
-    console.log("[AvatarVideoStream] Received chat request event");
-    const customEvent = event as CustomEvent;
-    const { question } = customEvent.detail;
+  const handleChatRequest = (requestId: string, question: string) => {
     console.log("[AvatarVideoStream] Question received:", question);
-    handleChatInput();
+    // A new question barges in on the answer still being given
+    if (activeExchangeRef.current) {
+      const interruption = interruptAvatar();
+      chatRequestQueueRef.current = chatRequestQueueRef.current.then(() => interruption);
+    }
+    sendPhaseEvent({ type: 'USER_INPUT' });
+    telemetryRef.current?.question(question);
+    recorderRef.current?.captionQuestion(question);
+    setCaptionQuestion(question);
+    setCaptionLine(null);
+    recapResetRef.current = true;
     if (!isReadyRef.current) {
       console.log("[AvatarVideoStream] Components not ready, queueing request");
       pendingChatRequestsRef.current.push({
+        requestId,
         question,
         timestamp: Date.now()
       });
       return;
     }
-    try {
-      console.log("[AvatarVideoStream] Processing question through OpenAI Assistant");
-      const response = await openaiAssistantRef.current?.getResponse(question);
-      if (!response) {
-        throw new Error("No response from OpenAI Assistant");
+    const generation = interruptGenerationRef.current;
+    const receivedAt = Date.now();
+    chatRequestQueueRef.current = chatRequestQueueRef.current.then(async () => {
+      // Dropped by an interrupt while waiting its turn
+      if (generation !== interruptGenerationRef.current) {
+        postMessage({ type: 'chat_failed', requestId, error: 'Skipped for a newer question' });
+        return;
       }
-      console.log("[AvatarVideoStream] OpenAI Assistant response:", response);
-      // Make avatar speak
-      console.log("[AvatarVideoStream] Making avatar speak response");
       try {
-        const currentAvatar = (window as any).avatar;
-        if (!currentAvatar) {
-          throw new Error("Avatar not available");
-        }
-        // Set localStorage for speaking started
-        console.log("[AvatarVideoStream] Setting avatarSpeakingStatus to started");
-        localStorage.setItem('avatarSpeakingStatus', JSON.stringify({ status: 'started', question }));
-        // Update chat history here
-        updateChatHistory(question, response);
-        await currentAvatar.speak({
-          text: response,
-          taskType: TaskType.REPEAT
-        });
-        // Set localStorage for speaking ended
-        console.log("[AvatarVideoStream] Setting avatarSpeakingStatus to ended");
-        localStorage.setItem('avatarSpeakingStatus', JSON.stringify({ status: 'ended', question }));
-        console.log("[AvatarVideoStream] Avatar finished speaking");
-      } catch (speakError) {
-        console.error("[AvatarVideoStream] Failed to make avatar speak:", speakError);
-        setError("Failed to make avatar speak");
-        // Set localStorage for speaking ended (error case)
-        console.log("[AvatarVideoStream] Setting avatarSpeakingStatus to ended (error case)");
-        localStorage.setItem('avatarSpeakingStatus', JSON.stringify({ status: 'ended', question }));
+        console.log("[AvatarVideoStream] Streaming question through OpenAI Assistant");
+        await streamChatResponse(requestId, question, receivedAt);
+      } catch (error) {
+        console.error('[AvatarVideoStream] Failed to process chat request:', error);
+        postMessage({ type: 'chat_failed', requestId, error: failureReason(error) });
+        endFailedAnswer();
+        setError('Failed to process chat request');
+        telemetryRef.current?.error('Failed to process chat request');
       }
-    } catch (error) {
-      console.error('[AvatarVideoStream] Failed to process chat request:', error);
-      setError('Failed to process chat request');
+    });
+  };
+
+  // --- Session recording ---
+  // Whatever the screen is showing right now
+  const recordingSource = (): RecordingSource | null => {
+    switch (phaseRef.current) {
+      case 'idle':
+        return idleVideoRef.current;
+      case 'to_live':
+        return toLiveVideoRef.current;
+      case 'to_idle':
+        return toIdleVideoRef.current;
+      case 'stream':
+        return chromaKeyRendererRef.current?.canvas ?? videoRef.current;
     }
   };
 
-  // Handler: when chat input is received, set pendingTransitionToLive
-  function handleChatInput() {
-    console.log('[AvatarVideoStream][DEBUG] handleChatInput called. phase:', phase, 'pendingTransitionToLive:', pendingTransitionToLive);
-    // Stop/reset inactivity timer on user input
-    clearInactivityTimers();
-    if (phase === 'idle') {
-      setPendingTransitionToLive(true);
-      // Start avatar session creation in background immediately
-      console.log('[AvatarVideoStream][DEBUG] Starting avatar session creation immediately on user input');
-      initializeAvatarSession();
-      // Do NOT pause or end the idle video here; let it finish its loop
+  const startRecording = () => {
+    if (recorderRef.current) return;
+    if (!isRecordingSupported()) {
+      setError('Recording is not supported in this browser');
+      return;
     }
-  }
+    try {
+      const recorder = new SessionRecorder(recordingSource);
+      recorder.setAudioStream(avatarStreamRef.current);
+      recorderRef.current = recorder;
+      recordingConversationIdRef.current = conversationRef.current?.id ?? null;
+      setIsRecordingSession(true);
+    } catch (recordError) {
+      console.error('[AvatarVideoStream] Failed to start recording:', recordError);
+      setError('Failed to start recording');
+    }
+  };
 
-  // Handler: when idle video ends, check if we should transition
-  function handleIdleVideoEnd() {
-    console.log('[AvatarVideoStream][DEBUG] handleIdleVideoEnd called. phase:', phase, 'pendingTransitionToLive:', pendingTransitionToLive);
-    if (phase === 'idle' && pendingTransitionToLive) {
-      console.log('[AvatarVideoStream][DEBUG] Transitioning to to_live phase');
-      setPhase('to_live');
-      setPendingTransitionToLive(false);
-      // Play to_live video
-      if (toLiveVideoRef.current) {
-        console.log('[AvatarVideoStream][DEBUG] Playing to_live video');
-        toLiveVideoRef.current.currentTime = 0;
-        toLiveVideoRef.current.play().catch(error => {
-          console.error('[AvatarVideoStream][DEBUG] Error playing to_live video:', error);
-        });
-      } else {
-        console.error('[AvatarVideoStream][DEBUG] to_live video ref is not available');
+  // Stops the current recording, if any, and uploads it with its captions
+  const finishRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecordingSession(false);
+    const conversationId = recordingConversationIdRef.current;
+    try {
+      const recording = await recorder.stop();
+      if (!conversationId) {
+        console.warn('[AvatarVideoStream] Recording has no conversation, not saving it');
+        return;
       }
+      console.log(`[AvatarVideoStream] Uploading ${recording.video.size} byte recording`);
+      await saveSessionRecording(supabase, { conversationId, avatarId: avatarName, ...recording });
+      postMessage({ type: 'recording_saved', conversationId });
+    } catch (saveError) {
+      console.error('[AvatarVideoStream] Failed to save recording:', saveError);
+      setError('Failed to save recording');
+    }
+  };
+
+  useEffect(() => {
+    setRecordSessions(localStorage.getItem('recordSessions') === 'true');
+  }, []);
+
+  const toggleRecordSessions = () => {
+    const enabled = !recordSessions;
+    localStorage.setItem('recordSessions', String(enabled));
+    setRecordSessions(enabled);
+  };
+
+  // A recording covers one trip out of idle: to_live, the stream and to_idle
+  useEffect(() => {
+    if (recordSessions && phase !== 'idle') {
+      startRecording();
     } else {
-      // If we're in idle phase but not pending transition, just loop the idle video
-      if (phase === 'idle' && idleVideoRef.current) {
-        console.log('[AvatarVideoStream][DEBUG] Looping idle video');
-        idleVideoRef.current.currentTime = 0;
-        idleVideoRef.current.play().catch(() => {});
-      }
+      finishRecording();
     }
+  }, [phase, recordSessions]);
+
+  // Clip ends drive the idle -> to_live -> stream and to_idle -> idle transitions
+  function handleIdleVideoEnd() {
+    sendPhaseEvent({ type: 'CLIP_ENDED', clip: 'idle' });
   }
 
   const handleIdleVideoError = (error: string) => {
     setError(error);
     setShowIdleVideo(false);
+    onFatalError?.(error);
   };
 
   // Preload to_live and to_idle videos
@@ -635,10 +1141,8 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
     }
   }, [toLiveVideoUrl, toIdleVideoUrl]);
 
-  // Handler: when to_live video ends, transition to 'stream' phase
   function handleToLiveVideoEnd() {
-    console.log('[AvatarVideoStream][DEBUG] to_live video ended, transitioning to stream phase');
-    setPhase('stream');
+    sendPhaseEvent({ type: 'CLIP_ENDED', clip: 'to_live' });
   }
 
   // Attach stream to video when avatar stream video is present and phase is 'stream'
@@ -662,10 +1166,10 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
   useEffect(() => {
     console.log('[AvatarVideoStream][DEBUG] useEffect phase:', phase);
     if (phase === 'stream') {
-      console.log('[AvatarVideoStream][DEBUG] In stream phase, making avatar speak pending response');
+      console.log('[AvatarVideoStream][DEBUG] In stream phase, speaking queued sentences');
       // Add a small delay to ensure stream is ready
       setTimeout(() => {
-        speakPendingResponse();
+        drainSpeechQueue();
       }, 1000);
     }
   }, [phase]);
@@ -682,93 +1186,140 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
     }
   }
 
-  // Transition to idle phase (play to_idle_video, then idle_video)
-  async function transitionToIdlePhase() {
-    console.log('[LiveToIdle][DEBUG] transitionToIdlePhase called');
-    await cleanupAvatarSession();
-    setPhase('to_idle');
-    // Play to_idle_video
-    if (toIdleVideoRef.current) {
-      toIdleVideoRef.current.currentTime = 0;
-      toIdleVideoRef.current.play().catch(() => {});
-      console.log('[LiveToIdle][DEBUG] Playing to_idle_video');
-    }
+  function startInactivityTimers() {
+    clearInactivityTimers();
+    const timeoutSeconds = settings.inactivityTimeoutSeconds;
+    inactivityCountdownRef.current = timeoutSeconds;
+    console.log(`[InactivityTimer] Started: ${timeoutSeconds} seconds`);
+    inactivityIntervalRef.current = setInterval(() => {
+      inactivityCountdownRef.current -= 1;
+      console.log(`[InactivityTimer] Countdown: ${inactivityCountdownRef.current}s`);
+    }, 1000);
+    inactivityTimeoutRef.current = setTimeout(() => {
+      // The stream may start counting before the answer's first sentence
+      if (responseInFlightRef.current) {
+        startInactivityTimers();
+        return;
+      }
+      console.log('[InactivityTimer] Timer expired');
+      clearInactivityTimers();
+      sendPhaseEvent({ type: 'INACTIVITY_TIMEOUT' });
+    }, timeoutSeconds * 1000);
   }
 
-  // Handler: when to_idle video ends, transition to idle phase
   function handleToIdleVideoEnd() {
-    console.log('[LiveToIdle][DEBUG] to_idle_video ended, transitioning to idle phase');
-    setPhase('idle');
-    setPendingTransitionToLive(false); // Reset pending transition flag
-    if (idleVideoRef.current) {
-      idleVideoRef.current.currentTime = 0;
-      idleVideoRef.current.play().catch(() => {});
-      console.log('[LiveToIdle][DEBUG] Looping idle_video');
-    }
+    sendPhaseEvent({ type: 'CLIP_ENDED', clip: 'to_idle' });
   }
 
-  // Listen for avatar speaking status to start inactivity timer
-  useEffect(() => {
-    function handleStorage(e: StorageEvent) {
-      if (e.key === 'avatarSpeakingStatus' && e.newValue) {
-        try {
-          const { status } = JSON.parse(e.newValue);
-          if (status === 'ended') {
-            // Start inactivity timer (20s)
-            clearInactivityTimers();
-            inactivityCountdownRef.current = 20;
-            console.log('[InactivityTimer] Started: 20 seconds');
-            inactivityIntervalRef.current = setInterval(() => {
-              inactivityCountdownRef.current -= 1;
-              console.log(`[InactivityTimer] Countdown: ${inactivityCountdownRef.current}s`);
-            }, 1000);
-            inactivityTimeoutRef.current = setTimeout(() => {
-              console.log('[InactivityTimer] Timer expired, transitioning to idle phase');
-              clearInactivityTimers();
-              transitionToIdlePhase();
-            }, 20000);
-          } else if (status === 'started') {
-            // Cancel inactivity timer if avatar starts speaking again
-            clearInactivityTimers();
-            console.log('[InactivityTimer] Cancelled (avatar started speaking)');
-          }
-        } catch {}
-      }
+  function playClip(clipRef: React.RefObject<HTMLVideoElement>) {
+    if (!clipRef.current) return;
+    clipRef.current.currentTime = 0;
+    clipRef.current.play().catch((error) => {
+      console.error('[AvatarVideoStream] Error playing transition clip:', error);
+    });
+  }
+
+  phaseHooksRef.current = {
+    startSession: () => {
+      telemetryRef.current = new SessionTelemetry(supabase, avatarName);
+      telemetryRef.current.phase(phaseRef.current);
+      // Do NOT pause or end the idle video here; let it finish its loop
+      initializeAvatarSession();
+    },
+    endSession: () => {
+      // Errors end the session first, so only inactivity gets here on its own
+      telemetryRef.current?.end('inactivity');
+      cleanupAvatarSession();
+    },
+    playClip: (clip) => {
+      playClip(clip === 'idle' ? idleVideoRef : clip === 'to_live' ? toLiveVideoRef : toIdleVideoRef);
+    },
+    startInactivityTimer: startInactivityTimers,
+    clearInactivityTimer: clearInactivityTimers,
+    reportError: (message) => {
+      telemetryRef.current?.error(message);
+      telemetryRef.current?.end('error');
+      setError(message);
+      onFatalError?.(message);
+    },
+    close: async () => {
+      telemetryRef.current?.end('closed');
+      await cleanupAvatarSession();
+      onClose();
     }
-    window.addEventListener('storage', handleStorage);
+  };
+
+  // Clear any running inactivity timer on unmount
+  useEffect(() => {
+    return () => clearInactivityTimers();
+  }, []);
+
+  // Close the telemetry session if the screen goes away without a Close
+  useEffect(() => {
+    const handleUnload = () => telemetryRef.current?.end('unload');
+    window.addEventListener('beforeunload', handleUnload);
     return () => {
-      window.removeEventListener('storage', handleStorage);
-      clearInactivityTimers();
+      window.removeEventListener('beforeunload', handleUnload);
+      handleUnload();
     };
   }, []);
 
   return (
-    <div className="fixed inset-0 bg-black flex flex-col z-50">
+    // data-phase lets the e2e suite follow the phase machine
+    <div className="fixed inset-0 bg-black flex flex-col z-50" data-phase={phase}>
       {/* Top bar with controls */}
-      <div className="absolute top-0 left-0 right-0 z-10 flex justify-between items-center px-6 py-4">
-        <Link 
-          href="/chat-interface" 
-          target="_blank"
-          className="bg-black/60 text-white rounded-lg px-4 py-2 hover:text-blue-400 hover:bg-black/80 transition-colors"
-          onClick={(e) => {
-            if (!e.ctrlKey) {
-              e.preventDefault();
-            }
-          }}
-        >
-          Open Chat Interface
-        </Link>
-        <button
-          onClick={terminateAvatarSession}
-          disabled={isClosing}
-          className={`bg-black/60 text-white rounded-lg px-4 py-2 hover:text-red-400 hover:bg-black/80 transition-colors ${isClosing ? 'opacity-50 cursor-not-allowed' : ''}`}
-        >
-          {isClosing ? 'Closing...' : 'Close'}
-        </button>
-      </div>
+      {!kiosk && (
+        <div className="absolute top-0 left-0 right-0 z-10 flex justify-between items-center px-6 py-4">
+          {showChatLink ? (
+            <Link 
+              href={`/chat-interface?avatarId=${encodeURIComponent(avatarName)}`}
+              target="_blank"
+              className="bg-black/60 text-white rounded-lg px-4 py-2 hover:text-blue-400 hover:bg-black/80 transition-colors"
+              onClick={(e) => {
+                if (!e.ctrlKey) {
+                  e.preventDefault();
+                }
+              }}
+            >
+              Open Chat Interface
+            </Link>
+          ) : (
+            // Keeps the pair code and Close button in place
+            <span />
+          )}
+          <span className="bg-black/60 text-white rounded-lg px-4 py-2 font-mono tracking-widest" title="Enter this code in the chat interface on another device">
+            Pair code: {pairingRegistered ? pairingCode : '…'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={toggleRecordSessions}
+              aria-pressed={recordSessions}
+              title="Record each live session with captions"
+              className="bg-black/60 text-white rounded-lg px-4 py-2 hover:bg-black/80 transition-colors flex items-center gap-2"
+            >
+              <span className={`w-2.5 h-2.5 rounded-full ${isRecordingSession ? 'bg-red-500 animate-pulse' : recordSessions ? 'bg-red-500' : 'bg-gray-400'}`} />
+              {isRecordingSession ? 'Recording' : recordSessions ? 'Record: on' : 'Record: off'}
+            </button>
+            <button
+              onClick={terminateAvatarSession}
+              disabled={isClosing}
+              className={`bg-black/60 text-white rounded-lg px-4 py-2 hover:text-red-400 hover:bg-black/80 transition-colors ${isClosing ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {isClosing ? 'Closing...' : 'Close'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Reconnection status */}
+      {!kiosk && reconnectAttempt !== null && (
+        <div className="absolute top-16 left-1/2 transform -translate-x-1/2 z-10 p-3 bg-yellow-100 text-yellow-800 rounded-lg">
+          Connection lost. Reconnecting (attempt {reconnectAttempt} of {reconnectOptions.maxAttempts})...
+        </div>
+      )}
 
       {/* Error message */}
-      {error && (
+      {!kiosk && error && reconnectAttempt === null && (
         <div className="absolute top-16 left-1/2 transform -translate-x-1/2 z-10 p-3 bg-red-100 text-red-700 rounded-lg">
           {error}
         </div>
@@ -782,7 +1333,7 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
           onVideoEnd={handleIdleVideoEnd}
           onError={handleIdleVideoError}
           style={{ display: phase === 'idle' ? 'block' : 'none' }}
-          loop={!pendingTransitionToLive}
+          loop={!phaseState.pendingLive}
           videoRef={idleVideoRef}
         />
         {/* to_live Video (always present, visible in 'to_live' phase) */}
@@ -792,6 +1343,8 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
           style={{ display: phase === 'to_live' ? 'block' : 'none' }}
           onEnded={handleToLiveVideoEnd}
           playsInline
+          // Storage sends CORS headers; without them the recorder's canvas is tainted
+          crossOrigin="anonymous"
         />
         {/* Avatar Stream Video (always present, visible in 'stream' phase) */}
         <video
@@ -799,19 +1352,63 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
           className="w-full h-full object-cover absolute top-0 left-0"
           autoPlay
           playsInline
-          style={{ display: phase === 'stream' ? 'block' : 'none' }}
+          // Still decoding for the canvas, which shows the keyed result
+          style={{ display: phase === 'stream' ? 'block' : 'none', opacity: isChromaKeyActive && !splitView ? 0 : 1 }}
         />
         <canvas
           ref={canvasRef}
           className="w-full h-full object-cover absolute top-0 left-0 pointer-events-none"
-          style={{ display: phase === 'stream' ? 'block' : 'none' }}
+          // In split view the raw stream shows through on the left half
+          style={{ display: phase === 'stream' ? 'block' : 'none', clipPath: splitView ? 'inset(0 0 0 50%)' : undefined }}
         />
+        {phase === 'stream' && splitView && isChromaKeyActive && (
+          <div className="absolute inset-0 pointer-events-none">
+            <div className="absolute top-0 bottom-0 left-1/2 w-0.5 bg-white/80" />
+            <span className="absolute top-4 left-4 px-2 py-1 rounded bg-black/60 text-white text-sm">Before</span>
+            <span className="absolute top-4 right-4 px-2 py-1 rounded bg-black/60 text-white text-sm">After</span>
+          </div>
+        )}
+        {/* Eyedropper: click or drag over the green screen */}
+        {phase === 'stream' && eyedropperActive && (
+          <div
+            className="absolute inset-0 cursor-crosshair z-10"
+            onMouseDown={handleEyedropperMouseDown}
+            onMouseMove={handleEyedropperMouseMove}
+            onMouseUp={handleEyedropperMouseUp}
+          >
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 px-3 py-2 rounded bg-black/70 text-white text-sm">
+              Click or drag over the background to sample it. Esc to cancel.
+            </div>
+            {eyedropperDrag && (
+              <div
+                className="absolute border-2 border-dashed border-white"
+                style={{
+                  left: Math.min(eyedropperDrag.startX, eyedropperDrag.endX),
+                  top: Math.min(eyedropperDrag.startY, eyedropperDrag.endY),
+                  width: Math.abs(eyedropperDrag.endX - eyedropperDrag.startX),
+                  height: Math.abs(eyedropperDrag.endY - eyedropperDrag.startY)
+                }}
+              />
+            )}
+          </div>
+        )}
         {/* Spinner if avatar stream not ready after to_live video ends */}
         {phase === 'stream' && !isAvatarStreamReady && (
           <div className="w-full h-full flex items-center justify-center bg-black absolute top-0 left-0">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-white"></div>
           </div>
         )}
+        {settings.captions && (
+          <CaptionOverlay
+            settings={settings.captions}
+            avatarLanguage={settings.language}
+            phase={phase}
+            question={captionQuestion}
+            line={captionLine}
+            recap={captionRecap}
+            voiceRate={settings.voiceRate}
+          />
+        )}
         {/* to_idle Video (always present, visible in 'to_idle' phase) */}
         <video
           ref={toIdleVideoRef}
@@ -819,6 +1416,7 @@ export default function AvatarVideoStream({ avatarName, idleVideoUrl, toLiveVide
           style={{ display: phase === 'to_idle' ? 'block' : 'none' }}
           onEnded={handleToIdleVideoEnd}
           playsInline
+          crossOrigin="anonymous"
         />
       </div>
     </div>
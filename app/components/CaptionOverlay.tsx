@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import type { AvatarPhase } from '../lib/message-bus';
+import type { CaptionSettings } from '@/lib/supabase/avatar-settings';
+
+// The sentence the avatar is saying, from its AVATAR_START_TALKING event
+export interface CaptionLine {
+  text: string;
+  startedAt: number;
+  // Set on AVATAR_STOP_TALKING; the whole sentence shows from then on
+  done: boolean;
+}
+
+export interface CaptionRecap {
+  question: string;
+  answer: string;
+}
+
+interface CaptionOverlayProps {
+  settings: CaptionSettings;
+  // The avatar's own language, used when the captions do not set one
+  avatarLanguage: string;
+  phase: AvatarPhase;
+  question: string;
+  line: CaptionLine | null;
+  recap: CaptionRecap | null;
+  voiceRate: number;
+}
+
+// HeyGen speaks roughly 150 words a minute at rate 1
+const MS_PER_WORD = 400;
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+const LABELS: Record<string, { question: string; recap: string }> = {
+  en: { question: 'You asked', recap: 'Last answer' },
+  es: { question: 'Preguntaste', recap: 'Última respuesta' },
+  fr: { question: 'Votre question', recap: 'Dernière réponse' },
+  de: { question: 'Ihre Frage', recap: 'Letzte Antwort' },
+  nl: { question: 'Uw vraag', recap: 'Laatste antwoord' },
+  pt: { question: 'Você perguntou', recap: 'Última resposta' },
+  ar: { question: 'سؤالك', recap: 'آخر إجابة' }
+};
+
+const FONT_SIZES: Record<CaptionSettings['fontSize'], string> = {
+  small: 'text-xl',
+  medium: 'text-3xl',
+  large: 'text-5xl'
+};
+
+// Counts the words of the current line that should be showing by now
+function useVisibleWords(line: CaptionLine | null, msPerWord: number) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!line || line.done) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [line]);
+  if (!line) return 0;
+  const words = line.text.split(/\s+/).filter(Boolean).length;
+  if (line.done) return words;
+  return Math.min(words, Math.floor((now - line.startedAt) / msPerWord) + 1);
+}
+
+// Captions over the live stream and a recap of the last answer while idle.
+// Purely visual; it never takes pointer events from the screen below.
+export default function CaptionOverlay({
+  settings,
+  avatarLanguage,
+  phase,
+  question,
+  line,
+  recap,
+  voiceRate
+}: CaptionOverlayProps) {
+  const visibleWords = useVisibleWords(line, MS_PER_WORD / (voiceRate || 1));
+  const language = settings.language || avatarLanguage || 'en';
+  const baseLanguage = language.split('-')[0].toLowerCase();
+  const labels = LABELS[baseLanguage] ?? LABELS.en;
+  const highContrast = settings.contrast === 'high';
+  const boxClass = highContrast
+    ? 'bg-black text-white font-semibold border-2 border-white'
+    : 'bg-black/60 text-white';
+  const questionClass = highContrast ? 'text-yellow-300' : 'text-gray-300';
+  const positionClass = settings.position === 'top' ? 'top-20' : 'bottom-8';
+
+  let content: React.ReactNode = null;
+  if (phase === 'stream' && (line || (settings.showQuestion && question))) {
+    content = (
+      <>
+        {settings.showQuestion && question && (
+          <p className={`text-[0.6em] mb-2 ${questionClass}`}>
+            {labels.question}: {question}
+          </p>
+        )}
+        {line && <p>{line.text.split(/\s+/).filter(Boolean).slice(0, visibleWords).join(' ')}</p>}
+      </>
+    );
+  } else if (phase === 'idle' && settings.showRecap && recap?.answer) {
+    content = (
+      <>
+        <p className={`text-[0.6em] mb-2 ${questionClass}`}>
+          {labels.recap}{recap.question ? ` · ${recap.question}` : ''}
+        </p>
+        <p className="text-[0.8em] line-clamp-6">{recap.answer}</p>
+      </>
+    );
+  }
+  if (!content) return null;
+
+  return (
+    <div
+      className={`absolute left-0 right-0 ${positionClass} flex justify-center px-8 pointer-events-none`}
+      lang={language}
+      dir={RTL_LANGUAGES.includes(baseLanguage) ? 'rtl' : 'ltr'}
+      aria-live="polite"
+    >
+      <div className={`max-w-5xl rounded-xl px-6 py-4 leading-snug ${FONT_SIZES[settings.fontSize]} ${boxClass}`}>
+        {content}
+      </div>
+    </div>
+  );
+}
@@ -1,37 +1,144 @@
 import React, { useState, useRef, useEffect } from 'react';
+import type { ChromaKeyConfig, ChromaTool } from '../lib/message-bus';
+import { DEFAULT_SOFTNESS, DEFAULT_SPILL } from '../lib/chroma-key';
+import { createClient } from '@/lib/supabase/client';
+import { getAvatarSettings } from '@/lib/supabase/avatar-settings';
+import {
+  type ChromaPreset,
+  deleteChromaPreset,
+  exportChromaPresets,
+  listChromaPresets,
+  parseChromaPresetExport,
+  saveChromaPreset
+} from '@/lib/supabase/chroma-presets';
 
-const DEFAULT_CONFIG = {
+const DEFAULT_CONFIG: ChromaKeyConfig = {
   maxHue: 337,
   minHue: 103,
   minSaturation: 0.75,
   threshold: 1.0,
+  softness: DEFAULT_SOFTNESS,
+  spill: DEFAULT_SPILL,
 };
 
-export default function ChromaKeyPanel() {
+interface ChromaKeyPanelProps {
+  onConfigChange: (config: ChromaKeyConfig) => void;
+  // Avatar whose presets are listed alongside the avatar-independent ones
+  avatarId?: string | null;
+  // The config the avatar screen is using, e.g. after the eyedropper
+  screenConfig?: ChromaKeyConfig | null;
+  eyedropperActive?: boolean;
+  splitView?: boolean;
+  onToolChange?: (tool: ChromaTool, enabled: boolean) => void;
+}
+
+export default function ChromaKeyPanel({
+  onConfigChange,
+  avatarId = null,
+  screenConfig = null,
+  eyedropperActive = false,
+  splitView = false,
+  onToolChange
+}: ChromaKeyPanelProps) {
   const [config, setConfig] = useState(DEFAULT_CONFIG);
   const [showPanel, setShowPanel] = useState(false);
   const hideTimeout = useRef<NodeJS.Timeout | null>(null);
+  const [presets, setPresets] = useState<ChromaPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const supabase = createClient();
 
-  // Only access localStorage on client
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('chromaKeyConfig');
-      if (stored) setConfig(JSON.parse(stored));
+  const loadPresets = async () => {
+    try {
+      setPresets(await listChromaPresets(supabase, avatarId));
+    } catch (error) {
+      console.error('[ChromaKeyPanel] Failed to load presets:', error);
     }
-  }, []);
+  };
+
+  useEffect(() => {
+    loadPresets();
+  }, [avatarId]);
+
+  // Start from the avatar's stored preset, which the avatar screen also uses
+  useEffect(() => {
+    if (!avatarId) return;
+    getAvatarSettings(supabase, avatarId)
+      .then(settings => {
+        if (settings.chromaKey) setConfig({ ...DEFAULT_CONFIG, ...settings.chromaKey });
+      })
+      .catch(error => console.error('[ChromaKeyPanel] Failed to load avatar settings:', error));
+  }, [avatarId]);
+
+  // The avatar screen already applied it; just catch up
+  useEffect(() => {
+    if (screenConfig) setConfig({ ...DEFAULT_CONFIG, ...screenConfig });
+  }, [screenConfig]);
 
-  const handleChange = (key: keyof typeof DEFAULT_CONFIG, value: number) => {
-    const newConfig = { ...config, [key]: value };
+  // Push to the avatar window right away
+  const applyConfig = (newConfig: ChromaKeyConfig) => {
     setConfig(newConfig);
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('chromaKeyConfig', JSON.stringify(newConfig));
-    }
+    onConfigChange(newConfig);
+  };
+
+  const handleChange = (key: keyof ChromaKeyConfig, value: number) => {
+    applyConfig({ ...config, [key]: value });
   };
 
   const handleReset = () => {
-    setConfig(DEFAULT_CONFIG);
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('chromaKeyConfig', JSON.stringify(DEFAULT_CONFIG));
+    applyConfig(DEFAULT_CONFIG);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresetError(null);
+    try {
+      await saveChromaPreset(supabase, { name, avatarId, config });
+      setPresetName('');
+      await loadPresets();
+    } catch (error) {
+      console.error('[ChromaKeyPanel] Failed to save preset:', error);
+      setPresetError('Failed to save preset');
+    }
+  };
+
+  const handleDeletePreset = async (preset: ChromaPreset) => {
+    try {
+      await deleteChromaPreset(supabase, preset.id);
+      await loadPresets();
+    } catch (error) {
+      console.error('[ChromaKeyPanel] Failed to delete preset:', error);
+      setPresetError('Failed to delete preset');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportChromaPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chroma-presets${avatarId ? `-${avatarId}` : ''}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported presets without an avatar of their own are saved for all avatars
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setPresetError(null);
+    try {
+      const imported = parseChromaPresetExport(await file.text());
+      for (const preset of imported) {
+        await saveChromaPreset(supabase, preset);
+      }
+      await loadPresets();
+    } catch (error) {
+      console.error('[ChromaKeyPanel] Failed to import presets:', error);
+      setPresetError(error instanceof Error ? error.message : 'Failed to import presets');
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
     }
   };
 
@@ -57,7 +164,7 @@ export default function ChromaKeyPanel() {
       </button>
       {showPanel && (
         <div
-          className="absolute right-0 bottom-12 w-80 bg-gray-900 text-white rounded-lg shadow-lg p-4 z-50 min-w-[300px]"
+          className="absolute right-0 bottom-12 w-80 max-h-[80vh] overflow-y-auto bg-gray-900 text-white rounded-lg shadow-lg p-4 z-50 min-w-[300px]"
           style={{ minWidth: 300 }}
           onMouseEnter={handleMouseEnter}
           onMouseLeave={handleMouseLeave}
@@ -87,6 +194,76 @@ export default function ChromaKeyPanel() {
             <label className="block text-sm mb-1">Threshold: {config.threshold.toFixed(2)}</label>
             <input type="range" min={0.5} max={2} step={0.01} value={config.threshold} onChange={e => handleChange('threshold', Number(e.target.value))} className="w-full accent-blue-500" />
           </div>
+          <div className="mb-3">
+            <label className="block text-sm mb-1">Edge Softness: {(config.softness ?? DEFAULT_SOFTNESS).toFixed(2)}</label>
+            <input type="range" min={0} max={1} step={0.01} value={config.softness ?? DEFAULT_SOFTNESS} onChange={e => handleChange('softness', Number(e.target.value))} className="w-full accent-blue-500" />
+          </div>
+          <div className="mb-3">
+            <label className="block text-sm mb-1">Spill Suppression: {(config.spill ?? DEFAULT_SPILL).toFixed(2)}</label>
+            <input type="range" min={0} max={1} step={0.01} value={config.spill ?? DEFAULT_SPILL} onChange={e => handleChange('spill', Number(e.target.value))} className="w-full accent-blue-500" />
+          </div>
+
+          {/* Tools run on the avatar screen, where the live video is */}
+          <div className="flex gap-2 mb-4">
+            <button
+              className={`flex-1 text-sm rounded px-2 py-1 border ${eyedropperActive ? 'bg-blue-600 border-blue-600' : 'border-gray-500 hover:bg-gray-800'}`}
+              onClick={() => onToolChange?.('eyedropper', !eyedropperActive)}
+              title="Click or drag over the green screen on the avatar screen"
+            >
+              {eyedropperActive ? 'Picking...' : 'Eyedropper'}
+            </button>
+            <button
+              className={`flex-1 text-sm rounded px-2 py-1 border ${splitView ? 'bg-blue-600 border-blue-600' : 'border-gray-500 hover:bg-gray-800'}`}
+              onClick={() => onToolChange?.('split_view', !splitView)}
+            >
+              Before / After
+            </button>
+          </div>
+
+          <div className="border-t border-gray-700 pt-3">
+            <span className="font-bold">Presets</span>
+            <ul className="my-2 space-y-1">
+              {presets.length === 0 && <li className="text-sm text-gray-400">No presets saved</li>}
+              {presets.map(preset => (
+                <li key={preset.id} className="flex items-center gap-2 text-sm">
+                  <button className="flex-1 text-left hover:text-blue-400 truncate" onClick={() => applyConfig({ ...DEFAULT_CONFIG, ...preset.config })}>
+                    {preset.name}
+                    {!preset.avatar_id && <span className="text-gray-400"> (all avatars)</span>}
+                  </button>
+                  <button className="text-gray-400 hover:text-red-400" onClick={() => handleDeletePreset(preset)} aria-label={`Delete ${preset.name}`}>
+                    &times;
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') handleSavePreset(); }}
+                placeholder="Preset name"
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm outline-none"
+              />
+              <button
+                className="text-sm border border-gray-500 rounded px-2 py-1 hover:bg-gray-800 disabled:opacity-50"
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+              >
+                Save
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <button className="flex-1 text-sm border border-gray-500 rounded px-2 py-1 hover:bg-gray-800 disabled:opacity-50" onClick={handleExport} disabled={presets.length === 0}>
+                Export JSON
+              </button>
+              <button className="flex-1 text-sm border border-gray-500 rounded px-2 py-1 hover:bg-gray-800" onClick={() => importInputRef.current?.click()}>
+                Import JSON
+              </button>
+              <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={e => handleImport(e.target.files?.[0])} />
+            </div>
+            {presetError && <p className="text-sm text-red-400 mt-2">{presetError}</p>}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react';
+import { Check, Pencil, Pin, PinOff, Plus, Search, Trash2, X } from 'lucide-react';
+import Toast from './Toast';
+import HighlightedText, { searchTerms } from './HighlightedText';
+import { createClient } from '@/lib/supabase/client';
+import { type Avatar, listAvatars } from '@/lib/supabase/avatars';
+import { deleteSessionRecording, listSessionRecordings } from '@/lib/supabase/recordings';
+import {
+  type Conversation,
+  type ConversationSummary,
+  type MessageSearchResult,
+  createConversation,
+  deleteConversation,
+  listConversations,
+  renameConversation,
+  searchMessages,
+  setConversationPinned
+} from '@/lib/supabase/conversations';
+
+interface ConversationSidebarProps {
+  activeConversationId: string | null;
+  // Set when the chat is pinned to one avatar; new conversations use it
+  avatarId: string | null;
+  // Bumped when an answer lands, so titles and order follow
+  refreshKey?: number;
+  onSelect: (conversation: Conversation) => void;
+  onDeleted: (conversationId: string) => void;
+  // The search query, for highlighting matches in the open conversation
+  onSearchChange: (query: string) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+function conversationLabel(conversation: ConversationSummary) {
+  return conversation.title || conversation.first_question || 'New conversation';
+}
+
+// The part of an answer around its first match
+function snippet(text: string, query: string) {
+  const lower = text.toLowerCase();
+  const index = Math.min(
+    ...searchTerms(query).map(term => lower.indexOf(term.toLowerCase())).filter(i => i >= 0),
+    text.length
+  );
+  const start = index === text.length ? 0 : Math.max(0, index - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+// Conversations of the signed-in user: start, switch, rename, pin, delete, and
+// search through every question and answer
+export default function ConversationSidebar({
+  activeConversationId,
+  avatarId,
+  refreshKey = 0,
+  onSelect,
+  onDeleted,
+  onSearchChange
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [avatars, setAvatars] = useState<Avatar[]>([]);
+  const [newAvatarId, setNewAvatarId] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const loadConversations = async () => {
+    try {
+      setConversations(await listConversations(supabase));
+    } catch (loadError) {
+      console.error('[ConversationSidebar] Failed to load conversations:', loadError);
+    }
+  };
+
+  useEffect(() => {
+    loadConversations();
+  }, [refreshKey, activeConversationId]);
+
+  useEffect(() => {
+    listAvatars(supabase)
+      .then(setAvatars)
+      .catch(loadError => console.error('[ConversationSidebar] Failed to load avatars:', loadError));
+  }, []);
+
+  // Search once typing pauses
+  useEffect(() => {
+    onSearchChange(query.trim());
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchMessages(supabase, query.trim()));
+      } catch (searchError) {
+        console.error('[ConversationSidebar] Search failed:', searchError);
+        setResults([]);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const avatarFor = (id: string) => avatars.find(avatar => avatar.avatar_id === id);
+  const active = conversations.find(conversation => conversation.id === activeConversationId);
+  // New conversations are held with the pinned avatar, the open conversation's
+  // avatar, or the one picked here
+  const avatarForNew = avatarId ?? (newAvatarId || active?.avatar_id || avatars[0]?.avatar_id);
+
+  const handleNew = async () => {
+    if (!avatarForNew) return;
+    setError(null);
+    try {
+      const conversation = await createConversation(supabase, avatarForNew);
+      onSelect(conversation);
+      await loadConversations();
+    } catch (createError) {
+      console.error('[ConversationSidebar] Failed to create conversation:', createError);
+      setError('Failed to start a conversation');
+    }
+  };
+
+  const handleRename = async (conversation: ConversationSummary) => {
+    setError(null);
+    try {
+      await renameConversation(supabase, conversation.id, editTitle);
+      setEditingId(null);
+      await loadConversations();
+    } catch (renameError) {
+      console.error('[ConversationSidebar] Failed to rename conversation:', renameError);
+      setError('Failed to rename conversation');
+    }
+  };
+
+  const handlePin = async (conversation: ConversationSummary) => {
+    setError(null);
+    try {
+      await setConversationPinned(supabase, conversation.id, !conversation.pinned);
+      await loadConversations();
+    } catch (pinError) {
+      console.error('[ConversationSidebar] Failed to pin conversation:', pinError);
+      setError('Failed to pin conversation');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    const conversation = pendingDelete;
+    setPendingDelete(null);
+    if (!conversation) return;
+    setError(null);
+    try {
+      // Recording rows cascade with the conversation, but their files do not
+      for (const recording of await listSessionRecordings(supabase, conversation.id)) {
+        await deleteSessionRecording(supabase, recording);
+      }
+      await deleteConversation(supabase, conversation.id);
+      onDeleted(conversation.id);
+      await loadConversations();
+    } catch (deleteError) {
+      console.error('[ConversationSidebar] Failed to delete conversation:', deleteError);
+      setError('Failed to delete conversation');
+    }
+  };
+
+  const renderAvatar = (id: string) => {
+    const avatar = avatarFor(id);
+    return (
+      <span className="flex items-center gap-1 text-xs text-gray-500 min-w-0">
+        {avatar?.avatar_preview_image_url && (
+          <img src={avatar.avatar_preview_image_url} alt="" className="h-4 w-4 rounded-full object-cover" />
+        )}
+        <span className="truncate">{avatar?.avatar_name ?? id}</span>
+      </span>
+    );
+  };
+
+  // Search results, grouped under the conversation they came from
+  const renderResults = (found: MessageSearchResult[]) => {
+    if (found.length === 0) {
+      return <p className="px-2 py-4 text-sm text-gray-500">No messages match</p>;
+    }
+    const grouped = conversations
+      .map(conversation => ({
+        conversation,
+        messages: found.filter(result => result.conversation_id === conversation.id)
+      }))
+      .filter(group => group.messages.length > 0);
+    return grouped.map(({ conversation, messages }) => (
+      <button
+        key={conversation.id}
+        onClick={() => onSelect(conversation)}
+        className={`w-full text-left px-2 py-2 rounded hover:bg-gray-100 ${conversation.id === activeConversationId ? 'bg-gray-100' : ''}`}
+      >
+        <span className="block text-sm font-medium text-gray-900 truncate">{conversationLabel(conversation)}</span>
+        {renderAvatar(conversation.avatar_id)}
+        {messages.map(message => (
+          <span key={message.id} className="block mt-1 text-xs text-gray-600">
+            <span className="block font-medium"><HighlightedText text={message.question} query={query} /></span>
+            <span className="block"><HighlightedText text={snippet(message.response, query)} query={query} /></span>
+          </span>
+        ))}
+      </button>
+    ));
+  };
+
+  return (
+    <aside className="fixed left-8 top-8 bottom-28 w-72 hidden lg:flex flex-col bg-white rounded-lg shadow p-3 text-gray-800">
+      <div className="flex items-center gap-2 mb-3">
+        <button
+          onClick={handleNew}
+          disabled={!avatarForNew}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" /> New conversation
+        </button>
+      </div>
+      {!avatarId && avatars.length > 1 && (
+        <select
+          value={avatarForNew ?? ''}
+          onChange={e => setNewAvatarId(e.target.value)}
+          className="mb-3 px-2 py-1 text-sm border border-gray-200 rounded bg-white"
+          aria-label="Avatar for new conversations"
+        >
+          {avatars.map(avatar => (
+            <option key={avatar.avatar_id} value={avatar.avatar_id}>{avatar.avatar_name}</option>
+          ))}
+        </select>
+      )}
+      <label className="flex items-center gap-2 mb-3 px-2 py-1 border border-gray-200 rounded">
+        <Search className="h-4 w-4 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search messages"
+          className="flex-1 min-w-0 text-sm outline-none bg-transparent"
+        />
+      </label>
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      <div className="overflow-y-auto -mx-1 px-1 space-y-1">
+        {results ? renderResults(results) : conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group px-2 py-2 rounded ${conversation.id === activeConversationId ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+          >
+            {editingId === conversation.id ? (
+              <form
+                className="flex items-center gap-1"
+                onSubmit={e => {
+                  e.preventDefault();
+                  handleRename(conversation);
+                }}
+              >
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={e => setEditTitle(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  placeholder={conversation.first_question ?? 'Title'}
+                  className="flex-1 min-w-0 px-1 text-sm border border-gray-200 rounded"
+                />
+                <button type="submit" className="p-1 hover:bg-gray-200 rounded" aria-label="Save title">
+                  <Check className="h-4 w-4" />
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="p-1 hover:bg-gray-200 rounded" aria-label="Cancel rename">
+                  <X className="h-4 w-4" />
+                </button>
+              </form>
+            ) : (
+              <div className="flex items-start gap-1">
+                <button onClick={() => onSelect(conversation)} className="flex-1 min-w-0 text-left">
+                  <span className="flex items-center gap-1 text-sm font-medium text-gray-900">
+                    {conversation.pinned && <Pin className="h-3 w-3 shrink-0 text-gray-500" />}
+                    <span className="truncate">{conversationLabel(conversation)}</span>
+                  </span>
+                  <span className="flex items-center justify-between gap-2">
+                    {renderAvatar(conversation.avatar_id)}
+                    <span className="shrink-0 text-xs text-gray-400">{new Date(conversation.updated_at).toLocaleDateString()}</span>
+                  </span>
+                </button>
+                <span className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button
+                    onClick={() => {
+                      setEditingId(conversation.id);
+                      setEditTitle(conversation.title ?? '');
+                    }}
+                    className="p-1 hover:bg-gray-200 rounded"
+                    aria-label="Rename conversation"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => handlePin(conversation)}
+                    className="p-1 hover:bg-gray-200 rounded"
+                    aria-label={conversation.pinned ? 'Unpin conversation' : 'Pin conversation'}
+                  >
+                    {conversation.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                  </button>
+                  <button
+                    onClick={() => setPendingDelete(conversation)}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    aria-label="Delete conversation"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {pendingDelete && (
+        <Toast
+          message={`Delete "${conversationLabel(pendingDelete)}" and its recordings?`}
+          type="warning"
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setPendingDelete(null)}
+          duration={0}
+        />
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,32 @@
+interface HighlightedTextProps {
+  text: string;
+  // Search query; its words are marked wherever they appear
+  query?: string;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The words of a web-search style query, without quotes, "or" and -excluded words
+export function searchTerms(query: string) {
+  return query
+    .split(/\s+/)
+    .filter(word => word && !word.startsWith('-') && word.toLowerCase() !== 'or')
+    .map(word => word.replace(/"/g, ''))
+    .filter(Boolean);
+}
+
+export default function HighlightedText({ text, query = '' }: HighlightedTextProps) {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  // Splitting on a capturing group puts the matches at odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="bg-yellow-200 rounded-sm">{part}</mark> : part
+      )}
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import {
+  type ChatMessage,
+  type Conversation,
+  exportConversation,
+  importConversation,
+  listConversations,
+  listMessages,
+  parseConversationExport,
+  setConversationThread
+} from '@/lib/supabase/conversations';
+import {
+  type HistoryExportFormat,
+  downloadFile,
+  exportHistoryCsv,
+  exportHistoryMarkdown,
+  historyFileName,
+  printHistoryTranscript
+} from '../lib/history-export';
+import { OpenAIAssistant } from '../lib/openai-assistant';
+
+interface HistoryTransferPanelProps {
+  // The conversation the chat shows, exported from memory so a paired
+  // console gets what it sees
+  conversationId: string | null;
+  avatarId: string | null;
+  messages: ChatMessage[];
+  // Paired consoles can export but not import; history belongs to the screen
+  canImport: boolean;
+  onImported: (conversation: Conversation) => void;
+}
+
+const FORMATS: { value: HistoryExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON (can be imported)' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'pdf', label: 'PDF (print)' }
+];
+
+const CURRENT = 'current';
+
+// Exports the current or an earlier conversation, and restores one from a
+// JSON export as a new conversation
+export default function HistoryTransferPanel({
+  conversationId,
+  avatarId,
+  messages,
+  canImport,
+  onImported
+}: HistoryTransferPanelProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selected, setSelected] = useState(CURRENT);
+  const [format, setFormat] = useState<HistoryExportFormat>('json');
+  const [seedThread, setSeedThread] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const supabase = createClient();
+
+  const loadConversations = async () => {
+    if (!canImport) return;
+    try {
+      setConversations(await listConversations(supabase));
+    } catch (loadError) {
+      console.error('[HistoryTransferPanel] Failed to load conversations:', loadError);
+    }
+  };
+
+  useEffect(() => {
+    loadConversations();
+  }, [canImport, conversationId]);
+
+  const handleExport = async () => {
+    setError(null);
+    setNotice(null);
+    // Opened before any await so popup blockers allow it
+    const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+    if (format === 'pdf' && !printWindow) {
+      setError('Allow popups to print the transcript');
+      return;
+    }
+    setBusy(true);
+    try {
+      const other = conversations.find(conversation => conversation.id === selected);
+      const current = conversations.find(conversation => conversation.id === conversationId);
+      const exportAvatarId = other?.avatar_id ?? current?.avatar_id ?? avatarId ?? 'avatar';
+      const exported = other ? await listMessages(supabase, other.id) : messages;
+      if (format === 'json') {
+        downloadFile(exportConversation(exportAvatarId, exported), historyFileName(exportAvatarId, 'json'), 'application/json');
+      } else if (format === 'csv') {
+        downloadFile(exportHistoryCsv(exported), historyFileName(exportAvatarId, 'csv'), 'text/csv');
+      } else if (format === 'markdown') {
+        downloadFile(exportHistoryMarkdown(exportAvatarId, exported), historyFileName(exportAvatarId, 'md'), 'text/markdown');
+      } else if (printWindow) {
+        printHistoryTranscript(printWindow, exportAvatarId, exported);
+      }
+    } catch (exportError) {
+      console.error('[HistoryTransferPanel] Failed to export conversation:', exportError);
+      printWindow?.close();
+      setError('Failed to export conversation');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    setBusy(true);
+    try {
+      const imported = parseConversationExport(await file.text());
+      const conversation = await importConversation(supabase, imported);
+      if (seedThread && imported.messages.length > 0) {
+        try {
+          const threadId = await new OpenAIAssistant(imported.avatarId).initializeWithHistory(imported.messages);
+          await setConversationThread(supabase, conversation.id, threadId);
+          conversation.thread_id = threadId;
+        } catch (seedError) {
+          // The history is restored either way; the assistant starts fresh
+          console.error('[HistoryTransferPanel] Failed to seed assistant thread:', seedError);
+          setError('Imported, but the assistant thread could not be seeded');
+        }
+      }
+      setNotice(`Imported ${imported.messages.length} messages`);
+      onImported(conversation);
+      await loadConversations();
+    } catch (importError) {
+      console.error('[HistoryTransferPanel] Failed to import conversation:', importError);
+      setError(importError instanceof Error ? importError.message : 'Failed to import conversation');
+    } finally {
+      setBusy(false);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <details className="mb-8 bg-white rounded-lg shadow p-4 text-gray-800">
+      <summary className="cursor-pointer font-semibold flex items-center gap-2">
+        <Download className="h-4 w-4" />
+        Export / import
+      </summary>
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={selected}
+          onChange={e => setSelected(e.target.value)}
+          className="px-2 py-1 border border-gray-200 rounded bg-white"
+          aria-label="Conversation to export"
+        >
+          <option value={CURRENT}>Current conversation</option>
+          {conversations
+            .filter(conversation => conversation.id !== conversationId)
+            .map(conversation => (
+              <option key={conversation.id} value={conversation.id}>
+                {conversation.avatar_id} · {new Date(conversation.updated_at).toLocaleString()}
+              </option>
+            ))}
+        </select>
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as HistoryExportFormat)}
+          className="px-2 py-1 border border-gray-200 rounded bg-white"
+          aria-label="Export format"
+        >
+          {FORMATS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={busy || (selected === CURRENT && messages.length === 0)}
+          className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" /> Export
+        </button>
+        {canImport && (
+          <>
+            <span className="mx-2 h-5 border-l border-gray-200" />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4" /> Import JSON
+            </button>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={seedThread} onChange={e => setSeedThread(e.target.checked)} />
+              Seed a new assistant thread
+            </label>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => handleImport(e.target.files?.[0])}
+            />
+          </>
+        )}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {notice && !error && <p className="mt-2 text-sm text-green-700">{notice}</p>}
+    </details>
+  );
+}
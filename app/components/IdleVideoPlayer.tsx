@@ -36,6 +36,8 @@ export default function IdleVideoPlayer({ idleVideoUrl, onVideoEnd, onError, sty
       autoPlay
       playsInline
       muted
+      // Lets the session recorder copy frames from another origin
+      crossOrigin="anonymous"
       src={idleVideoUrl}
       onEnded={onVideoEnd}
       onError={handleVideoError}
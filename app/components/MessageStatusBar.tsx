@@ -0,0 +1,64 @@
+import { LoaderCircle, RotateCcw, Volume2 } from 'lucide-react';
+import type { ChatMessage, MessageStatus } from '@/lib/supabase/conversations';
+
+interface MessageStatusBarProps {
+  message: ChatMessage;
+  // Asks the question again in place; offered on failed messages
+  onRetry: () => void;
+}
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  queued: 'Queued',
+  thinking: 'Thinking…',
+  speaking: 'Speaking',
+  done: 'Done',
+  failed: 'Failed',
+  interrupted: 'Interrupted'
+};
+
+const STATUS_STYLES: Record<MessageStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  thinking: 'bg-blue-50 text-blue-700',
+  speaking: 'bg-green-50 text-green-700',
+  done: 'bg-gray-100 text-gray-500',
+  failed: 'bg-red-50 text-red-700',
+  interrupted: 'bg-amber-50 text-amber-700'
+};
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+// Where an answer stands, how long it took and what it cost
+export default function MessageStatusBar({ message, onRetry }: MessageStatusBarProps) {
+  const { latency, usage } = message;
+  const details = [
+    latency?.firstTokenMs !== undefined ? `first word ${formatSeconds(latency.firstTokenMs)}` : '',
+    latency?.firstSpeechMs !== undefined ? `speaking ${formatSeconds(latency.firstSpeechMs)}` : '',
+    latency?.totalMs !== undefined ? `total ${formatSeconds(latency.totalMs)}` : '',
+    usage ? `${usage.totalTokens} tokens (${usage.promptTokens} in, ${usage.completionTokens} out)` : ''
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+      <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-medium ${STATUS_STYLES[message.status]}`}>
+        {message.status === 'thinking' && <LoaderCircle className="h-3 w-3 animate-spin" />}
+        {message.status === 'speaking' && <Volume2 className="h-3 w-3" />}
+        {STATUS_LABELS[message.status]}
+      </span>
+      {message.status === 'failed' && (
+        <>
+          {message.error && <span className="text-red-600">{message.error}</span>}
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1 px-2 py-0.5 border border-red-200 text-red-700 rounded hover:bg-red-50"
+          >
+            <RotateCcw className="h-3 w-3" /> Retry
+          </button>
+        </>
+      )}
+      {details.length > 0 && <span className="text-gray-400">{details.join(' · ')}</span>}
+      {message.runId && <span className="text-gray-400 font-mono" title="Assistant run">{message.runId}</span>}
+    </div>
+  );
+}
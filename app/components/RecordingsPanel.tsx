@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, Trash2, Video } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import {
+  type SessionRecording,
+  deleteSessionRecording,
+  getRecordingDownloadUrl,
+  listSessionRecordings
+} from '@/lib/supabase/recordings';
+
+interface RecordingsPanelProps {
+  conversationId: string | null;
+  // Bumped when the avatar screen reports a new upload
+  refreshKey?: number;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Session recordings of one conversation, each downloadable as webm video
+// and WebVTT captions
+export default function RecordingsPanel({ conversationId, refreshKey = 0 }: RecordingsPanelProps) {
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = createClient();
+
+  const loadRecordings = async () => {
+    if (!conversationId) {
+      setRecordings([]);
+      return;
+    }
+    try {
+      setRecordings(await listSessionRecordings(supabase, conversationId));
+    } catch (loadError) {
+      console.error('[RecordingsPanel] Failed to load recordings:', loadError);
+    }
+  };
+
+  useEffect(() => {
+    loadRecordings();
+  }, [conversationId, refreshKey]);
+
+  const handleDownload = async (recording: SessionRecording, file: 'video' | 'captions') => {
+    setError(null);
+    try {
+      window.location.href = await getRecordingDownloadUrl(supabase, recording, file);
+    } catch (downloadError) {
+      console.error('[RecordingsPanel] Failed to create download link:', downloadError);
+      setError('Failed to download recording');
+    }
+  };
+
+  const handleDelete = async (recording: SessionRecording) => {
+    setError(null);
+    try {
+      await deleteSessionRecording(supabase, recording);
+      await loadRecordings();
+    } catch (deleteError) {
+      console.error('[RecordingsPanel] Failed to delete recording:', deleteError);
+      setError('Failed to delete recording');
+    }
+  };
+
+  if (recordings.length === 0) return null;
+
+  return (
+    <details className="mb-8 bg-white rounded-lg shadow p-4 text-gray-800">
+      <summary className="cursor-pointer font-semibold flex items-center gap-2">
+        <Video className="h-4 w-4" />
+        Recordings ({recordings.length})
+      </summary>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <ul className="mt-3 divide-y divide-gray-100">
+        {recordings.map(recording => (
+          <li key={recording.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+            <span>
+              {new Date(recording.created_at).toLocaleString()}
+              <span className="text-gray-500"> · {formatDuration(recording.duration_ms)} · {formatSize(recording.size_bytes)}</span>
+            </span>
+            <span className="flex items-center gap-2">
+              <button
+                onClick={() => handleDownload(recording, 'video')}
+                className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100"
+              >
+                <Download className="h-4 w-4" /> Video
+              </button>
+              <button
+                onClick={() => handleDownload(recording, 'captions')}
+                className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100"
+              >
+                <FileText className="h-4 w-4" /> Captions
+              </button>
+              <button
+                onClick={() => handleDelete(recording)}
+                className="p-1 text-red-600 rounded hover:bg-red-50"
+                aria-label="Delete recording"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
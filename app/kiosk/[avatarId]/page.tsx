@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import AvatarVideoStream from '../../components/AvatarVideoStream';
+import { createPairingCode } from '../../lib/message-bus';
+import { type BackoffOptions, backoffDelay } from '../../lib/retry';
+import { createClient } from '@/lib/supabase/client';
+import { type Avatar, getAvatar } from '@/lib/supabase/avatars';
+import { type AvatarSettings, getAvatarSettings } from '@/lib/supabase/avatar-settings';
+
+const TOKEN_STORAGE_KEY = 'kioskDeviceToken';
+const PAIRING_CODE_STORAGE_KEY = 'kioskPairingCode';
+// Unattended screens never give up; they just wait longer between attempts
+const KIOSK_BACKOFF: BackoffOptions = { maxAttempts: Infinity, initialDelayMs: 2000, maxDelayMs: 60000, factor: 2 };
+// After this many remounts in a row the whole page is reloaded instead
+const MAX_REMOUNTS = 5;
+// A remount that survives this long counts as recovered
+const HEALTHY_AFTER_MS = 5 * 60 * 1000;
+const UNLOCK_HOLD_MS = 3000;
+const CONTROLS_TIMEOUT_MS = 60000;
+
+type KioskStatus =
+  | { state: 'starting' }
+  | { state: 'ready'; avatar: Avatar; settings: AvatarSettings }
+  | { state: 'waiting'; message: string }
+  | { state: 'blocked'; message: string };
+
+// Error that retrying won't fix, like a missing or revoked device token
+class KioskBlockedError extends Error {}
+
+function readDeviceToken() {
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = params.get('token');
+  if (fromUrl) {
+    // Keep it off the address bar once saved on the device
+    localStorage.setItem(TOKEN_STORAGE_KEY, fromUrl);
+    params.delete('token');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    return fromUrl;
+  }
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+function readPairingCode() {
+  let code = localStorage.getItem(PAIRING_CODE_STORAGE_KEY);
+  if (!code) {
+    code = createPairingCode();
+    localStorage.setItem(PAIRING_CODE_STORAGE_KEY, code);
+  }
+  return code;
+}
+
+// Full-screen avatar for lobby screens. Signs in with the device token, plays
+// the idle loop with no controls, and restarts itself after any error. Holding
+// the top-left corner for three seconds (and the PIN, if the device has one)
+// reveals the controls.
+export default function KioskPage({ params }: { params: { avatarId: string } }) {
+  const avatarId = decodeURIComponent(params.avatarId);
+  const [status, setStatus] = useState<KioskStatus>({ state: 'starting' });
+  const [mountKey, setMountKey] = useState(0);
+  const [pairingCode, setPairingCode] = useState<string | null>(null);
+  const [deviceName, setDeviceName] = useState('');
+  const [pinRequired, setPinRequired] = useState(true);
+  const [showPinPad, setShowPinPad] = useState(false);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [showControls, setShowControls] = useState(false);
+  const failuresRef = useRef(0);
+  const recoveryTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const holdTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const router = useRouter();
+  const supabase = createClient();
+
+  // Sign in with the device token and load the avatar
+  const startKiosk = async () => {
+    try {
+      const token = readDeviceToken();
+      if (!token) {
+        throw new KioskBlockedError('This screen has no device token. Open the kiosk link an admin created for it.');
+      }
+      const response = await fetch('/api/kiosk/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, avatarId })
+      });
+      if (response.status === 401) {
+        throw new KioskBlockedError('This screen\'s device token was revoked or is for another avatar.');
+      }
+      if (!response.ok) {
+        throw new Error(`Kiosk sign-in failed: ${response.status}`);
+      }
+      const device = await response.json();
+      setDeviceName(device.deviceName);
+      setPinRequired(device.pinRequired);
+
+      const avatar = await getAvatar(supabase, avatarId);
+      if (!avatar) {
+        throw new KioskBlockedError(`Avatar ${avatarId} does not exist.`);
+      }
+      const settings = await getAvatarSettings(supabase, avatarId);
+      setStatus({ state: 'ready', avatar, settings });
+    } catch (error) {
+      if (error instanceof KioskBlockedError) {
+        setStatus({ state: 'blocked', message: error.message });
+        return;
+      }
+      console.error('[Kiosk] Failed to start:', error);
+      scheduleRecovery(error instanceof Error ? error.message : 'Failed to start');
+    }
+  };
+
+  // Start over after a growing delay: sign in again, reload the avatar and
+  // remount the player. Reloads the page if that keeps failing.
+  const scheduleRecovery = (message: string) => {
+    if (recoveryTimerRef.current) return;
+    failuresRef.current += 1;
+    if (failuresRef.current > MAX_REMOUNTS) {
+      console.warn('[Kiosk] Still failing after', MAX_REMOUNTS, 'restarts, reloading page');
+      window.location.reload();
+      return;
+    }
+    const delay = backoffDelay(failuresRef.current, KIOSK_BACKOFF);
+    console.warn(`[Kiosk] ${message}; restarting in ${delay}ms`);
+    setStatus({ state: 'waiting', message });
+    recoveryTimerRef.current = setTimeout(() => {
+      recoveryTimerRef.current = null;
+      setMountKey(key => key + 1);
+      startKiosk();
+    }, delay);
+  };
+
+  useEffect(() => {
+    setPairingCode(readPairingCode());
+    startKiosk();
+
+    // Don't wait out the backoff once the network is back
+    const handleOnline = () => {
+      if (!recoveryTimerRef.current) return;
+      clearTimeout(recoveryTimerRef.current);
+      recoveryTimerRef.current = null;
+      setMountKey(key => key + 1);
+      startKiosk();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (recoveryTimerRef.current) clearTimeout(recoveryTimerRef.current);
+    };
+  }, [avatarId]);
+
+  // A player that keeps running for a while resets the failure count
+  useEffect(() => {
+    if (status.state !== 'ready') return;
+    const timer = setTimeout(() => {
+      failuresRef.current = 0;
+    }, HEALTHY_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [status.state, mountKey]);
+
+  // Keep the display awake, and take it back whenever the page is shown again
+  useEffect(() => {
+    let wakeLock: WakeLockSentinel | null = null;
+    const requestWakeLock = async () => {
+      if (!('wakeLock' in navigator) || document.visibilityState !== 'visible') return;
+      try {
+        wakeLock = await navigator.wakeLock.request('screen');
+      } catch (error) {
+        console.warn('[Kiosk] Wake lock unavailable:', error);
+      }
+    };
+    requestWakeLock();
+    document.addEventListener('visibilitychange', requestWakeLock);
+    return () => {
+      document.removeEventListener('visibilitychange', requestWakeLock);
+      wakeLock?.release().catch(() => {});
+    };
+  }, []);
+
+  // Browsers only allow full screen from a user gesture, so take the first one
+  useEffect(() => {
+    const enterFullscreen = () => {
+      if (!document.fullscreenElement) {
+        document.documentElement.requestFullscreen().catch(() => {});
+      }
+    };
+    window.addEventListener('pointerdown', enterFullscreen, { once: true });
+    return () => window.removeEventListener('pointerdown', enterFullscreen);
+  }, []);
+
+  // Hide the controls again if they are left open
+  useEffect(() => {
+    if (!showControls && !showPinPad) return;
+    const timer = setTimeout(() => {
+      setShowControls(false);
+      setShowPinPad(false);
+      setPin('');
+    }, CONTROLS_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [showControls, showPinPad]);
+
+  // --- Unlock gesture ---
+  const startHold = () => {
+    holdTimerRef.current = setTimeout(() => {
+      holdTimerRef.current = null;
+      setPinError(null);
+      if (pinRequired) {
+        setShowPinPad(true);
+      } else {
+        setShowControls(true);
+      }
+    }, UNLOCK_HOLD_MS);
+  };
+
+  const cancelHold = () => {
+    if (holdTimerRef.current) {
+      clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setPinError(null);
+    try {
+      const response = await fetch('/api/kiosk/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: localStorage.getItem(TOKEN_STORAGE_KEY), pin })
+      });
+      const { unlocked, lockedUntil } = await response.json();
+      if (unlocked) {
+        setShowPinPad(false);
+        setShowControls(true);
+      } else if (lockedUntil) {
+        setPinError(`Too many wrong PINs. Try again after ${new Date(lockedUntil).toLocaleTimeString()}`);
+      } else {
+        setPinError('Wrong PIN');
+      }
+    } catch (error) {
+      console.error('[Kiosk] Failed to check PIN:', error);
+      setPinError('Could not check the PIN');
+    } finally {
+      setPin('');
+    }
+  };
+
+  const handleRestart = () => {
+    setShowControls(false);
+    if (recoveryTimerRef.current) {
+      clearTimeout(recoveryTimerRef.current);
+      recoveryTimerRef.current = null;
+    }
+    failuresRef.current = 0;
+    setMountKey(key => key + 1);
+    startKiosk();
+  };
+
+  const handleExit = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    router.push('/');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black cursor-none select-none">
+      {status.state === 'ready' && pairingCode && (
+        <AvatarVideoStream
+          key={mountKey}
+          kiosk
+          avatarName={status.avatar.avatar_id}
+          idleVideoUrl={status.avatar.idle_video_path}
+          toLiveVideoUrl={status.avatar.to_live_video_path}
+          toIdleVideoUrl={status.avatar.to_idle_video_path}
+          settings={status.settings}
+          pairingCode={pairingCode}
+          reconnect={KIOSK_BACKOFF}
+          showChatLink={false}
+          onClose={handleRestart}
+          onFatalError={scheduleRecovery}
+        />
+      )}
+
+      {status.state === 'blocked' && (
+        <div className="absolute inset-0 flex items-center justify-center text-white text-center p-8">
+          {status.message}
+        </div>
+      )}
+
+      {/* Unlock gesture: press and hold the top-left corner */}
+      <div
+        className="absolute top-0 left-0 w-24 h-24 z-[60]"
+        onPointerDown={startHold}
+        onPointerUp={cancelHold}
+        onPointerLeave={cancelHold}
+        onContextMenu={(e) => e.preventDefault()}
+      />
+
+      {showPinPad && (
+        <div className="absolute inset-0 z-[70] flex items-center justify-center bg-black/70 cursor-auto">
+          <form onSubmit={handleUnlock} className="bg-white rounded-lg p-6 w-72 text-gray-900">
+            <h2 className="text-lg font-bold mb-4">Enter PIN</h2>
+            {pinError && <p className="text-red-500 mb-2">{pinError}</p>}
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className="border border-gray-300 p-2 mb-4 w-full text-center text-2xl tracking-widest"
+            />
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setShowPinPad(false)} className="flex-1 border border-gray-300 rounded p-2">
+                Cancel
+              </button>
+              <button type="submit" className="flex-1 bg-blue-500 text-white rounded p-2" disabled={!pin}>
+                Unlock
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {showControls && (
+        <div className="absolute inset-0 z-[70] flex items-center justify-center bg-black/70 cursor-auto">
+          <div className="bg-white rounded-lg p-6 w-80 text-gray-900 space-y-3">
+            <h2 className="text-lg font-bold">{deviceName || 'Kiosk'}</h2>
+            {pairingCode && (
+              <p>
+                Pair code: <span className="font-mono tracking-widest">{pairingCode}</span>
+              </p>
+            )}
+            {status.state === 'waiting' && (
+              <p className="text-sm text-yellow-700">Recovering from: {status.message}</p>
+            )}
+            <button onClick={handleRestart} className="w-full border border-gray-300 rounded p-2">
+              Restart avatar
+            </button>
+            <button onClick={() => window.location.reload()} className="w-full border border-gray-300 rounded p-2">
+              Reload page
+            </button>
+            <button onClick={handleExit} className="w-full bg-red-500 text-white rounded p-2">
+              Exit kiosk
+            </button>
+            <button onClick={() => setShowControls(false)} className="w-full text-sm text-gray-500">
+              Hide
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
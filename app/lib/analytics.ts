@@ -0,0 +1,166 @@
+import type { AvatarSession, SessionEvent } from '@/lib/supabase/telemetry';
+
+export interface DailyUsage {
+  // YYYY-MM-DD in local time
+  day: string;
+  sessions: number;
+  questions: number;
+  // Share of that day's sessions with at least one error or disconnect
+  errorRate: number;
+  disconnectRate: number;
+}
+
+export interface AvatarUsage {
+  avatarId: string;
+  sessions: number;
+  questions: number;
+  minutes: number;
+}
+
+export interface QuestionCount {
+  question: string;
+  count: number;
+}
+
+export interface UsageSummary {
+  sessions: number;
+  questions: number;
+  daily: DailyUsage[];
+  avatars: AvatarUsage[];
+  topQuestions: QuestionCount[];
+  medianTimeToFirstWordMs: number | null;
+  medianAssistantLatencyMs: number | null;
+  medianSpeakDurationMs: number | null;
+  errorRate: number;
+  disconnectRate: number;
+  // Average time spent in each phase per session
+  phaseMinutes: { phase: string; minutes: number }[];
+}
+
+const TOP_QUESTION_COUNT = 10;
+
+function dayKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Questions that differ only in case, spacing or a trailing ? count as one
+function normalizeQuestion(question: string) {
+  return question.trim().replace(/\s+/g, ' ').replace(/[?.!]+$/, '').toLowerCase();
+}
+
+// Rolls sessions and their events up into what the analytics page charts.
+// Every day from `since` to today gets an entry, so quiet days show as zero.
+export function summarizeUsage(sessions: AvatarSession[], events: SessionEvent[], since: Date): UsageSummary {
+  const sessionById = new Map(sessions.map((session) => [session.id, session]));
+  const eventsBySession = new Map<string, SessionEvent[]>();
+  for (const event of events) {
+    if (!sessionById.has(event.session_id)) continue;
+    const list = eventsBySession.get(event.session_id) ?? [];
+    list.push(event);
+    eventsBySession.set(event.session_id, list);
+  }
+
+  const daily = new Map<string, DailyUsage & { errorSessions: number; disconnectSessions: number }>();
+  for (let date = new Date(since); date <= new Date(); date.setDate(date.getDate() + 1)) {
+    daily.set(dayKey(date), { day: dayKey(date), sessions: 0, questions: 0, errorRate: 0, disconnectRate: 0, errorSessions: 0, disconnectSessions: 0 });
+  }
+  const avatars = new Map<string, AvatarUsage>();
+  const questionCounts = new Map<string, QuestionCount>();
+  const phaseTotals = new Map<string, number>();
+  const firstWord: number[] = [];
+  const assistantLatency: number[] = [];
+  const speakDuration: number[] = [];
+  let questions = 0;
+  let errorSessions = 0;
+  let disconnectSessions = 0;
+
+  for (const session of sessions) {
+    const sessionEvents = eventsBySession.get(session.id) ?? [];
+    const startedAt = new Date(session.started_at);
+    const day = daily.get(dayKey(startedAt));
+    const avatar = avatars.get(session.avatar_id) ?? { avatarId: session.avatar_id, sessions: 0, questions: 0, minutes: 0 };
+    avatar.sessions += 1;
+    if (session.ended_at) {
+      avatar.minutes += (new Date(session.ended_at).getTime() - startedAt.getTime()) / 60000;
+    }
+
+    let hadError = false;
+    let hadDisconnect = false;
+    for (const event of sessionEvents) {
+      switch (event.type) {
+        case 'question': {
+          questions += 1;
+          avatar.questions += 1;
+          if (day) day.questions += 1;
+          const key = normalizeQuestion(event.data.question);
+          if (!key) break;
+          const entry = questionCounts.get(key) ?? { question: event.data.question.trim(), count: 0 };
+          entry.count += 1;
+          questionCounts.set(key, entry);
+          break;
+        }
+        case 'first_word':
+          firstWord.push(event.data.latencyMs);
+          break;
+        case 'assistant_latency':
+          assistantLatency.push(event.data.latencyMs);
+          break;
+        case 'speak':
+          speakDuration.push(event.data.durationMs);
+          break;
+        case 'phase':
+          phaseTotals.set(event.data.phase, (phaseTotals.get(event.data.phase) ?? 0) + event.data.durationMs);
+          break;
+        case 'error':
+          hadError = true;
+          break;
+        case 'disconnect':
+          hadDisconnect = true;
+          break;
+      }
+    }
+
+    avatars.set(session.avatar_id, avatar);
+    if (hadError) errorSessions += 1;
+    if (hadDisconnect) disconnectSessions += 1;
+    if (day) {
+      day.sessions += 1;
+      if (hadError) day.errorSessions += 1;
+      if (hadDisconnect) day.disconnectSessions += 1;
+    }
+  }
+
+  return {
+    sessions: sessions.length,
+    questions,
+    daily: Array.from(daily.values()).map(({ errorSessions, disconnectSessions, ...day }) => ({
+      ...day,
+      errorRate: day.sessions ? errorSessions / day.sessions : 0,
+      disconnectRate: day.sessions ? disconnectSessions / day.sessions : 0
+    })),
+    avatars: Array.from(avatars.values())
+      .map((avatar) => ({ ...avatar, minutes: Math.round(avatar.minutes * 10) / 10 }))
+      .sort((a, b) => b.sessions - a.sessions),
+    topQuestions: Array.from(questionCounts.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_QUESTION_COUNT),
+    medianTimeToFirstWordMs: median(firstWord),
+    medianAssistantLatencyMs: median(assistantLatency),
+    medianSpeakDurationMs: median(speakDuration),
+    errorRate: sessions.length ? errorSessions / sessions.length : 0,
+    disconnectRate: sessions.length ? disconnectSessions / sessions.length : 0,
+    phaseMinutes: Array.from(phaseTotals.entries()).map(([phase, total]) => ({
+      phase,
+      minutes: sessions.length ? Math.round(total / sessions.length / 6000) / 10 : 0
+    }))
+  };
+}
@@ -0,0 +1,305 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AvatarPhase } from './message-bus';
+import {
+  type PhaseEffect,
+  type PhaseEvent,
+  type PhaseMachineHooks,
+  type PhaseState,
+  createPhaseMachine,
+  initialPhaseState,
+  transition,
+} from './avatar-phase-machine';
+
+function stateIn(phase: AvatarPhase, changes: Partial<PhaseState> = {}): PhaseState {
+  return { ...initialPhaseState, phase, ...changes };
+}
+
+const endSession: PhaseEffect[] = [
+  { type: 'clearInactivityTimer' },
+  { type: 'endSession' },
+  { type: 'playClip', clip: 'to_idle' },
+];
+
+const cases: { name: string; state: PhaseState; event: PhaseEvent; next: PhaseState; effects: PhaseEffect[] }[] = [
+  {
+    name: 'input while idle starts the session and waits for the idle loop',
+    state: stateIn('idle'),
+    event: { type: 'USER_INPUT' },
+    next: stateIn('idle', { pendingLive: true }),
+    effects: [{ type: 'clearInactivityTimer' }, { type: 'startSession' }],
+  },
+  {
+    name: 'repeated input while going live starts no second session',
+    state: stateIn('idle', { pendingLive: true }),
+    event: { type: 'USER_INPUT' },
+    next: stateIn('idle', { pendingLive: true }),
+    effects: [{ type: 'clearInactivityTimer' }],
+  },
+  {
+    name: 'input during to_idle waits for the old session to end',
+    state: stateIn('to_idle'),
+    event: { type: 'USER_INPUT' },
+    next: stateIn('to_idle', { pendingLive: true }),
+    effects: [],
+  },
+  {
+    name: 'input while streaming only holds off the inactivity timer',
+    state: stateIn('stream', { streamReady: true }),
+    event: { type: 'USER_INPUT' },
+    next: stateIn('stream', { streamReady: true }),
+    effects: [{ type: 'clearInactivityTimer' }],
+  },
+  {
+    name: 'the idle loop repeats with nothing pending',
+    state: stateIn('idle'),
+    event: { type: 'CLIP_ENDED', clip: 'idle' },
+    next: stateIn('idle'),
+    effects: [{ type: 'playClip', clip: 'idle' }],
+  },
+  {
+    name: 'the idle loop hands over to to_live once input is pending',
+    state: stateIn('idle', { pendingLive: true }),
+    event: { type: 'CLIP_ENDED', clip: 'idle' },
+    next: stateIn('to_live'),
+    effects: [{ type: 'playClip', clip: 'to_live' }],
+  },
+  {
+    name: 'the to_live clip ends in the stream, which starts counting down',
+    state: stateIn('to_live'),
+    event: { type: 'CLIP_ENDED', clip: 'to_live' },
+    next: stateIn('stream'),
+    effects: [{ type: 'startInactivityTimer' }],
+  },
+  {
+    name: 'the to_live clip ends in the stream without a countdown while speaking',
+    state: stateIn('to_live', { speaking: true }),
+    event: { type: 'CLIP_ENDED', clip: 'to_live' },
+    next: stateIn('stream', { speaking: true }),
+    effects: [],
+  },
+  {
+    name: 'the to_idle clip ends in the idle loop',
+    state: stateIn('to_idle'),
+    event: { type: 'CLIP_ENDED', clip: 'to_idle' },
+    next: stateIn('idle'),
+    effects: [{ type: 'playClip', clip: 'idle' }],
+  },
+  {
+    name: 'the to_idle clip starts a session for input that came during it',
+    state: stateIn('to_idle', { pendingLive: true }),
+    event: { type: 'CLIP_ENDED', clip: 'to_idle' },
+    next: stateIn('idle', { pendingLive: true }),
+    effects: [{ type: 'playClip', clip: 'idle' }, { type: 'startSession' }],
+  },
+  {
+    name: 'a stale idle clip ending during the stream is ignored',
+    state: stateIn('stream'),
+    event: { type: 'CLIP_ENDED', clip: 'idle' },
+    next: stateIn('stream'),
+    effects: [],
+  },
+  {
+    name: 'a stale to_live clip ending during to_idle is ignored',
+    state: stateIn('to_idle'),
+    event: { type: 'CLIP_ENDED', clip: 'to_live' },
+    next: stateIn('to_idle'),
+    effects: [],
+  },
+  {
+    name: 'a stale to_idle clip ending while idle is ignored',
+    state: stateIn('idle', { pendingLive: true }),
+    event: { type: 'CLIP_ENDED', clip: 'to_idle' },
+    next: stateIn('idle', { pendingLive: true }),
+    effects: [],
+  },
+  {
+    name: 'a lost stream keeps the phase and stops the timer',
+    state: stateIn('stream', { streamReady: true, speaking: true }),
+    event: { type: 'STREAM_LOST' },
+    next: stateIn('stream'),
+    effects: [{ type: 'clearInactivityTimer' }],
+  },
+  {
+    name: 'speaking stops the inactivity timer',
+    state: stateIn('stream'),
+    event: { type: 'SPEAK_START' },
+    next: stateIn('stream', { speaking: true }),
+    effects: [{ type: 'clearInactivityTimer' }],
+  },
+  {
+    name: 'the end of speech starts the inactivity timer in the stream',
+    state: stateIn('stream', { speaking: true }),
+    event: { type: 'SPEAK_END' },
+    next: stateIn('stream'),
+    effects: [{ type: 'startInactivityTimer' }],
+  },
+  {
+    name: 'the end of speech outside the stream starts no timer',
+    state: stateIn('to_live', { speaking: true }),
+    event: { type: 'SPEAK_END' },
+    next: stateIn('to_live'),
+    effects: [],
+  },
+  {
+    name: 'inactivity in the stream goes back to idle',
+    state: stateIn('stream', { streamReady: true }),
+    event: { type: 'INACTIVITY_TIMEOUT' },
+    next: stateIn('to_idle'),
+    effects: endSession,
+  },
+  {
+    name: 'inactivity while speaking is ignored',
+    state: stateIn('stream', { speaking: true }),
+    event: { type: 'INACTIVITY_TIMEOUT' },
+    next: stateIn('stream', { speaking: true }),
+    effects: [],
+  },
+  {
+    name: 'inactivity outside the stream is ignored',
+    state: stateIn('to_live'),
+    event: { type: 'INACTIVITY_TIMEOUT' },
+    next: stateIn('to_live'),
+    effects: [],
+  },
+  {
+    name: 'an error while idle drops the pending session',
+    state: stateIn('idle', { pendingLive: true }),
+    event: { type: 'ERROR', message: 'token failed' },
+    next: stateIn('idle'),
+    effects: [{ type: 'reportError', message: 'token failed' }],
+  },
+  {
+    name: 'an error during to_live goes back to idle',
+    state: stateIn('to_live'),
+    event: { type: 'ERROR', message: 'stream failed' },
+    next: stateIn('to_idle'),
+    effects: [{ type: 'reportError', message: 'stream failed' }, ...endSession],
+  },
+  {
+    name: 'an error in the stream goes back to idle',
+    state: stateIn('stream', { streamReady: true, speaking: true }),
+    event: { type: 'ERROR', message: 'reconnect failed' },
+    next: stateIn('to_idle'),
+    effects: [{ type: 'reportError', message: 'reconnect failed' }, ...endSession],
+  },
+  {
+    name: 'an error during to_idle drops the pending session',
+    state: stateIn('to_idle', { pendingLive: true }),
+    event: { type: 'ERROR', message: 'stop failed' },
+    next: stateIn('to_idle'),
+    effects: [{ type: 'reportError', message: 'stop failed' }],
+  },
+  {
+    name: 'close resets from any phase',
+    state: stateIn('stream', { streamReady: true, speaking: true }),
+    event: { type: 'CLOSE' },
+    next: initialPhaseState,
+    effects: [{ type: 'clearInactivityTimer' }, { type: 'close' }],
+  },
+];
+
+describe('transition', () => {
+  it.each(cases)('$name', ({ state, event, next, effects }) => {
+    expect(transition(state, event)).toEqual({ state: next, effects });
+  });
+
+  it('returns the same state object for ignored events', () => {
+    const state = stateIn('stream', { speaking: true });
+    expect(transition(state, { type: 'INACTIVITY_TIMEOUT' }).state).toBe(state);
+  });
+});
+
+describe('createPhaseMachine', () => {
+  function recordingHooks(calls: string[]): PhaseMachineHooks {
+    return {
+      startSession: () => calls.push('startSession'),
+      endSession: () => calls.push('endSession'),
+      playClip: (clip) => calls.push(`playClip:${clip}`),
+      startInactivityTimer: () => calls.push('startInactivityTimer'),
+      clearInactivityTimer: () => calls.push('clearInactivityTimer'),
+      reportError: (message) => calls.push(`reportError:${message}`),
+      close: () => calls.push('close'),
+      onStateChange: (state, previous) => calls.push(`state:${previous.phase}->${state.phase}`),
+    };
+  }
+
+  it('commits the state before running effects in order', () => {
+    const calls: string[] = [];
+    const machine = createPhaseMachine(recordingHooks(calls), stateIn('stream'));
+    machine.send({ type: 'ERROR', message: 'lost' });
+    expect(calls).toEqual([
+      'state:stream->to_idle',
+      'reportError:lost',
+      'clearInactivityTimer',
+      'endSession',
+      'playClip:to_idle',
+    ]);
+    expect(machine.state.phase).toBe('to_idle');
+  });
+
+  it('lets effects send events that see the committed state', () => {
+    const phases: AvatarPhase[] = [];
+    const hooks = recordingHooks([]);
+    const machine = createPhaseMachine({
+      ...hooks,
+      // The to_live clip is missing, so playing it ends it at once
+      playClip: (clip) => {
+        phases.push(machine.state.phase);
+        if (clip === 'to_live') machine.send({ type: 'CLIP_ENDED', clip });
+      },
+    }, stateIn('idle', { pendingLive: true }));
+    machine.send({ type: 'CLIP_ENDED', clip: 'idle' });
+    expect(phases).toEqual(['to_live']);
+    expect(machine.state.phase).toBe('stream');
+  });
+
+  it('skips onStateChange when nothing changed', () => {
+    const onStateChange = vi.fn();
+    const machine = createPhaseMachine({ ...recordingHooks([]), onStateChange }, stateIn('stream'));
+    machine.send({ type: 'CLIP_ENDED', clip: 'idle' });
+    expect(onStateChange).not.toHaveBeenCalled();
+  });
+
+  it('goes back to idle when the answer failed before the stream', () => {
+    const calls: string[] = [];
+    const machine = createPhaseMachine(recordingHooks(calls));
+    const events: PhaseEvent[] = [
+      { type: 'USER_INPUT' },
+      { type: 'CLIP_ENDED', clip: 'idle' },
+      // chat_failed only; the avatar never spoke
+      { type: 'SPEAK_END' },
+      { type: 'CLIP_ENDED', clip: 'to_live' },
+    ];
+    events.forEach(machine.send);
+    expect(calls.slice(-2)).toEqual(['state:to_live->stream', 'startInactivityTimer']);
+    machine.send({ type: 'INACTIVITY_TIMEOUT' });
+    expect(machine.state.phase).toBe('to_idle');
+  });
+
+  it('walks the whole idle, live and back cycle', () => {
+    const calls: string[] = [];
+    const machine = createPhaseMachine(recordingHooks(calls));
+    const events: PhaseEvent[] = [
+      { type: 'USER_INPUT' },
+      { type: 'CLIP_ENDED', clip: 'idle' },
+      { type: 'CLIP_ENDED', clip: 'to_live' },
+      { type: 'STREAM_READY' },
+      { type: 'SPEAK_START' },
+      { type: 'SPEAK_END' },
+      { type: 'INACTIVITY_TIMEOUT' },
+      { type: 'CLIP_ENDED', clip: 'to_idle' },
+    ];
+    events.forEach(machine.send);
+    expect(calls.filter((call) => call.startsWith('state:'))).toEqual([
+      'state:idle->idle',
+      'state:idle->to_live',
+      'state:to_live->stream',
+      'state:stream->stream',
+      'state:stream->stream',
+      'state:stream->stream',
+      'state:stream->to_idle',
+      'state:to_idle->idle',
+    ]);
+    expect(machine.state).toEqual(initialPhaseState);
+  });
+});
@@ -0,0 +1,190 @@
+import type { AvatarPhase } from './message-bus';
+
+// Single source of truth for the avatar screen's phase:
+//
+//   idle --(input, idle clip ends)--> to_live --(clip ends)--> stream
+//   stream --(inactivity timeout)--> to_idle --(clip ends)--> idle
+//
+// transition() is pure and knows nothing about React, video elements or
+// timers. It returns the next state plus the effects the caller must run;
+// createPhaseMachine() wires those effects to hooks.
+
+export type TransitionClip = 'idle' | 'to_live' | 'to_idle';
+
+export interface PhaseState {
+  phase: AvatarPhase;
+  // User input arrived; go live when the current idle loop finishes
+  pendingLive: boolean;
+  streamReady: boolean;
+  speaking: boolean;
+}
+
+export type PhaseEvent =
+  | { type: 'USER_INPUT' }
+  | { type: 'CLIP_ENDED'; clip: TransitionClip }
+  | { type: 'STREAM_READY' }
+  | { type: 'STREAM_LOST' }
+  | { type: 'SPEAK_START' }
+  | { type: 'SPEAK_END' }
+  | { type: 'INACTIVITY_TIMEOUT' }
+  | { type: 'ERROR'; message: string }
+  | { type: 'CLOSE' };
+
+export type PhaseEffect =
+  | { type: 'startSession' }
+  | { type: 'endSession' }
+  | { type: 'playClip'; clip: TransitionClip }
+  | { type: 'startInactivityTimer' }
+  | { type: 'clearInactivityTimer' }
+  | { type: 'reportError'; message: string }
+  | { type: 'close' };
+
+export const initialPhaseState: PhaseState = {
+  phase: 'idle',
+  pendingLive: false,
+  streamReady: false,
+  speaking: false,
+};
+
+// Leaving the live stream always ends the session and plays the to_idle clip
+function goIdle(state: PhaseState): { state: PhaseState; effects: PhaseEffect[] } {
+  return {
+    state: { ...state, phase: 'to_idle', pendingLive: false, streamReady: false, speaking: false },
+    effects: [{ type: 'clearInactivityTimer' }, { type: 'endSession' }, { type: 'playClip', clip: 'to_idle' }],
+  };
+}
+
+export function transition(state: PhaseState, event: PhaseEvent): { state: PhaseState; effects: PhaseEffect[] } {
+  const unchanged = { state, effects: [] as PhaseEffect[] };
+
+  switch (event.type) {
+    case 'USER_INPUT':
+      // Session creation starts right away; the idle clip finishes its loop first
+      if (state.phase === 'idle' && !state.pendingLive) {
+        return {
+          state: { ...state, pendingLive: true },
+          effects: [{ type: 'clearInactivityTimer' }, { type: 'startSession' }],
+        };
+      }
+      // The old session is still shutting down; start the new one once idle
+      if (state.phase === 'to_idle') {
+        return { state: { ...state, pendingLive: true }, effects: [] };
+      }
+      return { state, effects: [{ type: 'clearInactivityTimer' }] };
+
+    case 'CLIP_ENDED':
+      if (event.clip === 'idle' && state.phase === 'idle') {
+        if (state.pendingLive) {
+          return {
+            state: { ...state, phase: 'to_live', pendingLive: false },
+            effects: [{ type: 'playClip', clip: 'to_live' }],
+          };
+        }
+        return { state, effects: [{ type: 'playClip', clip: 'idle' }] };
+      }
+      // Count down from the start of the stream, so a live session whose
+      // answer failed or was stopped still goes back to idle
+      if (event.clip === 'to_live' && state.phase === 'to_live') {
+        return {
+          state: { ...state, phase: 'stream' },
+          effects: state.speaking ? [] : [{ type: 'startInactivityTimer' }],
+        };
+      }
+      if (event.clip === 'to_idle' && state.phase === 'to_idle') {
+        const effects: PhaseEffect[] = [{ type: 'playClip', clip: 'idle' }];
+        if (state.pendingLive) effects.push({ type: 'startSession' });
+        return { state: { ...state, phase: 'idle' }, effects };
+      }
+      // A clip that ends outside its own phase is stale
+      return unchanged;
+
+    case 'STREAM_READY':
+      return { state: { ...state, streamReady: true }, effects: [] };
+
+    case 'STREAM_LOST':
+      // The phase is kept while the session is being recovered; a failed
+      // recovery is reported as ERROR
+      return {
+        state: { ...state, streamReady: false, speaking: false },
+        effects: [{ type: 'clearInactivityTimer' }],
+      };
+
+    case 'SPEAK_START':
+      return { state: { ...state, speaking: true }, effects: [{ type: 'clearInactivityTimer' }] };
+
+    case 'SPEAK_END':
+      // Only the live stream counts down to idle
+      if (state.phase === 'stream') {
+        return { state: { ...state, speaking: false }, effects: [{ type: 'startInactivityTimer' }] };
+      }
+      return { state: { ...state, speaking: false }, effects: [] };
+
+    case 'INACTIVITY_TIMEOUT':
+      if (state.phase !== 'stream' || state.speaking) return unchanged;
+      return goIdle(state);
+
+    case 'ERROR':
+      if (state.phase === 'stream' || state.phase === 'to_live') {
+        const next = goIdle(state);
+        return { state: next.state, effects: [{ type: 'reportError', message: event.message }, ...next.effects] };
+      }
+      return {
+        state: { ...state, pendingLive: false },
+        effects: [{ type: 'reportError', message: event.message }],
+      };
+
+    case 'CLOSE':
+      return {
+        state: initialPhaseState,
+        effects: [{ type: 'clearInactivityTimer' }, { type: 'close' }],
+      };
+  }
+}
+
+export interface PhaseMachineHooks {
+  startSession: () => void;
+  endSession: () => void;
+  playClip: (clip: TransitionClip) => void;
+  startInactivityTimer: () => void;
+  clearInactivityTimer: () => void;
+  reportError: (message: string) => void;
+  close: () => void;
+  onStateChange?: (state: PhaseState, previous: PhaseState) => void;
+}
+
+export interface PhaseMachine {
+  readonly state: PhaseState;
+  send: (event: PhaseEvent) => void;
+}
+
+export function createPhaseMachine(hooks: PhaseMachineHooks, initial: PhaseState = initialPhaseState): PhaseMachine {
+  let state = initial;
+
+  const runEffect = (effect: PhaseEffect) => {
+    switch (effect.type) {
+      case 'startSession': return hooks.startSession();
+      case 'endSession': return hooks.endSession();
+      case 'playClip': return hooks.playClip(effect.clip);
+      case 'startInactivityTimer': return hooks.startInactivityTimer();
+      case 'clearInactivityTimer': return hooks.clearInactivityTimer();
+      case 'reportError': return hooks.reportError(effect.message);
+      case 'close': return hooks.close();
+    }
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    send(event: PhaseEvent) {
+      const previous = state;
+      const result = transition(state, event);
+      state = result.state;
+      // State is committed before effects run, so hooks that send events see it
+      if (state !== previous) {
+        hooks.onStateChange?.(state, previous);
+      }
+      result.effects.forEach(runEffect);
+    },
+  };
+}
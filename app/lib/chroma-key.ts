@@ -0,0 +1,486 @@
+import type { ChromaBackground, ChromaKeyConfig } from '@/lib/supabase/avatar-settings';
+
+// Keys the green screen out of the avatar stream and composites what is left
+// over a background. WebGL2 does the work in a fragment shader (a software
+// renderer is fine); browsers without WebGL2 get the original per-pixel canvas
+// loop instead.
+
+export const DEFAULT_SOFTNESS = 0.1;
+export const DEFAULT_SPILL = 0.5;
+
+export interface ChromaKeyRenderer {
+  readonly kind: 'webgl' | 'canvas';
+  // Where the keyed frames are drawn: the given canvas, or a stand-in for it
+  // when WebGL setup failed there
+  readonly canvas: HTMLCanvasElement;
+  // Draw the current video frame; does nothing until the video has data
+  render(video: HTMLVideoElement, config: ChromaKeyConfig): void;
+  setBackground(background: ChromaBackground | null): void;
+  dispose(): void;
+}
+
+// Loads an image or video background and keeps it playing
+class BackgroundSource {
+  element: HTMLImageElement | HTMLVideoElement | null = null;
+  color: string | null = null;
+  // Bumped when the element changes, so renderers know to re-upload images
+  version = 0;
+
+  set(background: ChromaBackground | null) {
+    this.dispose();
+    this.version += 1;
+    if (!background || background.type === 'none') return;
+    if (background.type === 'color') {
+      this.color = background.color;
+      return;
+    }
+    if (background.type === 'image') {
+      const image = new Image();
+      // Storage serves CORS headers; WebGL refuses tainted textures
+      image.crossOrigin = 'anonymous';
+      image.onload = () => { this.version += 1; };
+      image.src = background.url;
+      this.element = image;
+      return;
+    }
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.src = background.url;
+    video.play().catch((error) => console.error('[ChromaKey] Background video failed to play:', error));
+    this.element = video;
+  }
+
+  ready(): boolean {
+    if (this.element instanceof HTMLImageElement) return this.element.complete && this.element.naturalWidth > 0;
+    if (this.element instanceof HTMLVideoElement) return this.element.readyState >= 2;
+    return false;
+  }
+
+  size(): { width: number; height: number } {
+    if (this.element instanceof HTMLImageElement) return { width: this.element.naturalWidth, height: this.element.naturalHeight };
+    if (this.element instanceof HTMLVideoElement) return { width: this.element.videoWidth, height: this.element.videoHeight };
+    return { width: 0, height: 0 };
+  }
+
+  dispose() {
+    if (this.element instanceof HTMLVideoElement) {
+      this.element.pause();
+      this.element.removeAttribute('src');
+      this.element.load();
+    }
+    this.element = null;
+    this.color = null;
+  }
+}
+
+// Scale and offset that crop a background to cover the target, like object-fit: cover
+function coverFit(source: { width: number; height: number }, targetWidth: number, targetHeight: number) {
+  const sourceAspect = source.width / source.height;
+  const targetAspect = targetWidth / targetHeight;
+  if (sourceAspect > targetAspect) {
+    const scale = targetAspect / sourceAspect;
+    return { scaleX: scale, scaleY: 1, offsetX: (1 - scale) / 2, offsetY: 0 };
+  }
+  const scale = sourceAspect / targetAspect;
+  return { scaleX: 1, scaleY: scale, offsetX: 0, offsetY: (1 - scale) / 2 };
+}
+
+function parseColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex.padEnd(6, '0');
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = vec2((a_position.x + 1.0) * 0.5, (1.0 - a_position.y) * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+out vec4 outColor;
+
+uniform sampler2D u_frame;
+uniform sampler2D u_background;
+// 0: transparent, 1: solid color, 2: image or video texture
+uniform int u_backgroundMode;
+uniform vec3 u_backgroundColor;
+uniform vec4 u_backgroundFit;
+uniform float u_minHue;
+uniform float u_maxHue;
+uniform float u_minSaturation;
+uniform float u_threshold;
+uniform float u_softness;
+uniform float u_spill;
+
+vec3 rgb2hsv(vec3 c) {
+  vec4 K = vec4(0.0, -1.0 / 3.0, 2.0 / 3.0, -1.0);
+  vec4 p = mix(vec4(c.bg, K.wz), vec4(c.gb, K.xy), step(c.b, c.g));
+  vec4 q = mix(vec4(p.xyw, c.r), vec4(c.r, p.yzx), step(p.x, c.r));
+  float d = q.x - min(q.w, q.y);
+  float e = 1.0e-10;
+  return vec3(abs(q.z + (q.w - q.y) / (6.0 * d + e)), d / (q.x + e), q.x);
+}
+
+void main() {
+  vec3 rgb = texture(u_frame, v_uv).rgb;
+  vec3 hsv = rgb2hsv(rgb);
+  float hue = hsv.x * 360.0;
+  float soft = max(u_softness, 0.001);
+
+  // Same tests as the canvas path, each widened into a ramp by the softness
+  float hueScore = smoothstep(u_minHue - 30.0 * soft, u_minHue, hue)
+    * (1.0 - smoothstep(u_maxHue, u_maxHue + 30.0 * soft, hue));
+  float saturationScore = smoothstep(u_minSaturation - 0.3 * soft, u_minSaturation, hsv.y);
+  float valueScore = smoothstep(0.15 - 0.1 * soft, 0.15, hsv.z);
+  float dominance = rgb.g - max(rgb.r, rgb.b) * u_threshold;
+  float dominanceScore = smoothstep(-0.2 * soft, 0.0, dominance);
+  float alpha = 1.0 - hueScore * saturationScore * valueScore * dominanceScore;
+
+  // Spill suppression: green light bounced onto the subject is pulled down
+  // towards the other two channels
+  rgb.g = mix(rgb.g, min(rgb.g, max(rgb.r, rgb.b)), u_spill);
+
+  if (u_backgroundMode == 1) {
+    outColor = vec4(mix(u_backgroundColor, rgb, alpha), 1.0);
+  } else if (u_backgroundMode == 2) {
+    vec3 background = texture(u_background, v_uv * u_backgroundFit.xy + u_backgroundFit.zw).rgb;
+    outColor = vec4(mix(background, rgb, alpha), 1.0);
+  } else {
+    // Premultiplied, to match the context
+    outColor = vec4(rgb * alpha, alpha);
+  }
+}`;
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Chroma key shader failed to compile: ${log}`);
+  }
+  return shader;
+}
+
+function createTexture(gl: WebGL2RenderingContext) {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  return texture;
+}
+
+class WebGLChromaKeyRenderer implements ChromaKeyRenderer {
+  readonly kind = 'webgl' as const;
+  private program: WebGLProgram;
+  private buffer: WebGLBuffer;
+  private frameTexture: WebGLTexture;
+  private backgroundTexture: WebGLTexture;
+  private uploadedBackgroundVersion = -1;
+  private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private background = new BackgroundSource();
+
+  constructor(readonly canvas: HTMLCanvasElement, private gl: WebGL2RenderingContext) {
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Chroma key program failed to link: ${gl.getProgramInfoLog(program)}`);
+    }
+    this.program = program;
+    gl.useProgram(program);
+
+    // One triangle strip covering the viewport
+    this.buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    for (const name of [
+      'u_frame', 'u_background', 'u_backgroundMode', 'u_backgroundColor', 'u_backgroundFit',
+      'u_minHue', 'u_maxHue', 'u_minSaturation', 'u_threshold', 'u_softness', 'u_spill'
+    ]) {
+      this.uniforms[name] = gl.getUniformLocation(program, name);
+    }
+    this.frameTexture = createTexture(gl);
+    this.backgroundTexture = createTexture(gl);
+    gl.uniform1i(this.uniforms.u_frame, 0);
+    gl.uniform1i(this.uniforms.u_background, 1);
+  }
+
+  setBackground(background: ChromaBackground | null) {
+    this.background.set(background);
+  }
+
+  render(video: HTMLVideoElement, config: ChromaKeyConfig) {
+    const { gl, canvas } = this;
+    if (video.readyState < 2 || !video.videoWidth) return;
+    if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    }
+    gl.viewport(0, 0, canvas.width, canvas.height);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.frameTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, video);
+
+    let mode = 0;
+    if (this.background.color) {
+      mode = 1;
+      gl.uniform3fv(this.uniforms.u_backgroundColor, parseColor(this.background.color));
+    } else if (this.background.element && this.background.ready()) {
+      mode = 2;
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.backgroundTexture);
+      // Video backgrounds change every frame; images only when replaced
+      const isVideo = this.background.element instanceof HTMLVideoElement;
+      if (isVideo || this.uploadedBackgroundVersion !== this.background.version) {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.background.element);
+        this.uploadedBackgroundVersion = this.background.version;
+      }
+      const fit = coverFit(this.background.size(), canvas.width, canvas.height);
+      gl.uniform4f(this.uniforms.u_backgroundFit, fit.scaleX, fit.scaleY, fit.offsetX, fit.offsetY);
+    }
+    gl.uniform1i(this.uniforms.u_backgroundMode, mode);
+
+    gl.uniform1f(this.uniforms.u_minHue, config.minHue);
+    gl.uniform1f(this.uniforms.u_maxHue, config.maxHue);
+    gl.uniform1f(this.uniforms.u_minSaturation, config.minSaturation);
+    gl.uniform1f(this.uniforms.u_threshold, config.threshold);
+    gl.uniform1f(this.uniforms.u_softness, config.softness ?? DEFAULT_SOFTNESS);
+    gl.uniform1f(this.uniforms.u_spill, config.spill ?? DEFAULT_SPILL);
+
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  dispose() {
+    this.background.dispose();
+    this.gl.deleteTexture(this.frameTexture);
+    this.gl.deleteTexture(this.backgroundTexture);
+    this.gl.deleteBuffer(this.buffer);
+    this.gl.deleteProgram(this.program);
+  }
+}
+
+// The original CPU path: hard-edged key, no spill suppression
+function applyChromaKey(
+  sourceVideo: HTMLVideoElement,
+  targetCanvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  options: ChromaKeyConfig
+) {
+  targetCanvas.width = sourceVideo.videoWidth;
+  targetCanvas.height = sourceVideo.videoHeight;
+  ctx.clearRect(0, 0, targetCanvas.width, targetCanvas.height);
+  ctx.drawImage(sourceVideo, 0, 0, targetCanvas.width, targetCanvas.height);
+  const imageData = ctx.getImageData(0, 0, targetCanvas.width, targetCanvas.height);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    // Convert RGB to HSV
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    let h = 0;
+    if (delta === 0) h = 0;
+    else if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h = Math.round(h * 60);
+    if (h < 0) h += 360;
+    const s = max === 0 ? 0 : delta / max;
+    const v = max / 255;
+    const isGreen =
+      h >= options.minHue &&
+      h <= options.maxHue &&
+      s > options.minSaturation &&
+      v > 0.15 &&
+      g > r * options.threshold &&
+      g > b * options.threshold;
+    if (isGreen) {
+      data[i + 3] = 0;
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
+class CanvasChromaKeyRenderer implements ChromaKeyRenderer {
+  readonly kind = 'canvas' as const;
+  private background = new BackgroundSource();
+
+  // standsInFor is the canvas this one replaces on the page, if any
+  constructor(
+    readonly canvas: HTMLCanvasElement,
+    private ctx: CanvasRenderingContext2D,
+    private standsInFor: HTMLCanvasElement | null = null
+  ) {}
+
+  setBackground(background: ChromaBackground | null) {
+    this.background.set(background);
+  }
+
+  render(video: HTMLVideoElement, config: ChromaKeyConfig) {
+    const { canvas, ctx, standsInFor } = this;
+    if (standsInFor) {
+      // The caller keeps styling the original, so its look is followed here
+      canvas.style.cssText = standsInFor.style.cssText;
+      canvas.style.visibility = 'visible';
+    }
+    if (video.readyState < 2) return;
+    applyChromaKey(video, canvas, ctx, config);
+
+    // Fill in behind the keyed frame
+    ctx.save();
+    ctx.globalCompositeOperation = 'destination-over';
+    if (this.background.color) {
+      ctx.fillStyle = this.background.color;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    } else if (this.background.element && this.background.ready()) {
+      const size = this.background.size();
+      const fit = coverFit(size, canvas.width, canvas.height);
+      ctx.drawImage(
+        this.background.element,
+        fit.offsetX * size.width, fit.offsetY * size.height, fit.scaleX * size.width, fit.scaleY * size.height,
+        0, 0, canvas.width, canvas.height
+      );
+    }
+    ctx.restore();
+  }
+
+  dispose() {
+    this.background.dispose();
+    if (this.standsInFor) {
+      this.canvas.remove();
+      this.standsInFor.style.visibility = '';
+    }
+  }
+}
+
+// A canvas keeps its first context type, so once WebGL2 has failed on the
+// original the canvas loop draws on a new canvas placed over it
+function createStandInRenderer(original: HTMLCanvasElement) {
+  const canvas = document.createElement('canvas');
+  canvas.className = original.className;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true, alpha: true });
+  if (!ctx) return null;
+  original.after(canvas);
+  original.style.visibility = 'hidden';
+  return new CanvasChromaKeyRenderer(canvas, ctx, original);
+}
+
+// WebGL2 when the browser has it, else the canvas loop
+export function createChromaKeyRenderer(canvas: HTMLCanvasElement): ChromaKeyRenderer | null {
+  const gl = canvas.getContext('webgl2', {
+    alpha: true,
+    premultipliedAlpha: true,
+    antialias: false,
+    failIfMajorPerformanceCaveat: false,
+    // The session recorder copies frames out of this canvas between renders
+    preserveDrawingBuffer: true
+  });
+  if (gl) {
+    try {
+      return new WebGLChromaKeyRenderer(canvas, gl);
+    } catch (error) {
+      console.error('[ChromaKey] WebGL setup failed, falling back to the canvas loop:', error);
+      return createStandInRenderer(canvas);
+    }
+  }
+  const ctx = canvas.getContext('2d', { willReadFrequently: true, alpha: true });
+  return ctx ? new CanvasChromaKeyRenderer(canvas, ctx) : null;
+}
+
+// --- Eyedropper ---
+
+export interface SampleRegion {
+  // In video pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Maps a point on an element showing the video with object-fit: cover to
+// video pixel coordinates
+export function toVideoCoordinates(video: HTMLVideoElement, clientX: number, clientY: number) {
+  const rect = video.getBoundingClientRect();
+  const scale = Math.max(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const offsetX = (rect.width - video.videoWidth * scale) / 2;
+  const offsetY = (rect.height - video.videoHeight * scale) / 2;
+  return {
+    x: Math.min(Math.max((clientX - rect.left - offsetX) / scale, 0), video.videoWidth - 1),
+    y: Math.min(Math.max((clientY - rect.top - offsetY) / scale, 0), video.videoHeight - 1)
+  };
+}
+
+// Copies the pixels of one region of the current frame
+export function sampleVideoRegion(video: HTMLVideoElement, region: SampleRegion): Uint8ClampedArray {
+  const width = Math.max(1, Math.round(region.width));
+  const height = Math.max(1, Math.round(region.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(video, Math.round(region.x), Math.round(region.y), width, height, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+const HUE_MARGIN = 12;
+const SATURATION_MARGIN = 0.1;
+const THRESHOLD_MARGIN = 0.9;
+
+// A config whose key covers every sampled pixel with some headroom. Softness
+// and spill are kept from the current config.
+export function deriveChromaKeyConfig(pixels: Uint8ClampedArray, current: ChromaKeyConfig): ChromaKeyConfig {
+  let minHue = 360;
+  let maxHue = 0;
+  let minSaturation = 1;
+  let minDominance = Infinity;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    if (delta === 0) continue;
+    let h;
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+    minHue = Math.min(minHue, h);
+    maxHue = Math.max(maxHue, h);
+    minSaturation = Math.min(minSaturation, delta / max);
+    minDominance = Math.min(minDominance, g / Math.max(r, b, 1));
+  }
+  if (minHue > maxHue) return current;
+
+  return {
+    ...current,
+    minHue: Math.max(0, Math.floor(minHue - HUE_MARGIN)),
+    maxHue: Math.min(360, Math.ceil(maxHue + HUE_MARGIN)),
+    minSaturation: Math.max(0, Number((minSaturation - SATURATION_MARGIN).toFixed(2))),
+    threshold: Math.min(2, Math.max(0.5, Number((minDominance * THRESHOLD_MARGIN).toFixed(2))))
+  };
+}
@@ -0,0 +1,118 @@
+import type { ChatMessage } from '@/lib/supabase/conversations';
+
+// Readable exports of a conversation. The JSON export that can be imported
+// again lives with the conversation queries in lib/supabase/conversations.
+
+export type HistoryExportFormat = 'json' | 'csv' | 'markdown' | 'pdf';
+
+const CSV_COLUMNS = ['created_at', 'question', 'response', 'status', 'error', 'tools'];
+
+function displayTime(message: ChatMessage) {
+  return new Date(message.createdAt).toLocaleString();
+}
+
+// Finished answers need no note; anything else says how it ended
+function statusNote(message: ChatMessage) {
+  if (message.status === 'done') return '';
+  return message.error ? `${message.status}: ${message.error}` : message.status;
+}
+
+function toolNames(message: ChatMessage) {
+  return (message.toolCalls ?? []).map((call) => call.name).join(', ');
+}
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, quotes doubled
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportHistoryCsv(messages: ChatMessage[]) {
+  const rows = messages.map((message) => [
+    message.createdAt,
+    message.question,
+    message.response,
+    message.status,
+    message.error ?? '',
+    toolNames(message)
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Answers are markdown already, so they go in as they are
+export function exportHistoryMarkdown(avatarId: string, messages: ChatMessage[]) {
+  const sections = messages.map((message) => {
+    const notes = [
+      statusNote(message) ? `_${statusNote(message)}_` : '',
+      toolNames(message) ? `_Tools: ${toolNames(message)}_` : ''
+    ].filter(Boolean);
+    return [
+      `## ${displayTime(message)}`,
+      `**Question:** ${message.question}`,
+      `**Answer:**\n\n${message.response || '_No answer_'}`,
+      ...notes
+    ].join('\n\n');
+  });
+  return [
+    `# Conversation with ${avatarId}`,
+    `_Exported ${new Date().toLocaleString()}, ${messages.length} messages_`,
+    ...sections
+  ].join('\n\n') + '\n';
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Fills a window opened by the caller with a print-ready transcript and opens
+// the print dialog, where it can be saved as a PDF. The window has to be opened
+// straight from the click, before any awaits, or popup blockers stop it.
+export function printHistoryTranscript(printWindow: Window, avatarId: string, messages: ChatMessage[]) {
+  const title = `Conversation with ${avatarId}`;
+  const entries = messages.map((message) => `
+    <section>
+      <p class="time">${escapeHtml(displayTime(message))}${statusNote(message) ? ` · ${escapeHtml(statusNote(message))}` : ''}</p>
+      <p class="question">${escapeHtml(message.question)}</p>
+      <p class="answer">${escapeHtml(message.response || 'No answer')}</p>
+    </section>`).join('');
+  printWindow.document.open();
+  printWindow.document.write(`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+      h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+      .exported, .time { color: #666; font-size: 0.8rem; }
+      section { border-top: 1px solid #ddd; padding: 0.75rem 0; break-inside: avoid; }
+      .question { font-weight: 600; }
+      .answer { white-space: pre-wrap; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="exported">Exported ${escapeHtml(new Date().toLocaleString())}, ${messages.length} messages</p>
+    ${entries}
+  </body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+export function downloadFile(contents: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function historyFileName(avatarId: string, extension: string) {
+  return `${avatarId}-conversation-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
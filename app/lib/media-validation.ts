@@ -0,0 +1,105 @@
+// Checks uploaded clips and preview images in the browser before they go to
+// Storage. Clips are probed by decoding their first frame in a video element.
+
+export interface ClipInfo {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+export const CLIP_TYPES = ['video/mp4', 'video/webm'];
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const MIN_CLIP_SECONDS = 0.5;
+const MAX_CLIP_SECONDS = 30;
+const MIN_CLIP_HEIGHT = 480;
+const MAX_CLIP_WIDTH = 3840;
+const MAX_CLIP_BYTES = 100 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export class MediaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
+
+// Metadata comes from the container alone; a first frame means the codec
+// inside decodes too
+function probeVideo(src: string, name: string, { decodeFrame }: { decodeFrame: boolean }): Promise<ClipInfo> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = decodeFrame ? 'auto' : 'metadata';
+    video.muted = true;
+    const done = () => {
+      video.removeAttribute('src');
+      video.load();
+    };
+    const loaded = () => {
+      const info = { durationSeconds: video.duration, width: video.videoWidth, height: video.videoHeight };
+      done();
+      resolve(info);
+    };
+    if (decodeFrame) {
+      video.onloadeddata = loaded;
+    } else {
+      video.onloadedmetadata = loaded;
+    }
+    video.onerror = () => {
+      done();
+      reject(new MediaValidationError(`${name} could not be decoded by this browser`));
+    };
+    video.src = src;
+  });
+}
+
+async function probeClip(file: File): Promise<ClipInfo> {
+  const url = URL.createObjectURL(file);
+  try {
+    return await probeVideo(url, file.name, { decodeFrame: true });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Duration and size of a clip already in Storage, from its metadata
+export function probeStoredClip(url: string): Promise<ClipInfo> {
+  return probeVideo(url, url, { decodeFrame: false });
+}
+
+// Resolves with the clip's duration and size, or rejects with a
+// MediaValidationError describing the first problem found
+export async function validateClip(file: File, { maxSeconds = MAX_CLIP_SECONDS } = {}): Promise<ClipInfo> {
+  if (!CLIP_TYPES.includes(file.type)) {
+    throw new MediaValidationError(`${file.name} must be an MP4 or WebM video`);
+  }
+  // Rules out containers this browser cannot play at all; the codec is
+  // checked when the probe decodes a frame
+  if (!document.createElement('video').canPlayType(file.type)) {
+    throw new MediaValidationError(`${file.name} uses a format this browser cannot play`);
+  }
+  if (file.size > MAX_CLIP_BYTES) {
+    throw new MediaValidationError(`${file.name} is larger than 100 MB`);
+  }
+
+  const info = await probeClip(file);
+  if (!info.width || !info.height) {
+    throw new MediaValidationError(`${file.name} has no video track`);
+  }
+  if (!Number.isFinite(info.durationSeconds) || info.durationSeconds < MIN_CLIP_SECONDS || info.durationSeconds > maxSeconds) {
+    throw new MediaValidationError(`${file.name} must be between ${MIN_CLIP_SECONDS} and ${maxSeconds} seconds long`);
+  }
+  if (info.height < MIN_CLIP_HEIGHT || info.width > MAX_CLIP_WIDTH) {
+    throw new MediaValidationError(`${file.name} is ${info.width}x${info.height}; use at least ${MIN_CLIP_HEIGHT}p and at most 4K`);
+  }
+  return info;
+}
+
+export function validateImage(file: File) {
+  if (!IMAGE_TYPES.includes(file.type)) {
+    throw new MediaValidationError(`${file.name} must be a JPEG, PNG or WebP image`);
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new MediaValidationError(`${file.name} is larger than 5 MB`);
+  }
+}
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import type { ChatMessage } from '@/lib/supabase/conversations';
+import type { ChromaKeyConfig } from '@/lib/supabase/avatar-settings';
+
+export type { ChromaKeyConfig };
+
+export type AvatarPhase = 'idle' | 'to_live' | 'stream' | 'to_idle';
+
+// Chroma-key tuning tools shown on the avatar screen
+export type ChromaTool = 'eyedropper' | 'split_view';
+
+// Everything the avatar window and the chat window say to each other
+export type BusMessage =
+  // requestId becomes the message's ID; asking again with a failed message's
+  // ID retries it
+  | { type: 'chat_request'; requestId: string; question: string }
+  // The avatar screen could not answer; the message is marked failed
+  | { type: 'chat_failed'; requestId: string; error: string }
+  | { type: 'response_chunk'; requestId: string; question: string; text: string }
+  | { type: 'speaking_started'; question: string }
+  | { type: 'speaking_ended'; question: string }
+  // Stop the avatar mid-answer and drop anything still queued
+  | { type: 'interrupt' }
+  | { type: 'phase_change'; phase: AvatarPhase }
+  | { type: 'config_change'; config: ChromaKeyConfig }
+  | { type: 'chroma_tool'; tool: ChromaTool; enabled: boolean }
+  | { type: 'history_request' }
+  | { type: 'history_clear' }
+  | { type: 'history_sync'; conversationId: string | null; messages: ChatMessage[] }
+  // Continue this conversation; new conversations start a new assistant thread
+  | { type: 'conversation_select'; conversationId: string }
+  // A session recording finished uploading
+  | { type: 'recording_saved'; conversationId: string };
+
+type BusHandler = (message: BusMessage) => void;
+
+export interface MessageBusOptions {
+  // Also join the Supabase Realtime channel for this paired avatar screen
+  pairingCode?: string | null;
+  // Use BroadcastChannel/storage events between windows of this browser
+  local?: boolean;
+  // Keeps the windows of one avatar apart from another avatar's screen open
+  // in the same browser
+  avatarId?: string | null;
+  // Called once the Realtime channel has joined and can receive replies
+  onRemoteJoined?: () => void;
+}
+
+// A UUID, so a chat request's ID can also be the saved message's ID.
+// randomUUID needs a secure context, which a kiosk on a LAN address may lack.
+export function createMessageId() {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Letters and digits that cannot be misread on a kiosk screen
+const PAIRING_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE_LENGTH = 6;
+
+// Codes are claimed on the server before use, and wrong guesses are limited
+// there, but they should still not be predictable
+export function createPairingCode() {
+  const values = crypto.getRandomValues(new Uint32Array(PAIRING_CODE_LENGTH));
+  return Array.from(values, (value) => PAIRING_ALPHABET[value % PAIRING_ALPHABET.length]).join('');
+}
+
+// Uppercases and strips anything a user might type around the code
+export function normalizePairingCode(input: string) {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+const CHANNEL_NAME = 'avatar-message-bus';
+// Used only where BroadcastChannel is missing
+const STORAGE_KEY = 'avatarMessageBus';
+const REALTIME_EVENT = 'bus';
+
+// Message bus between an avatar screen and its chat consoles. Windows of the
+// same browser talk over a BroadcastChannel per avatar, falling back to
+// storage events; paired devices talk over a private Supabase Realtime
+// broadcast channel that only the screen and the consoles that joined its
+// pairing code can use. Every post is delivered, including a repeat of the
+// previous message.
+export class MessageBus {
+  private channel: BroadcastChannel | null = null;
+  private realtime: RealtimeChannel | null = null;
+  private useStorage = false;
+  private storageKey: string;
+  private handlers = new Set<BusHandler>();
+
+  constructor({ pairingCode, local = true, avatarId = null, onRemoteJoined }: MessageBusOptions = {}) {
+    const scope = avatarId ? `:${avatarId}` : '';
+    this.storageKey = `${STORAGE_KEY}${scope}`;
+    if (local && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`${CHANNEL_NAME}${scope}`);
+      this.channel.onmessage = (event: MessageEvent<BusMessage>) => this.dispatch(event.data);
+    } else if (local) {
+      this.useStorage = true;
+      window.addEventListener('storage', this.handleStorage);
+    }
+
+    if (pairingCode) {
+      const supabase = createClient();
+      this.realtime = supabase
+        .channel(`avatar-session:${pairingCode}`, { config: { broadcast: { self: false }, private: true } })
+        .on('broadcast', { event: REALTIME_EVENT }, ({ payload }) => this.dispatch(payload as BusMessage));
+      // Private channels are authorized with the user's token, so it has to be
+      // set before joining
+      const realtime = this.realtime;
+      supabase.auth.getSession().then(({ data }) => {
+        if (this.realtime !== realtime) return;
+        supabase.realtime.setAuth(data.session?.access_token ?? null);
+        realtime.subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            onRemoteJoined?.();
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.error(`[MessageBus] Realtime channel ${status} for pairing code ${pairingCode}`);
+          }
+        });
+      });
+    }
+  }
+
+  post(message: BusMessage) {
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else if (this.useStorage) {
+      // A unique envelope guarantees the storage event fires for identical messages
+      localStorage.setItem(this.storageKey, JSON.stringify({
+        id: createMessageId(),
+        message
+      }));
+    }
+    if (this.realtime) {
+      this.realtime
+        .send({ type: 'broadcast', event: REALTIME_EVENT, payload: message })
+        .catch((error) => console.error('[MessageBus] Failed to send realtime message:', error));
+    }
+  }
+
+  subscribe(handler: BusHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  close() {
+    this.handlers.clear();
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.useStorage) {
+      window.removeEventListener('storage', this.handleStorage);
+      this.useStorage = false;
+    }
+    if (this.realtime) {
+      this.realtime.unsubscribe();
+      this.realtime = null;
+    }
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== this.storageKey || !event.newValue) return;
+    try {
+      this.dispatch(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('[MessageBus] Failed to parse message:', error);
+    }
+  };
+
+  private dispatch(message: BusMessage) {
+    this.handlers.forEach((handler) => handler(message));
+  }
+}
+
+// Opens a bus for the lifetime of the component and returns a stable post
+// function. The handler always sees the latest render's state. The bus is
+// reopened when the pairing code, local flag or avatar changes.
+export function useMessageBus(onMessage?: BusHandler, options: MessageBusOptions = {}) {
+  const { pairingCode = null, local = true, avatarId = null } = options;
+  const busRef = useRef<MessageBus | null>(null);
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+  const onRemoteJoinedRef = useRef(options.onRemoteJoined);
+  onRemoteJoinedRef.current = options.onRemoteJoined;
+
+  useEffect(() => {
+    const bus = new MessageBus({
+      pairingCode,
+      local,
+      avatarId,
+      onRemoteJoined: () => onRemoteJoinedRef.current?.()
+    });
+    busRef.current = bus;
+    const unsubscribe = bus.subscribe((message) => handlerRef.current?.(message));
+    return () => {
+      unsubscribe();
+      bus.close();
+      busRef.current = null;
+    };
+  }, [pairingCode, local, avatarId]);
+
+  return useCallback((message: BusMessage) => {
+    busRef.current?.post(message);
+  }, []);
+}
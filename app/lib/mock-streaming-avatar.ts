@@ -0,0 +1,200 @@
+import {
+  type EventHandler,
+  type SpeakRequest,
+  type StartAvatarRequest,
+  StreamingEvents
+} from '@heygen/streaming-avatar';
+
+// The part of the HeyGen SDK the avatar screen uses. Both the real
+// StreamingAvatar and MockStreamingAvatar satisfy it.
+export interface StreamingAvatarClient {
+  createStartAvatar(request: StartAvatarRequest): Promise<any>;
+  speak(request: SpeakRequest): Promise<any>;
+  interrupt(): Promise<any>;
+  stopAvatar(): Promise<any>;
+  on(eventType: string, listener: EventHandler): unknown;
+  off(eventType: string, listener: EventHandler): unknown;
+}
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const FRAME_RATE = 30;
+const CONNECT_DELAY_MS = 500;
+// Roughly 150 words a minute at rate 1
+const MS_PER_WORD = 400;
+const MIN_SPEAK_MS = 600;
+
+interface SpeakTask {
+  taskId: string;
+  durationMs: number;
+}
+
+// Offline stand-in for HeyGen's StreamingAvatar. The "video" is a cartoon face
+// on a green background drawn into a canvas and captured as a MediaStream, so
+// chroma keying works on it too. Speaking takes a time derived from the word
+// count, with the same STREAM_READY / AVATAR_START_TALKING /
+// AVATAR_STOP_TALKING events the real SDK emits.
+export class MockStreamingAvatar implements StreamingAvatarClient {
+  private eventTarget = new EventTarget();
+  private canvas: HTMLCanvasElement | null = null;
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private toneGain: GainNode | null = null;
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+  private speakTimer: ReturnType<typeof setTimeout> | null = null;
+  private tasks: SpeakTask[] = [];
+  private currentTask: SpeakTask | null = null;
+  private voiceRate = 1;
+  private avatarName = '';
+  private nextTaskId = 1;
+
+  // Same signature as the real SDK; the token is not checked
+  constructor(_config: { token: string; basePath?: string }) {}
+
+  on(eventType: string, listener: EventHandler) {
+    this.eventTarget.addEventListener(eventType, listener);
+    return this;
+  }
+
+  off(eventType: string, listener: EventHandler) {
+    this.eventTarget.removeEventListener(eventType, listener);
+    return this;
+  }
+
+  async createStartAvatar(request: StartAvatarRequest) {
+    console.log('[MockStreamingAvatar] Starting session for', request.avatarName);
+    this.avatarName = request.avatarName;
+    this.voiceRate = request.voice?.rate || 1;
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+    this.stream = this.createStream();
+    // The real SDK reports the stream after createStartAvatar has resolved
+    setTimeout(() => this.emit(StreamingEvents.STREAM_READY, this.stream), 0);
+    return { session_id: `mock-session-${Date.now()}` };
+  }
+
+  // Resolves once the task is queued, like the real SDK; the talking events
+  // follow while the task plays
+  async speak(request: SpeakRequest) {
+    if (!this.stream) {
+      throw new Error('Mock avatar session has not been started');
+    }
+    const words = request.text.trim().split(/\s+/).filter(Boolean).length;
+    const task = {
+      taskId: `mock-task-${this.nextTaskId++}`,
+      durationMs: Math.max(MIN_SPEAK_MS, (words * MS_PER_WORD) / this.voiceRate)
+    };
+    this.tasks.push(task);
+    if (!this.currentTask) this.playNextTask();
+    return { task_id: task.taskId };
+  }
+
+  async interrupt() {
+    this.tasks = [];
+    if (this.currentTask) this.finishTask();
+  }
+
+  async stopAvatar() {
+    console.log('[MockStreamingAvatar] Stopping session');
+    this.tasks = [];
+    this.currentTask = null;
+    if (this.speakTimer) clearTimeout(this.speakTimer);
+    if (this.frameTimer) clearInterval(this.frameTimer);
+    this.speakTimer = null;
+    this.frameTimer = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+  }
+
+  // For tests, through window.avatar: behave as if the connection to HeyGen dropped
+  simulateDisconnect() {
+    console.log('[MockStreamingAvatar] Simulating a dropped stream');
+    this.stopAvatar();
+    this.emit(StreamingEvents.STREAM_DISCONNECTED);
+  }
+
+  private emit(eventType: string, detail?: unknown) {
+    this.eventTarget.dispatchEvent(new CustomEvent(eventType, { detail }));
+  }
+
+  private playNextTask() {
+    const task = this.tasks.shift();
+    this.currentTask = task ?? null;
+    if (!task) return;
+    this.setTone(true);
+    this.emit(StreamingEvents.AVATAR_START_TALKING, { task_id: task.taskId });
+    this.speakTimer = setTimeout(() => this.finishTask(), task.durationMs);
+  }
+
+  private finishTask() {
+    const task = this.currentTask;
+    if (this.speakTimer) clearTimeout(this.speakTimer);
+    this.speakTimer = null;
+    this.currentTask = null;
+    this.setTone(false);
+    if (task) this.emit(StreamingEvents.AVATAR_STOP_TALKING, { task_id: task.taskId });
+    this.playNextTask();
+  }
+
+  private createStream() {
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    this.canvas = canvas;
+    this.drawFrame(0);
+    let frame = 0;
+    this.frameTimer = setInterval(() => this.drawFrame(++frame), 1000 / FRAME_RATE);
+    const stream = canvas.captureStream(FRAME_RATE);
+
+    // A quiet tone while talking gives the stream an audio track to record
+    try {
+      const audioContext = new AudioContext();
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      const destination = audioContext.createMediaStreamDestination();
+      oscillator.frequency.value = 220;
+      gain.gain.value = 0;
+      oscillator.connect(gain).connect(destination);
+      oscillator.start();
+      destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+      this.audioContext = audioContext;
+      this.toneGain = gain;
+    } catch (error) {
+      console.warn('[MockStreamingAvatar] No audio track:', error);
+    }
+    return stream;
+  }
+
+  private setTone(talking: boolean) {
+    if (this.toneGain) this.toneGain.gain.value = talking ? 0.02 : 0;
+  }
+
+  private drawFrame(frame: number) {
+    const context = this.canvas?.getContext('2d');
+    if (!context) return;
+    context.fillStyle = '#00b140';
+    context.fillRect(0, 0, WIDTH, HEIGHT);
+
+    const centerX = WIDTH / 2;
+    const centerY = HEIGHT / 2;
+    context.fillStyle = '#f2c9a0';
+    context.beginPath();
+    context.arc(centerX, centerY, 110, 0, Math.PI * 2);
+    context.fill();
+
+    // Blink every few seconds
+    const eyeHeight = frame % 120 < 4 ? 2 : 12;
+    context.fillStyle = '#222';
+    context.fillRect(centerX - 50, centerY - 40, 20, eyeHeight);
+    context.fillRect(centerX + 30, centerY - 40, 20, eyeHeight);
+
+    const mouthOpen = this.currentTask ? 6 + Math.abs(Math.sin(frame / 3)) * 24 : 4;
+    context.fillStyle = '#8b1e2d';
+    context.fillRect(centerX - 40, centerY + 40, 80, mouthOpen);
+
+    context.fillStyle = '#fff';
+    context.font = '16px sans-serif';
+    context.fillText(`Mock avatar: ${this.avatarName}`, 16, HEIGHT - 16);
+  }
+}
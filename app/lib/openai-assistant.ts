@@ -1,72 +1,110 @@
-import OpenAI from "openai";
-
-function sanitizeAssistantResponse(response: string): string {
-  // Remove all 【...】 patterns (citations)
-  response = response.replace(/【[^】]+】/g, '');
-  // Remove trailing [1], (1), etc.
-  response = response.replace(/\s*\[\d+\]$/g, '').replace(/\s*\([^\)]*\)$/g, '');
-  // Cut off at the first code block or markdown symbol
-  const cutSymbols = ['```', '~~~', '**', '__', '==', '--', '##', '###', '=>', '{', '}', '[', ']', '<', '>', ';', '|', '---'];
-  let minIdx = response.length;
-  for (const sym of cutSymbols) {
-    const idx = response.indexOf(sym);
-    if (idx !== -1 && idx < minIdx) minIdx = idx;
-  }
-  // Also cut off at the first line that looks like a list or table
-  const lines = response.split('\n');
-  for (let i = 0; i < lines.length; i++) {
-    if (/^\s*[-*#]|\|/.test(lines[i]) || /^[\s\d]*[\-\*\.]\s/.test(lines[i])) {
-      minIdx = Math.min(minIdx, response.indexOf(lines[i]));
-      break;
-    }
-  }
-  return response.slice(0, minIdx).trim();
-}
+import type { AssistantStreamEvent } from '@/lib/openai/assistant';
 
+// Browser-side handle on an assistant thread. All OpenAI calls go through the
+// /api/assistant routes so the API key and assistant ID stay on the server.
 export class OpenAIAssistant {
-  private client: OpenAI;
-  private assistantId: string;
-  private thread: any;
+  private threadId: string | null = null;
+  private streamController: AbortController | null = null;
 
-  constructor(apiKey: string, assistantId: string) {
-    this.client = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
-    this.assistantId = assistantId;
-  }
+  // The server answers with this avatar's configured assistant, if it has one
+  constructor(private avatarId: string | null = null) {}
 
-  async initialize() {
-    // Create a new thread only
-    this.thread = await this.client.beta.threads.create();
-  }
+  // Resume an existing thread, or create a new one when none is given.
+  // Returns the thread ID so callers can persist it.
+  async initialize(existingThreadId?: string | null): Promise<string> {
+    if (existingThreadId) {
+      this.threadId = existingThreadId;
+      return existingThreadId;
+    }
 
-  async getResponse(userMessage: string): Promise<string> {
-    if (!this.assistantId || !this.thread) {
-      throw new Error("Assistant or thread not initialized. Call initialize() first.");
+    const response = await fetch("/api/assistant/thread", { method: "POST" });
+    if (!response.ok) {
+      throw new Error(`Failed to create thread: ${response.statusText}`);
     }
+    const { threadId } = await response.json();
+    this.threadId = threadId;
+    return threadId;
+  }
 
-    // Add user message to the thread
-    await this.client.beta.threads.messages.create(this.thread.id, {
-      role: "user",
-      content: userMessage,
+  // Starts a new thread that already holds these exchanges, e.g. from an
+  // imported conversation, and returns its ID
+  async initializeWithHistory(messages: { question: string; response: string }[]): Promise<string> {
+    const response = await fetch("/api/assistant/thread", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages }),
     });
+    if (!response.ok) {
+      throw new Error(`Failed to create thread: ${response.statusText}`);
+    }
+    const { threadId } = await response.json();
+    this.threadId = threadId;
+    return threadId;
+  }
 
-    // Run the assistant with the existing assistant ID
-    const run = await this.client.beta.threads.runs.createAndPoll(
-      this.thread.id,
-      { assistant_id: this.assistantId }
-    );
+  // Streaming mode: yields text deltas as the assistant generates them.
+  // Ends early, without an error, when cancel() is called. messageId is the
+  // history entry for this question; the server records the run and any tool
+  // calls on it. A failed run throws with the server's reason.
+  async *streamResponse(userMessage: string, messageId?: string): AsyncGenerator<string> {
+    if (!this.threadId) {
+      throw new Error("Assistant or thread not initialized. Call initialize() first.");
+    }
 
-    if (run.status === "completed") {
-      // Get the assistant's response
-      const messages = await this.client.beta.threads.messages.list(this.thread.id);
+    const controller = new AbortController();
+    this.streamController = controller;
+    try {
+      const response = await fetch("/api/assistant/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ threadId: this.threadId, message: userMessage, avatarId: this.avatarId, messageId }),
+        signal: controller.signal,
+      });
 
-      // Find the latest assistant message
-      const lastMessage = messages.data.find((msg) => msg.role === "assistant");
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to stream assistant response: ${response.statusText}`);
+      }
 
-      if (lastMessage && lastMessage.content[0].type === "text") {
-        return sanitizeAssistantResponse(lastMessage.content[0].text.value);
+      // One JSON event per line; a line may span several chunks
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line) continue;
+          const event: AssistantStreamEvent = JSON.parse(line);
+          if (event.type === 'error') throw new Error(event.error);
+          if (event.text) yield event.text;
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      throw error;
+    } finally {
+      if (this.streamController === controller) {
+        this.streamController = null;
       }
     }
+  }
+
+  // Stop the answer in progress. Resolves once the thread accepts a new message.
+  async cancel(): Promise<void> {
+    this.streamController?.abort();
+    this.streamController = null;
+    if (!this.threadId) return;
 
-    return "Sorry, I couldn't process your request.";
+    const response = await fetch("/api/assistant/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId: this.threadId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to cancel assistant run: ${response.statusText}`);
+    }
   }
-} 
\ No newline at end of file
+}
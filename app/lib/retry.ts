@@ -0,0 +1,51 @@
+export interface BackoffOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+}
+
+export const DEFAULT_BACKOFF_OPTIONS: BackoffOptions = {
+  maxAttempts: 4,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+  factor: 2,
+};
+
+// Delay to wait after the given (1-based) failed attempt
+export function backoffDelay(attempt: number, options: BackoffOptions): number {
+  return Math.min(options.initialDelayMs * Math.pow(options.factor, attempt - 1), options.maxDelayMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Retry aborted'));
+    }, { once: true });
+  });
+}
+
+// Runs task until it succeeds, waiting longer after each failure. Throws the
+// last error once maxAttempts is reached, or as soon as signal is aborted.
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  options: BackoffOptions = DEFAULT_BACKOFF_OPTIONS,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: unknown = new Error('No attempts made');
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    if (signal?.aborted) throw new Error('Retry aborted');
+    try {
+      return await task(attempt);
+    } catch (error) {
+      lastError = error;
+      console.warn(`[retryWithBackoff] Attempt ${attempt} of ${options.maxAttempts} failed:`, error);
+    }
+    if (attempt < options.maxAttempts) {
+      await sleep(backoffDelay(attempt, options), signal);
+    }
+  }
+  throw lastError;
+}
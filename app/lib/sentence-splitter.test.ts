@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { SentenceSplitter } from './sentence-splitter';
+
+function split(deltas: string[]) {
+  const splitter = new SentenceSplitter();
+  const sentences = deltas.flatMap((delta) => splitter.push(delta));
+  return [...sentences, splitter.flush()];
+}
+
+describe('SentenceSplitter', () => {
+  it.each([
+    ['a decimal point', ['It costs 3.5 dollars. Then more.'], ['It costs 3.5 dollars. ', 'Then more.']],
+    ['a decimal split across deltas', ['It is 3', '.', '5 km away. ', 'Ok'], ['It is 3.5 km away. ', 'Ok']],
+    ['a version number', ['Version 1.2.3 is out. Update now.'], ['Version 1.2.3 is out. ', 'Update now.']],
+    ['an abbreviation', ['Dr. Smith is 1.8 m tall. Yes!'], ['Dr. Smith is 1.8 m tall. ', 'Yes!']],
+    ['ordered list markers', ['Steps:\n1. Open it.\n2. Close it.\n'], ['Steps:\n', '1. Open it.\n', '2. Close it.\n', '']],
+  ])('does not split at %s', (_, deltas, sentences) => {
+    expect(split(deltas)).toEqual(sentences);
+  });
+
+  it('reproduces the input when joined', () => {
+    const text = 'Open Mon–Fri, 9am-5pm. We served 1,000 guests!\n\nSee you at 10.30 a.m. tomorrow.';
+    expect(split(text.match(/[^]{1,4}/g)!).join('')).toBe(text);
+  });
+});
@@ -0,0 +1,44 @@
+// Abbreviations that end in a period but almost never end a sentence.
+const ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'etc', 'e.g', 'i.e', 'approx', 'no'];
+
+function endsWithAbbreviation(text: string): boolean {
+  // A bare list marker such as "1." is not a sentence on its own
+  if (/^\s*\d+\.$/.test(text)) return true;
+  const match = text.match(/([A-Za-z.]+)\.$/);
+  if (!match) return false;
+  const word = match[1].toLowerCase();
+  // Single letters are usually initials ("J. Smith")
+  return word.length === 1 || ABBREVIATIONS.includes(word);
+}
+
+// Buffers streamed text and hands back whole sentences as soon as they end.
+// Returned sentences keep their trailing whitespace, so joining everything
+// push() and flush() return reproduces the input exactly.
+export class SentenceSplitter {
+  private buffer = '';
+
+  push(delta: string): string[] {
+    this.buffer += delta;
+    const sentences: string[] = [];
+    const boundary = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      if (match[0][0] === '.' && endsWithAbbreviation(this.buffer.slice(start, match.index + 1))) continue;
+      // Leading blank lines are carried into the next sentence
+      if (!this.buffer.slice(start, end).trim()) continue;
+      sentences.push(this.buffer.slice(start, end));
+      start = end;
+    }
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  // Returns whatever is left once the stream has ended
+  flush(): string {
+    const rest = this.buffer;
+    this.buffer = '';
+    return rest;
+  }
+}
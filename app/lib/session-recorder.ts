@@ -0,0 +1,181 @@
+// Records what the avatar screen shows into a webm file. Each frame copies
+// whichever element is visible (idle loop, transition clip, or the keyed
+// stream canvas) onto an offscreen canvas, and the avatar's audio is mixed in
+// through Web Audio so it survives reconnections. Captions are collected as
+// timed cues and written out as WebVTT.
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+// Questions stay on screen until the answer starts, but no longer than this
+const QUESTION_CUE_MAX_MS = 5000;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export type RecordingSource = HTMLVideoElement | HTMLCanvasElement;
+
+export interface CaptionCue {
+  startMs: number;
+  endMs: number;
+  speaker: string;
+  text: string;
+}
+
+export interface FinishedRecording {
+  video: Blob;
+  captions: string;
+  durationMs: number;
+}
+
+function formatTimestamp(ms: number) {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+}
+
+function escapeCueText(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Speakers become WebVTT voice spans, which players can style or announce
+export function buildWebVtt(cues: CaptionCue[]) {
+  const blocks = cues
+    .filter((cue) => cue.text.trim() && cue.endMs > cue.startMs)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.startMs)} --> ${formatTimestamp(cue.endMs)}`,
+      `<v ${escapeCueText(cue.speaker)}>${escapeCueText(cue.text.trim())}`
+    ].join('\n'));
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function isRecordingSupported() {
+  return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+function dimensions(source: RecordingSource) {
+  return source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+}
+
+export class SessionRecorder {
+  private canvas = document.createElement('canvas');
+  private context: CanvasRenderingContext2D;
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private audioSource: MediaStreamAudioSourceNode | null = null;
+  private stream: MediaStream;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private frameTimer: ReturnType<typeof setInterval>;
+  private startedAt = performance.now();
+  private cues: CaptionCue[] = [];
+  private openCue: (Omit<CaptionCue, 'endMs'> & { maxEndMs: number }) | null = null;
+
+  // getSource is asked for the visible element on every frame
+  constructor(private getSource: () => RecordingSource | null) {
+    this.canvas.width = WIDTH;
+    this.canvas.height = HEIGHT;
+    this.context = this.canvas.getContext('2d')!;
+    this.drawFrame();
+    this.frameTimer = setInterval(() => this.drawFrame(), 1000 / FRAME_RATE);
+
+    const stream = this.canvas.captureStream(FRAME_RATE);
+    this.stream = stream;
+    try {
+      this.audioContext = new AudioContext();
+      this.audioDestination = this.audioContext.createMediaStreamDestination();
+      this.audioDestination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+    } catch (error) {
+      console.warn('[SessionRecorder] Recording without audio:', error);
+    }
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(1000);
+    console.log('[SessionRecorder] Recording started as', this.recorder.mimeType);
+  }
+
+  // The avatar's audio; called again with the new stream after a reconnect
+  setAudioStream(stream: MediaStream | null) {
+    this.audioSource?.disconnect();
+    this.audioSource = null;
+    if (!stream || !this.audioContext || !this.audioDestination || stream.getAudioTracks().length === 0) return;
+    this.audioContext.resume().catch(() => {});
+    this.audioSource = this.audioContext.createMediaStreamSource(stream);
+    this.audioSource.connect(this.audioDestination);
+  }
+
+  // Shows text from now until the next caption or endCaption()
+  caption(speaker: string, text: string, maxDurationMs = Infinity) {
+    const now = this.elapsedMs();
+    this.endCaption();
+    this.openCue = { startMs: now, speaker, text, maxEndMs: now + maxDurationMs };
+  }
+
+  captionQuestion(question: string) {
+    this.caption('User', question, QUESTION_CUE_MAX_MS);
+  }
+
+  endCaption() {
+    if (!this.openCue) return;
+    const { maxEndMs, ...cue } = this.openCue;
+    this.cues.push({ ...cue, endMs: Math.min(this.elapsedMs(), maxEndMs) });
+    this.openCue = null;
+  }
+
+  // Stops recording and resolves with the video and its captions
+  stop(): Promise<FinishedRecording> {
+    this.endCaption();
+    const durationMs = this.elapsedMs();
+    clearInterval(this.frameTimer);
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.audioSource?.disconnect();
+        this.audioContext?.close().catch(() => {});
+        this.stream.getTracks().forEach((track) => track.stop());
+        resolve({
+          video: new Blob(this.chunks, { type: this.recorder.mimeType || 'video/webm' }),
+          captions: buildWebVtt(this.cues),
+          durationMs
+        });
+      };
+      if (this.recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      this.recorder.onstop = finish;
+      this.recorder.stop();
+    });
+  }
+
+  private elapsedMs() {
+    return performance.now() - this.startedAt;
+  }
+
+  // Letterboxes the visible element into the frame, like object-contain
+  private drawFrame() {
+    const context = this.context;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, WIDTH, HEIGHT);
+    const source = this.getSource();
+    if (!source) return;
+    const { width, height } = dimensions(source);
+    if (!width || !height) return;
+    const scale = Math.min(WIDTH / width, HEIGHT / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    try {
+      context.drawImage(source, (WIDTH - drawWidth) / 2, (HEIGHT - drawHeight) / 2, drawWidth, drawHeight);
+    } catch (error) {
+      // A source that is not ready yet; the next frame tries again
+    }
+  }
+}
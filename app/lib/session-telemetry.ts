@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AvatarPhase } from './message-bus';
+import {
+  type SessionEndReason,
+  type SessionEventInput,
+  endAvatarSession,
+  insertSessionEvents,
+  startAvatarSession
+} from '@/lib/supabase/telemetry';
+
+// Records one live avatar session: how long each phase lasted, what was asked,
+// how long the assistant and the avatar took to answer, and what went wrong.
+// Writes are queued behind the session insert and never throw; telemetry
+// failing must not affect the session itself.
+export class SessionTelemetry {
+  private sessionId: Promise<string | null>;
+  private writes: Promise<unknown> = Promise.resolve();
+  private currentPhase: { phase: AvatarPhase; since: number } | null = null;
+  // Questions waiting for their first assistant token and first spoken word
+  private awaitingResponse = new Map<string, number>();
+  private awaitingSpeech = new Map<string, number>();
+  private speakingSince: number | null = null;
+  private ended = false;
+
+  constructor(private supabase: SupabaseClient, avatarId: string) {
+    this.sessionId = startAvatarSession(supabase, avatarId).catch((error) => {
+      console.warn('[SessionTelemetry] Failed to start session:', error);
+      return null;
+    });
+  }
+
+  phase(phase: AvatarPhase) {
+    const now = Date.now();
+    if (this.currentPhase && this.currentPhase.phase !== phase) {
+      this.record({ type: 'phase', data: { phase: this.currentPhase.phase, durationMs: now - this.currentPhase.since } });
+    }
+    if (this.currentPhase?.phase !== phase) {
+      this.currentPhase = { phase, since: now };
+    }
+  }
+
+  question(question: string) {
+    const now = Date.now();
+    this.awaitingResponse.set(question, now);
+    this.awaitingSpeech.set(question, now);
+    this.record({ type: 'question', data: { question } });
+  }
+
+  // The first token of the assistant's answer arrived
+  responseStarted(question: string) {
+    const askedAt = this.awaitingResponse.get(question);
+    if (askedAt === undefined) return;
+    this.awaitingResponse.delete(question);
+    this.record({ type: 'assistant_latency', data: { latencyMs: Date.now() - askedAt } });
+  }
+
+  // The avatar started a sentence; the first one for a question is its time to first word
+  speakingStarted(question: string) {
+    const now = Date.now();
+    if (this.speakingSince === null) {
+      this.speakingSince = now;
+    }
+    const askedAt = this.awaitingSpeech.get(question);
+    if (askedAt === undefined) return;
+    this.awaitingSpeech.delete(question);
+    this.record({ type: 'first_word', data: { latencyMs: now - askedAt } });
+  }
+
+  speakingEnded() {
+    if (this.speakingSince === null) return;
+    this.record({ type: 'speak', data: { durationMs: Date.now() - this.speakingSince } });
+    this.speakingSince = null;
+  }
+
+  error(message: string) {
+    this.record({ type: 'error', data: { message } });
+  }
+
+  disconnect() {
+    this.record({ type: 'disconnect', data: {} });
+  }
+
+  end(reason: SessionEndReason) {
+    if (this.ended) return;
+    this.speakingEnded();
+    if (this.currentPhase) {
+      this.record({ type: 'phase', data: { phase: this.currentPhase.phase, durationMs: Date.now() - this.currentPhase.since } });
+      this.currentPhase = null;
+    }
+    this.ended = true;
+    this.enqueue((sessionId) => endAvatarSession(this.supabase, sessionId, reason));
+  }
+
+  private record(event: SessionEventInput) {
+    if (this.ended) return;
+    const createdAt = new Date().toISOString();
+    this.enqueue((sessionId) => insertSessionEvents(this.supabase, sessionId, [{ ...event, created_at: createdAt }]));
+  }
+
+  private enqueue(write: (sessionId: string) => Promise<void>) {
+    this.writes = this.writes
+      .then(() => this.sessionId)
+      .then((sessionId) => sessionId ? write(sessionId) : undefined)
+      .catch((error) => console.warn('[SessionTelemetry] Failed to record telemetry:', error));
+  }
+}
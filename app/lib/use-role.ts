@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { type Role, getRole } from '@/lib/supabase/roles';
+
+// The signed-in user's role, or null until it has loaded. Only decides which
+// controls to show; the middleware and RLS do the enforcing.
+export function useRole(): Role | null {
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    const supabase = createClient();
+    let cancelled = false;
+    const loadRole = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        const userRole = user ? await getRole(supabase, user.id) : 'viewer';
+        if (!cancelled) setRole(userRole);
+      } catch (error) {
+        console.error('Failed to load role:', error);
+        if (!cancelled) setRole('viewer');
+      }
+    };
+    loadRole();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return role;
+}
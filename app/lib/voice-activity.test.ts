@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VOICE_ACTIVITY_OPTIONS, parseVoiceActivityOptions } from './voice-activity';
+
+describe('parseVoiceActivityOptions', () => {
+  it('keeps saved options', () => {
+    const saved = { sensitivity: 0.3, silenceDurationMs: 1200, minSpeechMs: 200 };
+    expect(parseVoiceActivityOptions(JSON.stringify(saved))).toEqual(saved);
+  });
+
+  it('fills in missing options and drops unknown keys and bad values', () => {
+    expect(parseVoiceActivityOptions(JSON.stringify({ sensitivity: 0.3, silenceDurationMs: 'long', extra: 1 }))).toEqual({
+      ...DEFAULT_VOICE_ACTIVITY_OPTIONS,
+      sensitivity: 0.3,
+    });
+  });
+
+  it.each([null, '', '{', 'null', '42', '"loud"'])('falls back to the defaults for %j', (stored) => {
+    expect(parseVoiceActivityOptions(stored)).toEqual(DEFAULT_VOICE_ACTIVITY_OPTIONS);
+  });
+});
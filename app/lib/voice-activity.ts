@@ -0,0 +1,136 @@
+// Energy-based voice activity detection on a microphone stream. Speech starts
+// when the signal level rises above a threshold and ends after it has stayed
+// below it for silenceDurationMs.
+
+export type ListeningState = 'off' | 'listening' | 'hearing' | 'processing';
+
+export interface VoiceActivityOptions {
+  // 0 (only loud speech) to 1 (picks up quiet speech and more background noise)
+  sensitivity: number;
+  // How long the level must stay low before an utterance ends
+  silenceDurationMs: number;
+  // Utterances shorter than this are treated as noise
+  minSpeechMs: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY_OPTIONS: VoiceActivityOptions = {
+  sensitivity: 0.6,
+  silenceDurationMs: 900,
+  minSpeechMs: 300,
+};
+
+// Saved options as the console stored them. Unknown keys and values that are
+// not finite numbers are dropped; a corrupt value falls back to the defaults.
+export function parseVoiceActivityOptions(stored: string | null): VoiceActivityOptions {
+  let saved: unknown;
+  try {
+    saved = stored ? JSON.parse(stored) : null;
+  } catch {
+    return DEFAULT_VOICE_ACTIVITY_OPTIONS;
+  }
+  if (typeof saved !== 'object' || saved === null) return DEFAULT_VOICE_ACTIVITY_OPTIONS;
+  const options = { ...DEFAULT_VOICE_ACTIVITY_OPTIONS };
+  for (const key of Object.keys(options) as (keyof VoiceActivityOptions)[]) {
+    const value = (saved as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) options[key] = value;
+  }
+  return options;
+}
+
+interface VoiceActivityCallbacks {
+  onSpeechStart: () => void;
+  // durationMs is the length of the utterance without the trailing silence
+  onSpeechEnd: (durationMs: number) => void;
+  // RMS level of the latest frame, 0 to 1
+  onLevel?: (level: number) => void;
+}
+
+const FRAME_INTERVAL_MS = 50;
+const MIN_THRESHOLD = 0.005;
+const MAX_THRESHOLD = 0.08;
+
+// Maps sensitivity onto an RMS threshold
+export function speechThreshold(sensitivity: number): number {
+  const clamped = Math.min(Math.max(sensitivity, 0), 1);
+  return MAX_THRESHOLD - clamped * (MAX_THRESHOLD - MIN_THRESHOLD);
+}
+
+export class VoiceActivityDetector {
+  private context: AudioContext;
+  private analyser: AnalyserNode;
+  private source: MediaStreamAudioSourceNode;
+  private samples: Float32Array;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private speaking = false;
+  private speechStartedAt = 0;
+  private lastVoiceAt = 0;
+  private paused = false;
+
+  constructor(
+    stream: MediaStream,
+    private callbacks: VoiceActivityCallbacks,
+    private options: VoiceActivityOptions = DEFAULT_VOICE_ACTIVITY_OPTIONS
+  ) {
+    this.context = new AudioContext();
+    this.source = this.context.createMediaStreamSource(stream);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.source.connect(this.analyser);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(this.tick, FRAME_INTERVAL_MS);
+  }
+
+  setOptions(options: VoiceActivityOptions) {
+    this.options = options;
+  }
+
+  // While paused, levels are ignored and an utterance in progress is dropped
+  // without firing onSpeechEnd
+  setPaused(paused: boolean) {
+    this.paused = paused;
+    if (paused) {
+      this.speaking = false;
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source.disconnect();
+    this.context.close().catch(() => {});
+  }
+
+  private level(): number {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sum += this.samples[i] * this.samples[i];
+    }
+    return Math.sqrt(sum / this.samples.length);
+  }
+
+  private tick = () => {
+    const level = this.level();
+    this.callbacks.onLevel?.(level);
+    if (this.paused) return;
+
+    const now = Date.now();
+    if (level >= speechThreshold(this.options.sensitivity)) {
+      this.lastVoiceAt = now;
+      if (!this.speaking) {
+        this.speaking = true;
+        this.speechStartedAt = now;
+        this.callbacks.onSpeechStart();
+      }
+    } else if (this.speaking && now - this.lastVoiceAt >= this.options.silenceDurationMs) {
+      this.speaking = false;
+      this.callbacks.onSpeechEnd(this.lastVoiceAt - this.speechStartedAt);
+    }
+  };
+}
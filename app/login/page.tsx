@@ -2,24 +2,57 @@
 
 "use client";
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
+import { friendlyAuthError } from '@/lib/supabase/auth-errors';
 
 const Login = () => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    // Password login, or a one-time link sent by email
+    const [useMagicLink, setUseMagicLink] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
     const router = useRouter();
     const supabase = createClient();
 
+    // /auth/callback sends failed email links back here with an error code
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const code = params.get('error');
+        if (code) {
+            setError(friendlyAuthError({ code }));
+        }
+    }, []);
+
     const handleLogin = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         setIsLoading(true);
+        setError(null);
+        setNotice(null);
+        if (useMagicLink) {
+            const { error } = await supabase.auth.signInWithOtp({
+                email,
+                options: {
+                    emailRedirectTo: `${window.location.origin}/auth/callback`,
+                    // New accounts go through sign-up and its email confirmation
+                    shouldCreateUser: false
+                }
+            });
+            setIsLoading(false);
+            if (error) {
+                setError(friendlyAuthError(error));
+            } else {
+                setNotice(`We sent a sign-in link to ${email}. Open it on this device to log in.`);
+            }
+            return;
+        }
         const { error } = await supabase.auth.signInWithPassword({ email, password });
         if (error) {
-            setError(error.message);
+            setError(friendlyAuthError(error));
             setIsLoading(false);
         } else {
             setIsLoading(false);
@@ -27,12 +60,19 @@ const Login = () => {
         }
     };
 
+    const toggleMode = () => {
+        setUseMagicLink(current => !current);
+        setError(null);
+        setNotice(null);
+    };
+
     return (
         <div className="flex items-center justify-center min-h-screen bg-gray-100">
-            <form onSubmit={handleLogin} className="bg-white p-6 rounded shadow-md">
+            <form onSubmit={handleLogin} className="bg-white p-6 rounded shadow-md w-full max-w-sm">
                 <h2 className="text-2xl mb-4 text-gray-900">Login</h2>
                 {error && <p className="text-red-500 mb-2">{error}</p>}
-                {isLoading && <p className="text-blue-500 mb-2">Logging in...</p>}
+                {notice && <p className="text-green-600 mb-2">{notice}</p>}
+                {isLoading && <p className="text-blue-500 mb-2">{useMagicLink ? 'Sending link...' : 'Logging in...'}</p>}
                 <input
                     type="email"
                     value={email}
@@ -41,17 +81,26 @@ const Login = () => {
                     required
                     className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
                 />
-                <input
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Password"
-                    required
-                    className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
-                />
+                {!useMagicLink && (
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        placeholder="Password"
+                        required
+                        className="border border-gray-300 p-2 mb-4 w-full text-gray-900 placeholder-gray-500"
+                    />
+                )}
                 <button type="submit" className="bg-blue-500 text-white p-2 rounded w-full" disabled={isLoading}>
-                    {isLoading ? 'Logging in...' : 'Login'}
+                    {useMagicLink ? (isLoading ? 'Sending link...' : 'Email me a sign-in link') : (isLoading ? 'Logging in...' : 'Login')}
+                </button>
+                <button type="button" onClick={toggleMode} className="text-blue-500 text-sm mt-3 w-full">
+                    {useMagicLink ? 'Log in with a password instead' : 'Log in with an email link instead'}
                 </button>
+                <div className="flex justify-between text-sm mt-4 text-gray-600">
+                    <Link href="/auth/sign-up" className="hover:text-blue-500">Create an account</Link>
+                    <Link href="/auth/forgot-password" className="hover:text-blue-500">Forgot password?</Link>
+                </div>
             </form>
         </div>
     );
@@ -6,14 +6,48 @@ import { useRouter } from 'next/navigation';
 import DarkModeToggle from './DarkModeToggle';
 import ClipLoader from 'react-spinners/ClipLoader';
 import AvatarVideoStream from './components/AvatarVideoStream';
-import { MessageSquare, LogOut } from 'lucide-react';
+import AvatarFormModal, { type AvatarFormMode } from './components/AvatarFormModal';
+import Toast from './components/Toast';
+import { type AvatarSettings, DEFAULT_AVATAR_SETTINGS, listAvatarSettings } from '@/lib/supabase/avatar-settings';
+import { type Avatar, deleteAvatar, listAvatars } from '@/lib/supabase/avatars';
+import { hasRole } from '@/lib/supabase/roles';
+import { useRole } from './lib/use-role';
+import Link from 'next/link';
+import { MessageSquare, LogOut, Plus, Pencil, Copy, Trash2, BarChart3 } from 'lucide-react';
 
 export default function Dashboard() {
-  const [avatars, setAvatars] = useState<any[]>([]);
+  const [avatars, setAvatars] = useState<Avatar[]>([]);
+  const [avatarSettings, setAvatarSettings] = useState<Record<string, AvatarSettings>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [selectedAvatar, setSelectedAvatar] = useState<string | null>(null);
+  const [menuAvatar, setMenuAvatar] = useState<string | null>(null);
+  const [form, setForm] = useState<{ mode: AvatarFormMode; avatar?: Avatar } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Avatar | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   const supabase = createClient();
+  const role = useRole();
+  const isAdmin = hasRole(role, 'admin');
+  const isOperator = hasRole(role, 'operator');
+
+  // Fetch avatars and their settings; called again after every change
+  const loadAvatars = async () => {
+    let data: Avatar[];
+    try {
+      data = await listAvatars(supabase);
+    } catch (avatarError) {
+      console.error('Error fetching avatars:', avatarError);
+      setAvatars([]);
+      return;
+    }
+    setAvatars(data);
+    try {
+      setAvatarSettings(await listAvatarSettings(supabase, data.map(a => a.avatar_id)));
+    } catch (settingsError) {
+      // Avatars still work with the default settings
+      console.error('Error fetching avatar settings:', settingsError);
+    }
+  };
 
   useEffect(() => {
     const fetchAvatars = async () => {
@@ -23,15 +57,7 @@ export default function Dashboard() {
         router.push('/login');
         return;
       }
-      // Fetch avatars
-      const { data, error: avatarError } = await supabase
-        .from('avatars')
-        .select('avatar_id, avatar_name, avatar_preview_image_url, idle_video_path, to_live_video_path, to_idle_video_path');
-      if (avatarError) {
-        setAvatars([]);
-      } else {
-        setAvatars(data || []);
-      }
+      await loadAvatars();
       setIsLoading(false);
     };
     fetchAvatars();
@@ -52,7 +78,30 @@ export default function Dashboard() {
   };
 
   const handleMenu = (avatar_id: string) => {
-    alert(`Menu for avatar: ${avatar_id}`);
+    setMenuAvatar(current => current === avatar_id ? null : avatar_id);
+  };
+
+  const openForm = (mode: AvatarFormMode, avatar?: Avatar) => {
+    setMenuAvatar(null);
+    setForm({ mode, avatar });
+  };
+
+  const handleSaved = async () => {
+    setForm(null);
+    await loadAvatars();
+  };
+
+  const handleConfirmDelete = async () => {
+    const avatar = pendingDelete;
+    setPendingDelete(null);
+    if (!avatar) return;
+    try {
+      await deleteAvatar(supabase, avatar.avatar_id);
+    } catch (deleteError) {
+      console.error('Error deleting avatar:', deleteError);
+      setError(`Failed to delete ${avatar.avatar_name}`);
+    }
+    await loadAvatars();
   };
 
   if (isLoading) {
@@ -68,6 +117,25 @@ export default function Dashboard() {
       <div className="flex justify-between dark:bg-gray-800 dark:text-white items-center p-3 bg-white shadow mb-6">
         <h1 className="text-2xl font-bold">Avatars Gallery</h1>
         <div className='flex'>
+          {/* Managing avatars and reading analytics is for admins only */}
+          {isAdmin && (
+            <>
+              <Link
+                href="/analytics"
+                className="border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 py-2 px-4 rounded mr-2 flex items-center gap-2"
+              >
+                <BarChart3 className="w-5 h-5" />
+                Analytics
+              </Link>
+              <button
+                onClick={() => openForm('create')}
+                className="bg-violet-600 hover:bg-violet-700 text-white py-2 px-4 rounded mr-2 flex items-center gap-2"
+              >
+                <Plus className="w-5 h-5" />
+                New avatar
+              </button>
+            </>
+          )}
           <div>
             <DarkModeToggle />
           </div>
@@ -80,6 +148,12 @@ export default function Dashboard() {
           </button>
         </div>
       </div>
+      {error && (
+        <div className="mx-4 mb-2 p-3 bg-red-100 text-red-700 rounded-lg flex justify-between">
+          {error}
+          <button onClick={() => setError(null)} className="text-sm underline">Dismiss</button>
+        </div>
+      )}
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 p-4">
         {avatars.length === 0 && (
           <div className="col-span-full text-center text-gray-500">No avatars found.</div>
@@ -89,18 +163,41 @@ export default function Dashboard() {
             key={avatar.avatar_id}
             className="relative bg-gray-900 rounded-xl shadow overflow-hidden group flex flex-col justify-end min-h-[220px] h-64"
           >
-            {/* 3-dots menu button */}
-            <button
-              onClick={() => handleMenu(avatar.avatar_id)}
-              className="absolute top-2 right-2 z-20 bg-black/60 hover:bg-black/80 text-white rounded-full p-2 focus:outline-none"
-              title="More options"
-            >
-              <svg width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <circle cx="5" cy="12" r="2" />
-                <circle cx="12" cy="12" r="2" />
-                <circle cx="19" cy="12" r="2" />
-              </svg>
-            </button>
+            {/* 3-dots menu button, for admins */}
+            {isAdmin && (
+              <>
+                <button
+                  onClick={() => handleMenu(avatar.avatar_id)}
+                  className="absolute top-2 right-2 z-20 bg-black/60 hover:bg-black/80 text-white rounded-full p-2 focus:outline-none"
+                  title="More options"
+                >
+                  <svg width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <circle cx="5" cy="12" r="2" />
+                    <circle cx="12" cy="12" r="2" />
+                    <circle cx="19" cy="12" r="2" />
+                  </svg>
+                </button>
+                {menuAvatar === avatar.avatar_id && (
+                  <div className="absolute top-12 right-2 z-30 w-40 bg-white dark:bg-gray-800 text-gray-900 dark:text-white rounded-lg shadow-lg overflow-hidden text-sm">
+                    <button onClick={() => openForm('edit', avatar)} className="w-full flex items-center gap-2 px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">
+                      <Pencil className="w-4 h-4" /> Edit
+                    </button>
+                    <button onClick={() => openForm('duplicate', avatar)} className="w-full flex items-center gap-2 px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700">
+                      <Copy className="w-4 h-4" /> Duplicate
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMenuAvatar(null);
+                        setPendingDelete(avatar);
+                      }}
+                      className="w-full flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <Trash2 className="w-4 h-4" /> Delete
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
             {/* Avatar image */}
             <img
               src={avatar.avatar_preview_image_url}
@@ -111,25 +208,50 @@ export default function Dashboard() {
             <div className="absolute bottom-0 left-0 w-full bg-gradient-to-t from-black/80 to-black/0 px-4 py-3 z-10">
               <span className="text-white text-lg font-semibold drop-shadow-lg">{avatar.avatar_name}</span>
             </div>
-            {/* Chat button (centered, visible on hover) */}
-            <button
-              onClick={() => handleChat(avatar.avatar_id)}
-              className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg font-medium shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200"
-            >
-              <MessageSquare className="inline-block mr-2 w-5 h-5" />
-              Chat
-            </button>
+            {/* Chat button (centered, visible on hover). Going live needs an
+                operator, so viewers only browse the avatars. */}
+            {isOperator && (
+              <button
+                onClick={() => handleChat(avatar.avatar_id)}
+                className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-20 bg-violet-600 hover:bg-violet-700 text-white px-4 py-2 rounded-lg font-medium shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+              >
+                <MessageSquare className="inline-block mr-2 w-5 h-5" />
+                Chat
+              </button>
+            )}
           </div>
         ))}
       </div>
 
+      {/* Create / edit / duplicate */}
+      {form && (
+        <AvatarFormModal
+          mode={form.mode}
+          avatar={form.avatar}
+          settings={form.avatar ? avatarSettings[form.avatar.avatar_id] : undefined}
+          onClose={() => setForm(null)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {pendingDelete && (
+        <Toast
+          message={`Delete ${pendingDelete.avatar_name} and its clips?`}
+          type="warning"
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setPendingDelete(null)}
+          duration={0}
+        />
+      )}
+
       {/* Avatar Video Stream Modal */}
-      {selectedAvatar && (
+      {selectedAvatar && isOperator && (
         <AvatarVideoStream
           avatarName={selectedAvatar}
           idleVideoUrl={avatars.find(a => a.avatar_id === selectedAvatar)?.idle_video_path || ''}
           toLiveVideoUrl={avatars.find(a => a.avatar_id === selectedAvatar)?.to_live_video_path || ''}
           toIdleVideoUrl={avatars.find(a => a.avatar_id === selectedAvatar)?.to_idle_video_path || ''}
+          settings={avatarSettings[selectedAvatar] ?? DEFAULT_AVATAR_SETTINGS}
           onClose={() => setSelectedAvatar(null)}
         />
       )}
@@ -0,0 +1,103 @@
+import path from 'node:path';
+import { type BrowserContext, type Page, expect, test } from '@playwright/test';
+import { AVATAR_ID, AVATAR_NAME, MEDIA_DIR, MEDIA_ROUTE } from './fixtures';
+
+// The avatar screen and the chat console in two windows of one browser, talking
+// over the local message bus, with the mock HeyGen and OpenAI backends
+
+const QUESTION = 'What are your opening hours?';
+// The mock assistant's scripted answer to QUESTION
+const ANSWER = 'We are open Mon–Fri, 9am-5pm.';
+
+test.beforeEach(async ({ context }) => {
+  await context.route(MEDIA_ROUTE, (route) =>
+    route.fulfill({ path: path.join(MEDIA_DIR, path.basename(new URL(route.request().url()).pathname)) })
+  );
+});
+
+async function openAvatarScreen(page: Page) {
+  await page.goto('/');
+  const card = page.locator('.group').filter({ has: page.getByAltText(AVATAR_NAME) });
+  await card.hover();
+  await card.getByRole('button', { name: 'Chat' }).click();
+  const screen = page.locator('[data-phase]');
+  await expect(screen).toHaveAttribute('data-phase', 'idle');
+  return screen;
+}
+
+// Records every phase the screen goes through, including ones too short for
+// an assertion to catch
+async function recordPhases(page: Page) {
+  await page.evaluate(() => {
+    const screen = document.querySelector('[data-phase]')!;
+    const phases = [screen.getAttribute('data-phase')];
+    (window as any).phases = phases;
+    new MutationObserver(() => phases.push(screen.getAttribute('data-phase'))).observe(screen, {
+      attributes: true,
+      attributeFilter: ['data-phase']
+    });
+  });
+  return () => page.evaluate(() => (window as any).phases as string[]);
+}
+
+async function openChat(context: BrowserContext) {
+  const chat = await context.newPage();
+  await chat.goto(`/chat-interface?avatarId=${encodeURIComponent(AVATAR_ID)}`);
+  return chat;
+}
+
+async function ask(chat: Page, question: string) {
+  await chat.getByPlaceholder('Type your message...').fill(question);
+  await chat.getByRole('button', { name: 'Send Message' }).click();
+}
+
+test('a question takes the avatar live and back to idle', async ({ page, context }) => {
+  const screen = await openAvatarScreen(page);
+  const phases = await recordPhases(page);
+  const chat = await openChat(context);
+
+  await ask(chat, QUESTION);
+
+  await expect(screen).toHaveAttribute('data-phase', 'stream', { timeout: 20_000 });
+  // The answer streams back to the console while the avatar speaks it
+  await expect(chat.getByText(ANSWER)).toBeVisible();
+  // Quiet for the inactivity timeout after speaking, then the to_idle clip
+  await expect(screen).toHaveAttribute('data-phase', 'idle', { timeout: 30_000 });
+  expect(await phases()).toEqual(['idle', 'to_live', 'stream', 'to_idle', 'idle']);
+});
+
+test('the chat console and the avatar window follow each other', async ({ page, context }) => {
+  await openAvatarScreen(page);
+  const chat = await openChat(context);
+
+  // Phase changes reach the console
+  await ask(chat, QUESTION);
+  await expect(chat.getByText('Avatar: live')).toBeVisible({ timeout: 20_000 });
+
+  // and the console's stop button reaches the avatar, which reports back
+  await chat.getByRole('button', { name: 'Stop Avatar' }).click();
+  await expect(chat.getByRole('button', { name: 'Stop Avatar' })).toBeHidden();
+  await expect(chat.getByText('Interrupted')).toBeVisible();
+  await expect(chat.getByText('Avatar: idle')).toBeVisible({ timeout: 30_000 });
+});
+
+test('a dropped stream is recovered without leaving the live phase', async ({ page, context }) => {
+  const screen = await openAvatarScreen(page);
+  const chat = await openChat(context);
+  await ask(chat, QUESTION);
+  await expect(screen).toHaveAttribute('data-phase', 'stream', { timeout: 20_000 });
+  const phases = await recordPhases(page);
+
+  const recovered = page.waitForEvent('console', (message) => message.text().includes('Session recovered'));
+  await page.evaluate(() => {
+    (window as any).droppedAvatar = (window as any).avatar;
+    (window as any).avatar.simulateDisconnect();
+  });
+  await recovered;
+
+  // A new mock session took over, and the screen never left the stream
+  expect(await page.evaluate(() => Boolean((window as any).avatar) && (window as any).avatar !== (window as any).droppedAvatar)).toBe(true);
+  expect(await phases()).toEqual(['stream']);
+  await expect(page.getByText(/Connection lost/)).toBeHidden();
+  await expect(screen).toHaveAttribute('data-phase', 'idle', { timeout: 30_000 });
+});
@@ -0,0 +1,34 @@
+import path from 'node:path';
+
+// Shared by the global setup and the specs. The suite needs a Supabase
+// instance (see .github/workflows/ci.yml); HeyGen and OpenAI are mocked.
+
+export const AVATAR_ID = 'e2e-mock-avatar';
+export const AVATAR_NAME = 'E2E mock avatar';
+// Short, so the specs see the screen go back to idle
+export const INACTIVITY_TIMEOUT_SECONDS = 3;
+
+export const OPERATOR_EMAIL = process.env.E2E_OPERATOR_EMAIL ?? 'e2e-operator@example.com';
+export const OPERATOR_PASSWORD = process.env.E2E_OPERATOR_PASSWORD ?? 'e2e-operator-password';
+
+// Only browses the avatars
+export const VIEWER_EMAIL = process.env.E2E_VIEWER_EMAIL ?? 'e2e-viewer@example.com';
+export const VIEWER_PASSWORD = process.env.E2E_VIEWER_PASSWORD ?? 'e2e-viewer-password';
+
+export const AUTH_FILE = path.join(__dirname, '.auth', 'operator.json');
+export const VIEWER_AUTH_FILE = path.join(__dirname, '.auth', 'viewer.json');
+
+// Clips and the preview image are generated by the global setup and served
+// by the specs from /e2e-clips/, which the app itself does not have
+export const MEDIA_DIR = path.join(__dirname, '.media');
+export const MEDIA_FILES = {
+  idle: 'idle.webm',
+  to_live: 'to_live.webm',
+  to_idle: 'to_idle.webm',
+  preview: 'preview.png',
+};
+export const MEDIA_ROUTE = '**/e2e-clips/*';
+
+export function mediaUrl(baseURL: string, media: keyof typeof MEDIA_FILES) {
+  return new URL(`/e2e-clips/${MEDIA_FILES[media]}`, baseURL).toString();
+}
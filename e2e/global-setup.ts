@@ -0,0 +1,110 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { loadEnvConfig } from '@next/env';
+import { type FullConfig, chromium } from '@playwright/test';
+import { type SupabaseClient, createClient } from '@supabase/supabase-js';
+import {
+  AUTH_FILE,
+  AVATAR_ID,
+  AVATAR_NAME,
+  INACTIVITY_TIMEOUT_SECONDS,
+  MEDIA_DIR,
+  MEDIA_FILES,
+  OPERATOR_EMAIL,
+  OPERATOR_PASSWORD,
+  VIEWER_AUTH_FILE,
+  VIEWER_EMAIL,
+  VIEWER_PASSWORD,
+  mediaUrl
+} from './fixtures';
+
+// One-second green clips, so the idle loop hands over quickly. WebM, because
+// Playwright's Chromium has no H.264.
+function generateMedia() {
+  mkdirSync(MEDIA_DIR, { recursive: true });
+  const colors: Record<keyof typeof MEDIA_FILES, string> = {
+    idle: '0x00b140',
+    to_live: '0x00a0b1',
+    to_idle: '0xb1a000',
+    preview: '0x00b140'
+  };
+  for (const [media, file] of Object.entries(MEDIA_FILES) as [keyof typeof MEDIA_FILES, string][]) {
+    const output = path.join(MEDIA_DIR, file);
+    if (existsSync(output)) continue;
+    const source = ['-f', 'lavfi', '-i', `color=c=${colors[media]}:s=854x480:d=1:r=30`];
+    const encode = media === 'preview' ? ['-frames:v', '1'] : ['-c:v', 'libvpx-vp9', '-b:v', '200k'];
+    execFileSync('ffmpeg', ['-loglevel', 'error', '-y', ...source, ...encode, output]);
+  }
+}
+
+// Creates the user unless an earlier run did, and gives it the role
+async function seedUser(admin: SupabaseClient, email: string, password: string, role: 'viewer' | 'operator') {
+  const { data: created, error: createError } = await admin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true
+  });
+  let userId = created.user?.id;
+  if (createError) {
+    const { data, error } = await admin.auth.admin.listUsers();
+    if (error) throw error;
+    userId = data.users.find((user) => user.email === email)?.id;
+    if (!userId) throw createError;
+  }
+  const { error: roleError } = await admin.from('profiles').upsert({ id: userId, role });
+  if (roleError) throw roleError;
+}
+
+// An operator who can open the chat console, a viewer, and an avatar whose
+// clips the specs serve themselves
+async function seedSupabase(baseURL: string) {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must point at a test Supabase instance');
+  }
+  const admin = createClient(url, serviceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } });
+
+  await seedUser(admin, OPERATOR_EMAIL, OPERATOR_PASSWORD, 'operator');
+  await seedUser(admin, VIEWER_EMAIL, VIEWER_PASSWORD, 'viewer');
+
+  const { error: avatarError } = await admin.from('avatars').upsert({
+    avatar_id: AVATAR_ID,
+    avatar_name: AVATAR_NAME,
+    avatar_preview_image_url: mediaUrl(baseURL, 'preview'),
+    idle_video_path: mediaUrl(baseURL, 'idle'),
+    to_live_video_path: mediaUrl(baseURL, 'to_live'),
+    to_idle_video_path: mediaUrl(baseURL, 'to_idle')
+  });
+  if (avatarError) throw avatarError;
+  const { error: settingsError } = await admin.from('avatar_settings').upsert({
+    avatar_id: AVATAR_ID,
+    inactivity_timeout_seconds: INACTIVITY_TIMEOUT_SECONDS,
+    greeting: null
+  });
+  if (settingsError) throw settingsError;
+}
+
+// Signs in through the login page once; the specs reuse the session cookies
+async function signIn(baseURL: string, email: string, password: string, authFile: string) {
+  mkdirSync(path.dirname(authFile), { recursive: true });
+  const browser = await chromium.launch();
+  const page = await browser.newPage({ baseURL });
+  await page.goto('/login');
+  await page.locator('input[type="email"]').fill(email);
+  await page.locator('input[type="password"]').fill(password);
+  await page.locator('button[type="submit"]').click();
+  await page.waitForURL((url) => url.pathname === '/');
+  await page.context().storageState({ path: authFile });
+  await browser.close();
+}
+
+export default async function globalSetup(config: FullConfig) {
+  loadEnvConfig(process.cwd());
+  const baseURL = config.projects[0].use.baseURL!;
+  generateMedia();
+  await seedSupabase(baseURL);
+  await signIn(baseURL, OPERATOR_EMAIL, OPERATOR_PASSWORD, AUTH_FILE);
+  await signIn(baseURL, VIEWER_EMAIL, VIEWER_PASSWORD, VIEWER_AUTH_FILE);
+}
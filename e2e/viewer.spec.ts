@@ -0,0 +1,21 @@
+import { expect, test } from '@playwright/test';
+import { AVATAR_NAME, VIEWER_AUTH_FILE } from './fixtures';
+
+// A viewer browses the avatars but cannot open a screen that would go live
+test.use({ storageState: VIEWER_AUTH_FILE });
+
+test('a viewer is not offered the avatar screen', async ({ page }) => {
+  await page.goto('/');
+  const card = page.locator('.group').filter({ has: page.getByAltText(AVATAR_NAME) });
+  await card.hover();
+  await expect(card.getByRole('button')).toHaveCount(0);
+  await expect(page.locator('[data-phase]')).toHaveCount(0);
+});
+
+test('a viewer cannot reach the chat console or start a session', async ({ page, request }) => {
+  await page.goto('/chat-interface');
+  await expect(page).toHaveURL((url) => url.pathname === '/');
+
+  expect((await request.post('/api/heygen/token')).status()).toBe(403);
+  expect((await request.post('/api/assistant/thread', { data: {} })).status()).toBe(403);
+});
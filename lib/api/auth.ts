@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+// Route handlers call this before touching any server-held key. It checks the
+// Supabase session the same way middleware.ts does and hands back either the
+// user or a ready-made 401 response.
+export async function requireUser() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return {
+      user: null,
+      supabase,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    }
+  }
+
+  return { user, supabase, response: null }
+}
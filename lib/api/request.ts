@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+// The request's JSON body, or null when it is missing, malformed or not an
+// object. request.json() throws on a bad body, which would otherwise be a 500.
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null
+  } catch {
+    return null
+  }
+}
+
+export function invalidBody() {
+  return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+}
+
+// The request's multipart form, or null when the body is not multipart or is
+// cut short
+export async function readFormData(request: NextRequest): Promise<FormData | null> {
+  try {
+    return await request.formData()
+  } catch {
+    return null
+  }
+}
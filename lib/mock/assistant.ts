@@ -0,0 +1,113 @@
+// Scripted stand-ins for the OpenAI assistant and Whisper, used by the API
+// routes in mock mode (see ./config). Answers stream word by word with a
+// short delay so the client goes through the same states as with a real run.
+
+import type { TokenUsage } from '@/lib/supabase/conversations'
+
+export interface MockScriptEntry {
+  // Case-insensitive regular expression tested against the question
+  match: string
+  response: string
+}
+
+const DEFAULT_SCRIPT: MockScriptEntry[] = [
+  {
+    match: 'hours|open',
+    response: 'We are open Mon–Fri, 9am-5pm. On weekends we are closed.',
+  },
+  {
+    match: 'steps|how do i',
+    response: 'Here is how:\n\n1. Open the **app**.\n2. Tap _Settings_.\n3. Choose `Privacy`.\n\nThat is all.',
+  },
+  {
+    match: 'code|example',
+    response: 'Here is an example:\n\n```ts\nconsole.log("hello")\n```\n\nRun it from a terminal.',
+  },
+]
+
+const DEFAULT_TRANSCRIPT = 'What are your opening hours?'
+
+// Delay before the first delta, like a run being queued
+const FIRST_DELTA_DELAY_MS = 400
+const DELTA_DELAY_MS = 40
+
+// MOCK_ASSISTANT_SCRIPT may hold a JSON array of { match, response } entries,
+// tried before the built-in ones
+function loadScript(): MockScriptEntry[] {
+  const custom = process.env.MOCK_ASSISTANT_SCRIPT
+  if (!custom) return DEFAULT_SCRIPT
+  try {
+    const parsed = JSON.parse(custom)
+    if (Array.isArray(parsed)) {
+      return [
+        ...parsed.filter((entry): entry is MockScriptEntry => typeof entry?.match === 'string' && typeof entry?.response === 'string'),
+        ...DEFAULT_SCRIPT,
+      ]
+    }
+  } catch (error) {
+    console.error('[mock] MOCK_ASSISTANT_SCRIPT is not valid JSON:', error)
+  }
+  return DEFAULT_SCRIPT
+}
+
+export function getMockResponse(message: string): string {
+  const entry = loadScript().find((candidate) => {
+    try {
+      return new RegExp(candidate.match, 'i').test(message)
+    } catch {
+      return false
+    }
+  })
+  return entry ? entry.response : `You asked: "${message.trim()}". This is a scripted answer from the mock assistant.`
+}
+
+export function getMockTranscript(): string {
+  return process.env.MOCK_TRANSCRIPT || DEFAULT_TRANSCRIPT
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+// Rough token count, about four characters each
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+async function reportMockRun(
+  onRun: ((run: { runId: string; usage?: TokenUsage | null }) => void | Promise<void>) | undefined,
+  run: { runId: string; usage?: TokenUsage | null }
+) {
+  try {
+    await onRun?.(run)
+  } catch (error) {
+    console.warn('[streamMockResponse] Failed to record run:', error)
+  }
+}
+
+// Yields the scripted answer in word-sized deltas; stops quietly when aborted.
+// onRun is told about a made-up run and its estimated usage, like a real run.
+export async function* streamMockResponse(
+  message: string,
+  signal?: AbortSignal,
+  onRun?: (run: { runId: string; usage?: TokenUsage | null }) => void | Promise<void>
+): AsyncGenerator<string> {
+  const runId = `mock-run-${crypto.randomUUID()}`
+  await reportMockRun(onRun, { runId })
+  await delay(FIRST_DELTA_DELAY_MS, signal)
+  const response = getMockResponse(message)
+  for (const delta of response.match(/\S+\s*|\s+/g) ?? []) {
+    if (signal?.aborted) return
+    yield delta
+    await delay(DELTA_DELAY_MS, signal)
+  }
+  const promptTokens = estimateTokens(message)
+  const completionTokens = estimateTokens(response)
+  await reportMockRun(onRun, { runId, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } })
+}
@@ -0,0 +1,7 @@
+// Mock mode swaps HeyGen and OpenAI for local fakes so the app can run offline
+// and in CI. It is read on both sides of the app, so it has to be a
+// NEXT_PUBLIC_ variable: set NEXT_PUBLIC_MOCK_BACKENDS=true in .env.local.
+// Supabase is still required; point it at a local instance for tests.
+export function isMockBackend() {
+  return process.env.NEXT_PUBLIC_MOCK_BACKENDS === 'true'
+}
@@ -0,0 +1,239 @@
+import type OpenAI from 'openai'
+import type { AssistantTool } from 'openai/resources/beta/assistants'
+import type { Run } from 'openai/resources/beta/threads/runs/runs'
+import type { TokenUsage, ToolCallRecord } from '@/lib/supabase/conversations'
+import { FALLBACK_RESPONSE, formatForDisplay } from './response'
+import { ToolRegistry } from './tools'
+
+// A thread can be created with at most this many messages; the rest are added
+// one by one
+const THREAD_CREATE_MESSAGE_LIMIT = 32
+
+// Past exchanges to seed a new thread with, oldest first
+export interface ThreadSeedMessage {
+  question: string
+  response: string
+}
+
+export async function createThread(client: OpenAI, seed: ThreadSeedMessage[] = []) {
+  const messages = seed.flatMap((message) => [
+    { role: 'user' as const, content: message.question },
+    { role: 'assistant' as const, content: message.response },
+  ]).filter((message) => message.content.trim())
+
+  const thread = await client.beta.threads.create({
+    messages: messages.slice(0, THREAD_CREATE_MESSAGE_LIMIT),
+  })
+  for (const message of messages.slice(THREAD_CREATE_MESSAGE_LIMIT)) {
+    await client.beta.threads.messages.create(thread.id, message)
+  }
+  return thread.id
+}
+
+// A run that keeps calling tools without answering is stopped after this
+// many rounds
+const MAX_TOOL_ROUNDS = 8
+
+// The run ended without an answer. The message is OpenAI's last_error when
+// there is one, and is safe to show to the user.
+export class AssistantRunError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AssistantRunError'
+  }
+}
+
+// One line of the /api/assistant/stream body. A failed run ends the stream
+// with an error event rather than breaking the connection, so its reason
+// reaches the client.
+export type AssistantStreamEvent = { type: 'delta'; text: string } | { type: 'error'; error: string }
+
+function runFailure(run: Run) {
+  return new AssistantRunError(run.last_error?.message ?? `The assistant run ${run.status}`)
+}
+
+export interface RunOptions {
+  // Tools the run may call; without a registry the assistant's own tool
+  // configuration is used and function calls are answered with an error
+  tools?: ToolRegistry
+  // Called after each round of tool calls, e.g. to record them in the history
+  onToolCalls?: (records: ToolCallRecord[]) => void | Promise<void>
+  // Called when the run starts, and again with its token usage once it completes
+  onRun?: (run: { runId: string; usage?: TokenUsage | null }) => void | Promise<void>
+  // Aborting stops the stream; the run itself is cancelled with cancelActiveRuns
+  signal?: AbortSignal
+}
+
+const ASSISTANT_CACHE_MS = 5 * 60 * 1000
+const assistantToolsCache = new Map<string, { tools: AssistantTool[]; fetchedAt: number }>()
+
+// The assistant's own non-function tools (file search, code interpreter) plus
+// every registered function. Functions configured on the assistant without a
+// handler here are left out, since calling them could only fail.
+async function resolveRunTools(client: OpenAI, assistantId: string, registry: ToolRegistry): Promise<AssistantTool[]> {
+  let cached = assistantToolsCache.get(assistantId)
+  if (!cached || Date.now() - cached.fetchedAt > ASSISTANT_CACHE_MS) {
+    const assistant = await client.beta.assistants.retrieve(assistantId)
+    cached = { tools: assistant.tools, fetchedAt: Date.now() }
+    assistantToolsCache.set(assistantId, cached)
+  }
+  return [...cached.tools.filter((tool) => tool.type !== 'function'), ...registry.definitions()]
+}
+
+async function reportRun(options: RunOptions, run: Run) {
+  const usage = run.usage && {
+    promptTokens: run.usage.prompt_tokens,
+    completionTokens: run.usage.completion_tokens,
+    totalTokens: run.usage.total_tokens,
+  }
+  try {
+    await options.onRun?.(run.status === 'completed' ? { runId: run.id, usage } : { runId: run.id })
+  } catch (error) {
+    console.warn('[reportRun] Failed to record run:', error)
+  }
+}
+
+async function runToolCalls(run: Run, threadId: string, options: RunOptions) {
+  const calls = run.required_action?.submit_tool_outputs.tool_calls ?? []
+  const registry = options.tools ?? new ToolRegistry()
+  const records = await Promise.all(calls.map((call) =>
+    registry.execute({ id: call.id, name: call.function.name, arguments: call.function.arguments }, { threadId, signal: options.signal })
+  ))
+  try {
+    await options.onToolCalls?.(records)
+  } catch (error) {
+    console.warn('[runToolCalls] Failed to record tool calls:', error)
+  }
+  return calls.map((call, i) => ({ tool_call_id: call.id, output: records[i].output }))
+}
+
+export async function getAssistantResponse(
+  client: OpenAI,
+  assistantId: string,
+  threadId: string,
+  userMessage: string,
+  options: RunOptions = {}
+): Promise<string> {
+  // Add user message to the thread
+  await client.beta.threads.messages.create(threadId, {
+    role: 'user',
+    content: userMessage,
+  })
+
+  // Run the assistant with the existing assistant ID
+  let run = await client.beta.threads.runs.createAndPoll(threadId, {
+    assistant_id: assistantId,
+    ...(options.tools ? { tools: await resolveRunTools(client, assistantId, options.tools) } : {}),
+  })
+
+  // Answer every round of function calls until the run finishes
+  for (let round = 1; run.status === 'requires_action'; round++) {
+    if (round > MAX_TOOL_ROUNDS) {
+      await client.beta.threads.runs.cancel(threadId, run.id)
+      await reportRun(options, run)
+      throw new AssistantRunError(`The assistant called tools ${MAX_TOOL_ROUNDS} times without answering`)
+    }
+    const toolOutputs = await runToolCalls(run, threadId, options)
+    run = await client.beta.threads.runs.submitToolOutputsAndPoll(threadId, run.id, { tool_outputs: toolOutputs })
+  }
+
+  // Once, with the final status, so usage is only counted once
+  await reportRun(options, run)
+  if (run.status !== 'completed') {
+    throw runFailure(run)
+  }
+  // Get the assistant's response
+  const messages = await client.beta.threads.messages.list(threadId)
+
+  // Find the latest assistant message
+  const lastMessage = messages.data.find((msg) => msg.role === 'assistant')
+
+  if (lastMessage && lastMessage.content[0].type === 'text') {
+    return formatForDisplay(lastMessage.content[0].text.value)
+  }
+  return FALLBACK_RESPONSE
+}
+
+// Yields text deltas as the run generates them. Callers get the raw text and
+// decide for themselves when and how to format it. When the run stops to
+// call functions, their outputs are submitted and the continued run streams on.
+export async function* streamAssistantResponse(
+  client: OpenAI,
+  assistantId: string,
+  threadId: string,
+  userMessage: string,
+  options: RunOptions = {}
+): AsyncGenerator<string> {
+  const { signal } = options
+  await client.beta.threads.messages.create(threadId, {
+    role: 'user',
+    content: userMessage,
+  })
+
+  let stream = client.beta.threads.runs.stream(threadId, {
+    assistant_id: assistantId,
+    ...(options.tools ? { tools: await resolveRunTools(client, assistantId, options.tools) } : {}),
+  })
+
+  for (let round = 1; ; round++) {
+    const abort = () => stream.abort()
+    signal?.addEventListener('abort', abort, { once: true })
+    let pendingRun: Run | null = null
+    try {
+      for await (const event of stream) {
+        if (event.event === 'thread.run.created' || event.event === 'thread.run.completed') {
+          await reportRun(options, event.data)
+          continue
+        }
+        if (event.event === 'thread.run.failed' || event.event === 'thread.run.expired') {
+          throw runFailure(event.data)
+        }
+        if (event.event === 'thread.run.requires_action') {
+          pendingRun = event.data
+          continue
+        }
+        if (event.event !== 'thread.message.delta') continue
+        for (const part of event.data.delta.content ?? []) {
+          if (part.type === 'text' && part.text?.value) {
+            yield part.text.value
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', abort)
+    }
+
+    if (!pendingRun || signal?.aborted) return
+    if (round > MAX_TOOL_ROUNDS) {
+      await client.beta.threads.runs.cancel(threadId, pendingRun.id)
+      throw new AssistantRunError(`The assistant called tools ${MAX_TOOL_ROUNDS} times without answering`)
+    }
+    const toolOutputs = await runToolCalls(pendingRun, threadId, options)
+    if (signal?.aborted) return
+    stream = client.beta.threads.runs.submitToolOutputsStream(threadId, pendingRun.id, { tool_outputs: toolOutputs })
+  }
+}
+
+const ACTIVE_RUN_STATUSES = ['queued', 'in_progress', 'requires_action', 'cancelling']
+const CANCEL_POLL_INTERVAL_MS = 250
+const CANCEL_POLL_ATTEMPTS = 40
+
+// A thread rejects new messages while a run is active, so an interrupted
+// answer has to be cancelled and fully stopped before the next question.
+export async function cancelActiveRuns(client: OpenAI, threadId: string) {
+  const runs = await client.beta.threads.runs.list(threadId, { limit: 5 })
+  const active = runs.data.filter((run) => ACTIVE_RUN_STATUSES.includes(run.status))
+
+  await Promise.all(active.map(async (run) => {
+    try {
+      let { status } = run.status === 'cancelling' ? run : await client.beta.threads.runs.cancel(threadId, run.id)
+      for (let i = 0; i < CANCEL_POLL_ATTEMPTS && ACTIVE_RUN_STATUSES.includes(status); i++) {
+        await new Promise((resolve) => setTimeout(resolve, CANCEL_POLL_INTERVAL_MS))
+        status = (await client.beta.threads.runs.retrieve(threadId, run.id)).status
+      }
+    } catch (error) {
+      // The run may have finished on its own in the meantime
+      console.warn(`[cancelActiveRuns] Could not cancel run ${run.id}:`, error)
+    }
+  }))
+}
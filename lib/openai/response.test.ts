@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { CODE_BLOCK_NOTE, formatForSpeech } from './response'
+
+describe('formatForSpeech', () => {
+  it.each([
+    ['thousands separators', 'We served 1,000 guests.', 'We served one thousand guests.'],
+    ['several separators', 'It is 1,234,567.', 'It is one million two hundred thirty-four thousand five hundred sixty-seven.'],
+    ['decimals', 'It takes 3.5 hours.', 'It takes three point five hours.'],
+    ['decimals with a unit', '0.5 kg', 'zero point five kilograms.'],
+    ['decimals with a percent sign', 'About 1.5%.', 'About one point five percent.'],
+    ['plain whole numbers', 'We have 250 rooms.', 'We have 250 rooms.'],
+    ['version numbers', 'Update to 1.2.3 today.', 'Update to 1.2.3 today.'],
+    ['a dash range', 'Open 9–5.', 'Open 9 to 5.'],
+    ['a hyphen range', 'Open 9-5.', 'Open 9 to 5.'],
+    ['day and time ranges', 'Mon–Fri, 9am-5pm.', 'Monday to Friday, 9am to 5pm.'],
+    ['year ranges', 'Pages 10–20 and 2024–2025.', 'Pages 10 to 20 and 2024 to 2025.'],
+    ['phone numbers', 'Call 555-1234.', 'Call 555-1234.'],
+  ])('reads %s', (_, markdown, spoken) => {
+    expect(formatForSpeech(markdown)).toBe(spoken)
+  })
+
+  it.each([
+    ['ordered lists as ordinals', '1. Eggs\n2. Milk', 'First, Eggs. Second, Milk.'],
+    ['items past the tenth by number', '12. Tea', 'Number 12, Tea.'],
+    ['bullets as sentences', '- one\n- two', 'one. two.'],
+  ])('reads %s', (_, markdown, spoken) => {
+    expect(formatForSpeech(markdown)).toBe(spoken)
+  })
+
+  it('replaces a code block with a note', () => {
+    expect(formatForSpeech('Run this:\n```sh\nnpm test\n```')).toBe(`Run this: ${CODE_BLOCK_NOTE}`)
+  })
+})
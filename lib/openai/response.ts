@@ -0,0 +1,268 @@
+// Pure helpers for turning assistant output into speakable text. Nothing here
+// touches the OpenAI client, so it is safe to import from browser code.
+
+export const FALLBACK_RESPONSE = "Sorry, I couldn't process your request."
+
+// Spoken in place of a fenced code block; the code itself stays in the chat
+export const CODE_BLOCK_NOTE = "I've put the code in the chat."
+
+const ORDINALS = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth', 'Seventh', 'Eighth', 'Ninth', 'Tenth']
+
+// Only matched with the trailing dot, and titles only when capitalized, so
+// plain words like "no" or "st" are left alone
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\be\.g\./gi, 'for example'],
+  [/\bi\.e\./gi, 'that is'],
+  // "etc." often ends the sentence as well
+  [/\betc\.(?=\s*(?:$|[A-Z]))/gi, 'and so on.'],
+  [/\betc\./gi, 'and so on'],
+  [/\bvs\./gi, 'versus'],
+  [/\bapprox\./gi, 'approximately'],
+  [/\bincl\./gi, 'including'],
+  [/\bca\.(?=\s*\d)/g, 'about'],
+  [/\bNo\.(?=\s*\d)/g, 'number'],
+  [/\bMr\./g, 'Mister'],
+  [/\bMrs\./g, 'Missus'],
+  [/\bMs\./g, 'Miz'],
+  [/\bDr\./g, 'Doctor'],
+  [/\bProf\./g, 'Professor'],
+  [/\bSt\.(?=\s+[A-Z])/g, 'Saint']
+]
+
+const DAYS: Record<string, string> = {
+  Mon: 'Monday',
+  Tue: 'Tuesday',
+  Wed: 'Wednesday',
+  Thu: 'Thursday',
+  Fri: 'Friday',
+  Sat: 'Saturday',
+  Sun: 'Sunday'
+}
+
+// Unit symbol after a number -> [singular, plural]
+const UNITS: Record<string, [string, string]> = {
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  mph: ['mile per hour', 'miles per hour'],
+  km: ['kilometer', 'kilometers'],
+  m: ['meter', 'meters'],
+  cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'],
+  mi: ['mile', 'miles'],
+  ft: ['foot', 'feet'],
+  kg: ['kilogram', 'kilograms'],
+  g: ['gram', 'grams'],
+  mg: ['milligram', 'milligrams'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  l: ['liter', 'liters'],
+  L: ['liter', 'liters'],
+  ml: ['milliliter', 'milliliters'],
+  mL: ['milliliter', 'milliliters'],
+  h: ['hour', 'hours'],
+  hr: ['hour', 'hours'],
+  hrs: ['hour', 'hours'],
+  min: ['minute', 'minutes'],
+  mins: ['minute', 'minutes'],
+  sec: ['second', 'seconds'],
+  secs: ['second', 'seconds'],
+  kWh: ['kilowatt hour', 'kilowatt hours'],
+  kW: ['kilowatt', 'kilowatts'],
+  MB: ['megabyte', 'megabytes'],
+  GB: ['gigabyte', 'gigabytes'],
+  TB: ['terabyte', 'terabytes'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit']
+}
+
+const UNIT_PATTERN = new RegExp(
+  `(\\d(?:[\\d,]*\\d)?(?:\\.\\d+)?)\\s?(${Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .map((unit) => unit.replace(/[/]/g, '\\/'))
+    .join('|')})(?![A-Za-z0-9])`,
+  'g'
+)
+
+const CURRENCIES: Record<string, [string, string]> = {
+  $: ['dollar', 'dollars'],
+  '€': ['euro', 'euros'],
+  '£': ['pound', 'pounds']
+}
+
+const FRACTIONS: Record<string, string> = {
+  '1/2': 'one half',
+  '1/3': 'one third',
+  '2/3': 'two thirds',
+  '1/4': 'one quarter',
+  '3/4': 'three quarters'
+}
+
+const SMALL_NUMBERS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+]
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion']
+
+// Pictographs and dingbats, written as surrogate ranges so no `u` flag is needed
+const EMOJI = /(?:[☀-➿]|[\uD83C-\uD83E][\uDC00-\uDFFF])[️‍]*/g
+
+function pluralize(amount: string, forms: [string, string]) {
+  return amount === '1' ? forms[0] : forms[1]
+}
+
+function belowThousand(n: number) {
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  const words = hundreds ? [`${SMALL_NUMBERS[hundreds]} hundred`] : []
+  if (rest >= 20) {
+    words.push(rest % 10 ? `${TENS[Math.floor(rest / 10)]}-${SMALL_NUMBERS[rest % 10]}` : TENS[Math.floor(rest / 10)])
+  } else if (rest || !hundreds) {
+    words.push(SMALL_NUMBERS[rest])
+  }
+  return words.join(' ')
+}
+
+// "1,250.5" -> "one thousand two hundred fifty point five". Digits past the
+// largest scale are read one by one.
+function numberToWords(number: string) {
+  const [whole, fraction] = number.replace(/,/g, '').split('.')
+  const digitByDigit = (digits: string) => digits.split('').map((digit) => SMALL_NUMBERS[Number(digit)]).join(' ')
+  let words: string
+  if (whole.length > SCALES.length * 3) {
+    words = digitByDigit(whole)
+  } else {
+    const groups: string[] = []
+    for (let end = whole.length, scale = 0; end > 0; end -= 3, scale++) {
+      const group = Number(whole.slice(Math.max(0, end - 3), end))
+      if (group) groups.unshift(SCALES[scale] ? `${belowThousand(group)} ${SCALES[scale]}` : belowThousand(group))
+    }
+    words = groups.length ? groups.join(' ') : 'zero'
+  }
+  return fraction ? `${words} point ${digitByDigit(fraction)}` : words
+}
+
+// A line spoken on its own needs to end like a sentence
+function endSentence(text: string) {
+  const trimmed = text.trim()
+  if (!trimmed) return ''
+  return /[.!?:;,]$/.test(trimmed) ? trimmed : `${trimmed}.`
+}
+
+function hostName(url: string) {
+  const match = url.match(/^https?:\/\/(?:www\.)?([^/\s?#:]+)/i)
+  return match ? match[1] : url
+}
+
+// Removes 【4:0†source】 style citations and numeric [1] / [^1] footnote marks
+function stripCitations(text: string) {
+  return text.replace(/【[^】]*】/g, '').replace(/\s*\[\^?\d+\]/g, '')
+}
+
+function formatInline(text: string) {
+  return (
+    text
+      // Images keep their alt text, links keep their label
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/<https?:\/\/[^>\s]+>/g, (url) => hostName(url.slice(1, -1)))
+      .replace(/https?:\/\/[^\s)\]]+/g, hostName)
+      .replace(/<\/?[a-zA-Z][^>]*>/g, ' ')
+      // Long inline code reads badly; short snippets are usually names
+      .replace(/`([^`]*)`/g, (_, code: string) => (code.length > 40 ? 'the code shown in the chat' : code))
+      .replace(/`/g, '')
+      // Emphasis keeps its text. Stray markers are dropped too, since a sentence
+      // can end before its closing marker arrives.
+      .replace(/\*\*|__|~~|==/g, '')
+      .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, '$1$2')
+      .replace(/\*/g, '')
+      .replace(/(^|\s)_+|_+(?=\s|$)/g, '$1')
+  )
+}
+
+function expandText(text: string) {
+  const expanded = ABBREVIATIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+  return (
+    expanded
+      // Day ranges such as Mon–Fri
+      .replace(/\b(Mon|Tue|Wed|Thu|Fri|Sat|Sun)\s?[–—-]\s?(Mon|Tue|Wed|Thu|Fri|Sat|Sun)\b/g, (_, from: string, to: string) => `${DAYS[from]} to ${DAYS[to]}`)
+      .replace(/\b24\/7\b/g, 'around the clock')
+      // Number ranges: dashes always, hyphens only between short numbers or times
+      .replace(/(\d)\s?[–—]\s?(?=[$€£]?\d)/g, '$1 to ')
+      .replace(/(^|[^\d\-:])(\d{1,2}(?::\d{2})?\s?(?:am|pm|AM|PM)?)-(?=\d{1,2}(?::\d{2})?(?:\s?(?:am|pm|AM|PM))?\b(?!-))/g, '$1$2 to ')
+      .replace(/([$€£])(\d(?:[\d,]*\d)?)(?:\.(\d{2}))?(?![\d.,]*\d)/g, (_, symbol: string, whole: string, cents?: string) => {
+        const amount = `${whole} ${pluralize(whole, CURRENCIES[symbol])}`
+        return cents && cents !== '00' ? `${amount} ${cents}` : amount
+      })
+      .replace(/(\d)\s?%/g, '$1 percent')
+      .replace(UNIT_PATTERN, (_, amount: string, unit: string) => `${amount} ${pluralize(amount, UNITS[unit])}`)
+      .replace(/(^|[^\d/])(1\/2|1\/3|2\/3|1\/4|3\/4)(?![\d/])/g, (_, before: string, fraction: string) => `${before}${FRACTIONS[fraction]}`)
+      .replace(/#(\d)/g, 'number $1')
+      // Separators and decimal points are read out inconsistently by voices;
+      // plain whole numbers are read well and left as digits. Versions and
+      // addresses such as 1.2.3 are left alone.
+      .replace(/(^|[^\w.,])(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+\.\d+)(?![.,]?\d)/g, (_, before: string, number: string) => `${before}${numberToWords(number)}`)
+      .replace(/\s&\s/g, ' and ')
+      .replace(/\bw\//g, 'with ')
+      .replace(EMOJI, '')
+  )
+}
+
+// Turns assistant markdown into plain sentences the avatar can read aloud:
+// lists become spoken enumerations, emphasis and links keep only their text,
+// code blocks are replaced by a short note, and abbreviations, units and
+// amounts are spelled out. Numbers with thousands separators or decimals are
+// read as words; plain whole numbers stay as digits. Formatting a prefix of an
+// answer yields a prefix of the formatted answer, so it can be applied
+// sentence by sentence while streaming.
+export function formatForSpeech(markdown: string): string {
+  const spoken: string[] = []
+  let inCodeBlock = false
+
+  for (const line of stripCitations(markdown).split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      // The note goes out as soon as the block opens; the rest is skipped
+      if (!inCodeBlock) spoken.push(CODE_BLOCK_NOTE)
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+    if (inCodeBlock || !line.trim()) continue
+
+    // Horizontal rules and table separator rows
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/.test(line)) continue
+
+    let text = line.replace(/^\s*(>\s?)+/, '')
+    const heading = text.match(/^\s*#{1,6}\s+(.*?)\s*#*\s*$/)
+    const ordered = text.match(/^\s*(\d+)[.)]\s+(.*)$/)
+    const bullet = text.match(/^\s*[-*+•]\s+(?:\[[ xX]\]\s+)?(.*)$/)
+
+    if (heading) {
+      text = endSentence(formatInline(heading[1]))
+    } else if (ordered) {
+      const index = Number(ordered[1])
+      const item = endSentence(formatInline(ordered[2]))
+      text = item && (index >= 1 && index <= ORDINALS.length ? `${ORDINALS[index - 1]}, ${item}` : `Number ${index}, ${item}`)
+    } else if (bullet) {
+      text = endSentence(formatInline(bullet[1]))
+    } else if (text.includes('|')) {
+      // Table rows read as a comma separated sentence
+      const cells = text.split('|').map((cell) => formatInline(cell).trim()).filter(Boolean)
+      text = endSentence(cells.join(', '))
+    } else {
+      text = endSentence(formatInline(text))
+    }
+    if (text.trim()) spoken.push(text.trim())
+  }
+
+  return expandText(spoken.join(' '))
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .replace(/([.!?])\.+/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+}
+
+// What the chat interface shows: the assistant's markdown as written, minus
+// citation marks that mean nothing outside the OpenAI playground
+export function formatForDisplay(markdown: string): string {
+  return stripCitations(markdown).trim()
+}
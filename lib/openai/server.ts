@@ -0,0 +1,30 @@
+import OpenAI from 'openai'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getAvatarSettings } from '@/lib/supabase/avatar-settings'
+
+export function createOpenAIClient() {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not set in environment variables')
+  }
+
+  return new OpenAI({ apiKey })
+}
+
+export function getAssistantId() {
+  const assistantId = process.env.OPENAI_ASSISTANT_ID
+  if (!assistantId) {
+    throw new Error('OPENAI_ASSISTANT_ID is not set in environment variables')
+  }
+
+  return assistantId
+}
+
+// The avatar's own assistant when it has one configured, else the default
+export async function getAssistantIdForAvatar(supabase: SupabaseClient, avatarId?: string | null) {
+  if (avatarId) {
+    const { assistantId } = await getAvatarSettings(supabase, avatarId)
+    if (assistantId) return assistantId
+  }
+  return getAssistantId()
+}
@@ -0,0 +1,48 @@
+import type { AssistantTool } from './registry'
+
+interface DateTimeArgs {
+  timezone?: string
+}
+
+function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Assistants have no clock of their own. Defaults to ASSISTANT_TIMEZONE, which
+// should be where the screens are, not where the server runs.
+export const dateTimeTool: AssistantTool<DateTimeArgs> = {
+  name: 'get_current_datetime',
+  description: 'Get the current date, time and weekday. Use it whenever the answer depends on today\'s date or the time.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: {
+        type: 'string',
+        description: 'IANA time zone such as "Europe/Berlin". Leave out to use the local time zone of the venue.',
+      },
+    },
+    required: [],
+  },
+  timeoutMs: 1000,
+  handler: async ({ timezone }) => {
+    const timeZone = timezone || process.env.ASSISTANT_TIMEZONE || 'UTC'
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone ${timeZone}`)
+    }
+    const now = new Date()
+    const format = (options: Intl.DateTimeFormatOptions) =>
+      new Intl.DateTimeFormat('en-US', { timeZone, ...options }).format(now)
+    return {
+      timezone: timeZone,
+      date: format({ year: 'numeric', month: 'long', day: 'numeric' }),
+      time: format({ hour: 'numeric', minute: '2-digit' }),
+      weekday: format({ weekday: 'long' }),
+      iso: now.toISOString(),
+    }
+  },
+}
@@ -0,0 +1,16 @@
+import { ToolRegistry } from './registry'
+import { dateTimeTool } from './datetime'
+import { createWebhookTool } from './webhook'
+
+export { ToolRegistry, type AssistantTool, type ToolContext } from './registry'
+
+// Built-in tools; the webhook is only offered when one is configured. Register
+// further tools here.
+export function createDefaultToolRegistry() {
+  const registry = new ToolRegistry().register(dateTimeTool)
+  const webhookUrl = process.env.ASSISTANT_WEBHOOK_URL
+  if (webhookUrl) {
+    registry.register(createWebhookTool(webhookUrl, process.env.ASSISTANT_WEBHOOK_SECRET))
+  }
+  return registry
+}
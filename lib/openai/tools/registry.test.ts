@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { ToolRegistry } from './registry'
+
+const registry = new ToolRegistry().register<{ city: string }>({
+  name: 'weather',
+  description: 'Weather for a city',
+  parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  handler: async ({ city }) => `Sunny in ${city}`,
+})
+
+function call(args: string) {
+  return registry.execute({ id: 'call-1', name: 'weather', arguments: args }, { threadId: 'thread-1' })
+}
+
+describe('ToolRegistry.execute', () => {
+  it('runs the handler with the parsed arguments', async () => {
+    expect(await call('{"city":"Oslo"}')).toMatchObject({ status: 'ok', output: 'Sunny in Oslo', arguments: { city: 'Oslo' } })
+  })
+
+  it.each([
+    ['invalid JSON', '{', 'Arguments are not valid JSON'],
+    ['null', 'null', 'Arguments must be a JSON object'],
+    ['a number', '42', 'Arguments must be a JSON object'],
+    ['an array', '["Oslo"]', 'Arguments must be a JSON object'],
+    ['a missing required argument', '{}', 'Missing required arguments: city'],
+  ])('reports %s as a tool error instead of throwing', async (_, args, error) => {
+    const record = await call(args)
+    expect(record.status).toBe('error')
+    expect(JSON.parse(record.output)).toEqual({ error })
+  })
+})
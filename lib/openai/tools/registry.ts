@@ -0,0 +1,126 @@
+import type { FunctionDefinition } from 'openai/resources/shared'
+import type { ToolCallRecord } from '@/lib/supabase/conversations'
+
+export type ToolParameters = NonNullable<FunctionDefinition['parameters']>
+
+export interface ToolContext {
+  threadId: string
+  // Aborted when the tool times out or the answer is interrupted
+  signal: AbortSignal
+}
+
+export interface AssistantTool<Args = Record<string, unknown>> {
+  name: string
+  description: string
+  // JSON schema for the arguments, sent to the assistant as is
+  parameters: ToolParameters
+  timeoutMs?: number
+  handler: (args: Args, context: ToolContext) => Promise<unknown>
+}
+
+export interface ToolCallRequest {
+  id: string
+  name: string
+  arguments: string
+}
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000
+// Outputs go back into the model's context, so keep them short
+const MAX_TOOL_OUTPUT_LENGTH = 4000
+
+class ToolTimeoutError extends Error {}
+
+// Tools the assistant may call during a run, by function name
+export class ToolRegistry {
+  private tools = new Map<string, AssistantTool>()
+
+  register<Args>(tool: AssistantTool<Args>) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`)
+    }
+    this.tools.set(tool.name, tool as unknown as AssistantTool)
+    return this
+  }
+
+  has(name: string) {
+    return this.tools.has(name)
+  }
+
+  // Function definitions in the shape runs and assistants expect
+  definitions() {
+    return Array.from(this.tools.values()).map((tool) => ({
+      type: 'function' as const,
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }))
+  }
+
+  // Runs one call and never throws: failures, bad arguments and timeouts are
+  // reported to the assistant as the output so it can explain or retry
+  async execute(call: ToolCallRequest, context: Omit<ToolContext, 'signal'> & { signal?: AbortSignal }): Promise<ToolCallRecord> {
+    const startedAt = Date.now()
+    const record = (status: ToolCallRecord['status'], output: unknown, args: unknown = null): ToolCallRecord => ({
+      name: call.name,
+      arguments: args,
+      output: truncate(typeof output === 'string' ? output : JSON.stringify(output ?? null)),
+      status,
+      durationMs: Date.now() - startedAt,
+    })
+
+    const tool = this.tools.get(call.name)
+    if (!tool) {
+      return record('error', { error: `Unknown tool ${call.name}` })
+    }
+
+    let parsed: unknown
+    try {
+      parsed = call.arguments ? JSON.parse(call.arguments) : {}
+    } catch {
+      return record('error', { error: 'Arguments are not valid JSON' })
+    }
+    // Valid JSON can still be null, a number or an array
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return record('error', { error: 'Arguments must be a JSON object' }, parsed)
+    }
+    const args = parsed as Record<string, unknown>
+    const missing = missingRequiredArguments(tool.parameters, args)
+    if (missing.length > 0) {
+      return record('error', { error: `Missing required arguments: ${missing.join(', ')}` }, args)
+    }
+
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    context.signal?.addEventListener('abort', abort, { once: true })
+    let timer: NodeJS.Timeout | undefined
+    try {
+      const output = await Promise.race([
+        tool.handler(args, { threadId: context.threadId, signal: controller.signal }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort()
+            reject(new ToolTimeoutError())
+          }, timeoutMs)
+        }),
+      ])
+      return record('ok', output, args)
+    } catch (error) {
+      if (error instanceof ToolTimeoutError) {
+        return record('timeout', { error: `${call.name} did not answer within ${timeoutMs}ms` }, args)
+      }
+      console.error(`[ToolRegistry] ${call.name} failed:`, error)
+      return record('error', { error: error instanceof Error ? error.message : 'Tool failed' }, args)
+    } finally {
+      clearTimeout(timer)
+      context.signal?.removeEventListener('abort', abort)
+    }
+  }
+}
+
+function truncate(output: string) {
+  return output.length > MAX_TOOL_OUTPUT_LENGTH ? `${output.slice(0, MAX_TOOL_OUTPUT_LENGTH)}…` : output
+}
+
+function missingRequiredArguments(parameters: ToolParameters, args: Record<string, unknown>) {
+  const required = Array.isArray(parameters.required) ? (parameters.required as string[]) : []
+  return required.filter((name) => args[name] === undefined)
+}
@@ -0,0 +1,42 @@
+import type { AssistantTool } from './registry'
+
+interface WebhookArgs {
+  action: string
+  payload?: Record<string, unknown>
+}
+
+// Hands a request to the venue's own systems, e.g. booking a room or calling
+// staff. The webhook gets { action, payload, threadId } as JSON and its reply
+// is passed back to the assistant. Set ASSISTANT_WEBHOOK_SECRET to have it
+// sent as a bearer token.
+export function createWebhookTool(url: string, secret?: string): AssistantTool<WebhookArgs> {
+  return {
+    name: 'call_webhook',
+    description: 'Send a request to the venue\'s backend, for example to look up opening hours, book something or notify staff. Describe the request in action and put details in payload.',
+    parameters: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', description: 'What to do, e.g. "notify_staff" or "opening_hours".' },
+        payload: { type: 'object', description: 'Details for the action.', additionalProperties: true },
+      },
+      required: ['action'],
+    },
+    timeoutMs: 10000,
+    handler: async ({ action, payload }, { threadId, signal }) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+        },
+        body: JSON.stringify({ action, payload: payload ?? {}, threadId }),
+        signal,
+      })
+      const text = await response.text()
+      if (!response.ok) {
+        throw new Error(`Webhook answered ${response.status}: ${text}`)
+      }
+      return text
+    },
+  }
+}
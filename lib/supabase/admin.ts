@@ -0,0 +1,13 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+// Bypasses RLS. Server-only, for work no signed-in user is allowed to do
+// themselves, such as checking kiosk device tokens.
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set in environment variables')
+  }
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+}
@@ -0,0 +1,39 @@
+// Supabase auth errors read like server logs; these are what users see instead.
+// Codes come from the auth API, or from the error_code query parameter when an
+// email link fails before reaching /auth/callback.
+const FRIENDLY_MESSAGES: Record<string, string> = {
+  invalid_credentials: 'That email and password don\'t match. Check them and try again.',
+  email_not_confirmed: 'Please confirm your email first. Check your inbox for the link we sent.',
+  user_already_exists: 'An account with this email already exists. Try logging in instead.',
+  email_exists: 'An account with this email already exists. Try logging in instead.',
+  weak_password: 'That password is too weak. Use at least 8 characters with a mix of letters and numbers.',
+  same_password: 'Your new password must be different from the old one.',
+  signup_disabled: 'Sign-ups are turned off. Ask an admin to invite you.',
+  user_not_found: 'We couldn\'t find an account with that email.',
+  otp_expired: 'This link has expired or was already used. Request a new one.',
+  flow_state_expired: 'This link has expired. Request a new one.',
+  flow_state_not_found: 'This link was opened in a different browser. Open it where you requested it, or request a new one.',
+  bad_code_verifier: 'This link was opened in a different browser. Open it where you requested it, or request a new one.',
+  over_email_send_rate_limit: 'Too many emails sent. Wait a minute before trying again.',
+  over_request_rate_limit: 'Too many attempts. Wait a minute before trying again.',
+  session_not_found: 'Your session has expired. Please log in again.',
+  validation_failed: 'Please check the email address and try again.',
+  access_denied: 'The sign-in link was rejected. Request a new one.',
+  missing_code: 'This link is incomplete. Copy the whole link from the email, or request a new one.',
+}
+
+export const PASSWORD_MIN_LENGTH = 8
+
+export function friendlyAuthError(error: { code?: string; message?: string } | null | undefined): string {
+  if (!error) return 'Something went wrong. Please try again.'
+  if (error.code && FRIENDLY_MESSAGES[error.code]) return FRIENDLY_MESSAGES[error.code]
+  // Older auth servers send no code, only the message
+  const message = error.message?.toLowerCase() ?? ''
+  if (message.includes('invalid login credentials')) return FRIENDLY_MESSAGES.invalid_credentials
+  if (message.includes('email not confirmed')) return FRIENDLY_MESSAGES.email_not_confirmed
+  if (message.includes('already registered')) return FRIENDLY_MESSAGES.user_already_exists
+  if (message.includes('rate limit')) return FRIENDLY_MESSAGES.over_request_rate_limit
+  if (message.includes('password should be')) return FRIENDLY_MESSAGES.weak_password
+  if (message.includes('failed to fetch')) return 'Can\'t reach the server. Check your connection and try again.'
+  return 'Something went wrong. Please try again.'
+}
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface ChromaKeyConfig {
+  minHue: number
+  maxHue: number
+  minSaturation: number
+  threshold: number
+  // Width of the edge ramp, 0 (hard) to 1
+  softness?: number
+  // How much green is removed from the kept pixels, 0 to 1
+  spill?: number
+}
+
+// What shows through where the green screen was keyed out
+export type ChromaBackground =
+  | { type: 'none' }
+  | { type: 'color'; color: string }
+  | { type: 'image'; url: string }
+  | { type: 'video'; url: string }
+
+export type AvatarQualityLevel = 'low' | 'medium' | 'high'
+
+// Text shown over the avatar screen for visitors who cannot hear it
+export interface CaptionSettings {
+  position: 'top' | 'bottom'
+  fontSize: 'small' | 'medium' | 'large'
+  contrast: 'standard' | 'high'
+  // Labels and text direction; null follows the avatar's language
+  language: string | null
+  // Show the visitor's question above the answer
+  showQuestion: boolean
+  // Keep the last answer on screen while idle
+  showRecap: boolean
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  position: 'bottom',
+  fontSize: 'medium',
+  contrast: 'standard',
+  language: null,
+  showQuestion: true,
+  showRecap: true,
+}
+
+export interface AvatarSettings {
+  // OpenAI assistant answering as this avatar; null uses OPENAI_ASSISTANT_ID
+  assistantId: string | null
+  // HeyGen voice; null keeps the avatar's default voice
+  voiceId: string | null
+  voiceRate: number
+  language: string
+  quality: AvatarQualityLevel
+  inactivityTimeoutSeconds: number
+  // Spoken once when the live session starts
+  greeting: string | null
+  chromaKey: ChromaKeyConfig | null
+  background: ChromaBackground | null
+  // null turns captions off
+  captions: CaptionSettings | null
+}
+
+export const DEFAULT_AVATAR_SETTINGS: AvatarSettings = {
+  assistantId: null,
+  voiceId: null,
+  voiceRate: 1,
+  language: 'en',
+  quality: 'high',
+  inactivityTimeoutSeconds: 20,
+  greeting: null,
+  chromaKey: null,
+  background: null,
+  captions: null,
+}
+
+interface AvatarSettingsRow {
+  avatar_id: string
+  assistant_id: string | null
+  voice_id: string | null
+  voice_rate: number
+  language: string
+  quality: AvatarQualityLevel
+  inactivity_timeout_seconds: number
+  greeting: string | null
+  chroma_key: ChromaKeyConfig | null
+  background: ChromaBackground | null
+  captions: CaptionSettings | null
+}
+
+const SETTINGS_COLUMNS =
+  'avatar_id, assistant_id, voice_id, voice_rate, language, quality, inactivity_timeout_seconds, greeting, chroma_key, background, captions'
+
+function toAvatarSettings(row: AvatarSettingsRow): AvatarSettings {
+  return {
+    assistantId: row.assistant_id,
+    voiceId: row.voice_id,
+    voiceRate: row.voice_rate,
+    language: row.language,
+    quality: row.quality,
+    inactivityTimeoutSeconds: row.inactivity_timeout_seconds,
+    greeting: row.greeting,
+    chromaKey: row.chroma_key,
+    background: row.background,
+    captions: row.captions,
+  }
+}
+
+// Settings for one avatar, or the defaults when it has no row
+export async function getAvatarSettings(supabase: SupabaseClient, avatarId: string) {
+  const { data, error } = await supabase
+    .from('avatar_settings')
+    .select(SETTINGS_COLUMNS)
+    .eq('avatar_id', avatarId)
+    .maybeSingle()
+  if (error) throw error
+  return data ? toAvatarSettings(data as AvatarSettingsRow) : DEFAULT_AVATAR_SETTINGS
+}
+
+// Settings keyed by avatar ID; avatars without a row are left out
+export async function listAvatarSettings(supabase: SupabaseClient, avatarIds: string[]) {
+  if (avatarIds.length === 0) return {}
+  const { data, error } = await supabase
+    .from('avatar_settings')
+    .select(SETTINGS_COLUMNS)
+    .in('avatar_id', avatarIds)
+  if (error) throw error
+  const settings: Record<string, AvatarSettings> = {}
+  for (const row of data as AvatarSettingsRow[]) {
+    settings[row.avatar_id] = toAvatarSettings(row)
+  }
+  return settings
+}
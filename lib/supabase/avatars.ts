@@ -0,0 +1,143 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AvatarSettings } from './avatar-settings'
+
+export const AVATAR_MEDIA_BUCKET = 'avatar-media'
+
+export interface Avatar {
+  // HeyGen avatar ID, also the key for settings and conversations
+  avatar_id: string
+  avatar_name: string
+  avatar_preview_image_url: string
+  idle_video_path: string
+  to_live_video_path: string
+  to_idle_video_path: string
+}
+
+export type AvatarMediaKind = 'preview' | 'idle' | 'to_live' | 'to_idle' | 'background'
+
+const AVATAR_COLUMNS =
+  'avatar_id, avatar_name, avatar_preview_image_url, idle_video_path, to_live_video_path, to_idle_video_path'
+
+export async function listAvatars(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('avatars')
+    .select(AVATAR_COLUMNS)
+    .order('avatar_name', { ascending: true })
+  if (error) throw error
+  return data as Avatar[]
+}
+
+export async function getAvatar(supabase: SupabaseClient, avatarId: string) {
+  const { data, error } = await supabase
+    .from('avatars')
+    .select(AVATAR_COLUMNS)
+    .eq('avatar_id', avatarId)
+    .maybeSingle()
+  if (error) throw error
+  return data as Avatar | null
+}
+
+export async function createAvatar(supabase: SupabaseClient, avatar: Avatar) {
+  const { error } = await supabase.from('avatars').insert(avatar)
+  if (error) throw error
+}
+
+// The avatar ID is the key, so it cannot change on update
+export async function updateAvatar(supabase: SupabaseClient, avatarId: string, changes: Omit<Avatar, 'avatar_id'>) {
+  const { error } = await supabase
+    .from('avatars')
+    .update(changes)
+    .eq('avatar_id', avatarId)
+  if (error) throw error
+}
+
+export async function saveAvatarSettings(supabase: SupabaseClient, avatarId: string, settings: AvatarSettings) {
+  const { error } = await supabase
+    .from('avatar_settings')
+    .upsert({
+      avatar_id: avatarId,
+      assistant_id: settings.assistantId,
+      voice_id: settings.voiceId,
+      voice_rate: settings.voiceRate,
+      language: settings.language,
+      quality: settings.quality,
+      inactivity_timeout_seconds: settings.inactivityTimeoutSeconds,
+      greeting: settings.greeting,
+      chroma_key: settings.chromaKey,
+      background: settings.background,
+      captions: settings.captions,
+      updated_at: new Date().toISOString(),
+    })
+  if (error) throw error
+}
+
+// Uploads under the avatar's own folder and returns the public URL the
+// players load directly
+export async function uploadAvatarMedia(supabase: SupabaseClient, avatarId: string, kind: AvatarMediaKind, file: File) {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'bin'
+  const path = `${avatarId}/${kind}-${Date.now()}.${extension}`
+  const { error } = await supabase.storage
+    .from(AVATAR_MEDIA_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false })
+  if (error) throw error
+  return supabase.storage.from(AVATAR_MEDIA_BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+// Path of a public URL inside the media bucket; null for media hosted elsewhere
+function mediaPath(supabase: SupabaseClient, url: string) {
+  const prefix = supabase.storage.from(AVATAR_MEDIA_BUCKET).getPublicUrl('').data.publicUrl
+  return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split('?')[0]) : null
+}
+
+// Bucket paths some avatar still plays. A duplicate points at the original's
+// files rather than copying them, so a file may outlive its folder's avatar.
+async function mediaInUse(supabase: SupabaseClient) {
+  const [avatars, settings] = await Promise.all([
+    supabase.from('avatars').select(AVATAR_COLUMNS),
+    supabase.from('avatar_settings').select('background'),
+  ])
+  if (avatars.error) throw avatars.error
+  if (settings.error) throw settings.error
+  const urls = [
+    ...(avatars.data as Avatar[]).flatMap((avatar) => [
+      avatar.avatar_preview_image_url,
+      avatar.idle_video_path,
+      avatar.to_live_video_path,
+      avatar.to_idle_video_path,
+    ]),
+    ...(settings.data as Pick<AvatarSettings, 'background'>[]).map(({ background }) =>
+      background && 'url' in background ? background.url : ''
+    ),
+  ]
+  return new Set(urls.map((url) => url && mediaPath(supabase, url)).filter(Boolean))
+}
+
+// Removes uploaded media that no avatar uses any more: replaced files, and
+// uploads left behind by a failed save
+export async function removeAvatarMedia(supabase: SupabaseClient, urls: string[]) {
+  const paths = urls.map((url) => mediaPath(supabase, url)).filter((path): path is string => !!path)
+  if (paths.length === 0) return
+  const inUse = await mediaInUse(supabase)
+  const unused = paths.filter((path) => !inUse.has(path))
+  if (unused.length === 0) return
+  const { error } = await supabase.storage.from(AVATAR_MEDIA_BUCKET).remove(unused)
+  if (error) throw error
+}
+
+// Removes the row, its settings and the files in its media folder, except
+// those a duplicated avatar still plays
+export async function deleteAvatar(supabase: SupabaseClient, avatarId: string) {
+  const { error } = await supabase.from('avatars').delete().eq('avatar_id', avatarId)
+  if (error) throw error
+
+  const { error: settingsError } = await supabase.from('avatar_settings').delete().eq('avatar_id', avatarId)
+  if (settingsError) throw settingsError
+
+  const storage = supabase.storage.from(AVATAR_MEDIA_BUCKET)
+  const { data: files, error: listError } = await storage.list(avatarId)
+  if (listError) throw listError
+  await removeAvatarMedia(
+    supabase,
+    files.map((file) => storage.getPublicUrl(`${avatarId}/${file.name}`).data.publicUrl)
+  )
+}
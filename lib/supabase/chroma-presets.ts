@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ChromaKeyConfig } from './avatar-settings'
+
+export interface ChromaPreset {
+  id: string
+  // null: available for every avatar
+  avatar_id: string | null
+  name: string
+  config: ChromaKeyConfig
+  created_at: string
+}
+
+// What goes in and out of an exported JSON file
+export interface ChromaPresetExport {
+  version: 1
+  presets: { name: string; avatarId: string | null; config: ChromaKeyConfig }[]
+}
+
+const PRESET_COLUMNS = 'id, avatar_id, name, config, created_at'
+
+// The user's presets for this avatar plus their avatar-independent ones
+export async function listChromaPresets(supabase: SupabaseClient, avatarId?: string | null) {
+  let query = supabase
+    .from('chroma_presets')
+    .select(PRESET_COLUMNS)
+    .order('name', { ascending: true })
+  query = avatarId
+    ? query.or(`avatar_id.is.null,avatar_id.eq."${avatarId.replace(/"/g, '\\"')}"`)
+    : query.is('avatar_id', null)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data as ChromaPreset[]
+}
+
+export async function saveChromaPreset(
+  supabase: SupabaseClient,
+  preset: { name: string; avatarId: string | null; config: ChromaKeyConfig }
+) {
+  const { data, error } = await supabase
+    .from('chroma_presets')
+    .insert({ name: preset.name, avatar_id: preset.avatarId, config: preset.config })
+    .select(PRESET_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as ChromaPreset
+}
+
+export async function deleteChromaPreset(supabase: SupabaseClient, presetId: string) {
+  const { error } = await supabase.from('chroma_presets').delete().eq('id', presetId)
+  if (error) throw error
+}
+
+export function exportChromaPresets(presets: ChromaPreset[]): string {
+  const file: ChromaPresetExport = {
+    version: 1,
+    presets: presets.map((preset) => ({ name: preset.name, avatarId: preset.avatar_id, config: preset.config })),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+function isChromaKeyConfig(value: any): value is ChromaKeyConfig {
+  return (
+    value &&
+    ['minHue', 'maxHue', 'minSaturation', 'threshold'].every((key) => typeof value[key] === 'number') &&
+    ['softness', 'spill'].every((key) => value[key] === undefined || typeof value[key] === 'number')
+  )
+}
+
+// Throws with a readable message when the file is not an export
+export function parseChromaPresetExport(json: string): ChromaPresetExport['presets'] {
+  let file: any
+  try {
+    file = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  if (file?.version !== 1 || !Array.isArray(file.presets)) {
+    throw new Error('The file is not a chroma preset export')
+  }
+  return file.presets.map((preset: any, index: number) => {
+    if (typeof preset?.name !== 'string' || !preset.name.trim() || !isChromaKeyConfig(preset.config)) {
+      throw new Error(`Preset ${index + 1} is missing a name or has an invalid config`)
+    }
+    const { minHue, maxHue, minSaturation, threshold, softness, spill } = preset.config
+    return {
+      name: preset.name.trim(),
+      avatarId: typeof preset.avatarId === 'string' ? preset.avatarId : null,
+      config: { minHue, maxHue, minSaturation, threshold, softness, spill },
+    }
+  })
+}
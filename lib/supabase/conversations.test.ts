@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { type ToolCallRecord, exportConversation, parseConversationExport } from './conversations'
+
+const toolCall: ToolCallRecord = {
+  name: 'get_opening_hours',
+  arguments: { day: 'monday' },
+  output: '9am-5pm',
+  status: 'ok',
+  durationMs: 120,
+}
+
+function exportFile(message: Record<string, unknown>) {
+  return JSON.stringify({
+    version: 1,
+    avatarId: 'avatar-1',
+    exportedAt: '2026-10-01T12:00:00.000Z',
+    messages: [{ question: 'Hi', response: 'Hello', createdAt: '2026-10-01T11:59:00.000Z', ...message }],
+  })
+}
+
+describe('parseConversationExport', () => {
+  it('reads back everything exportConversation writes', () => {
+    const message = {
+      question: 'Hi',
+      response: 'Hel',
+      createdAt: '2026-10-01T11:59:00.000Z',
+      status: 'failed' as const,
+      toolCalls: [toolCall],
+      runId: 'run-1',
+      latency: { firstTokenMs: 300, totalMs: 900 },
+      usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+      error: 'The assistant run expired',
+    }
+    const json = exportConversation('avatar-1', [{ id: 'message-1', ...message }])
+    expect(parseConversationExport(json).messages).toEqual([message])
+  })
+
+  it('imports an old export without run details', () => {
+    expect(parseConversationExport(exportFile({})).messages[0]).toMatchObject({
+      toolCalls: [],
+      runId: null,
+      latency: null,
+      usage: null,
+      error: null,
+    })
+  })
+
+  it.each([
+    ['an unfinished answer', { status: 'speaking' }, 'failed'],
+    ['an old export of an interrupted answer', { interrupted: true }, 'interrupted'],
+    ['an old export of a finished answer', {}, 'done'],
+  ])('imports the status of %s', (_, message, status) => {
+    expect(parseConversationExport(exportFile(message)).messages[0].status).toBe(status)
+  })
+
+  it('drops fields a tool call does not have', () => {
+    const [message] = parseConversationExport(exportFile({ toolCalls: [{ ...toolCall, extra: true }] })).messages
+    expect(message.toolCalls).toEqual([toolCall])
+  })
+
+  it.each([
+    ['not JSON', '{', 'The file is not valid JSON'],
+    ['not an export', JSON.stringify([1, 2]), 'The file is not a conversation export'],
+    ['a message without a question', exportFile({ question: 1 }), 'Message 1 has no question or response'],
+    ['a message without a time', exportFile({ createdAt: 'yesterday' }), 'Message 1 has no valid createdAt time'],
+    ['a malformed tool call', exportFile({ toolCalls: [{ ...toolCall, status: 'maybe' }] }), 'Message 1 has invalid tool calls'],
+    ['tool calls that are not a list', exportFile({ toolCalls: 'none' }), 'Message 1 has invalid tool calls'],
+    ['a malformed usage', exportFile({ usage: { totalTokens: '12' } }), 'Message 1 has an invalid usage'],
+    ['a malformed latency', exportFile({ latency: { totalMs: 'slow' } }), 'Message 1 has an invalid latency'],
+  ])('rejects %s', (_, json, message) => {
+    expect(() => parseConversationExport(json)).toThrow(message)
+  })
+})
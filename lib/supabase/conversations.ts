@@ -0,0 +1,488 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface Conversation {
+  id: string
+  avatar_id: string
+  thread_id: string | null
+  // Set by the user; null until renamed
+  title: string | null
+  pinned: boolean
+  created_at: string
+  updated_at: string
+}
+
+// A conversation as the sidebar lists it
+export interface ConversationSummary extends Conversation {
+  // Stands in for the title until the conversation is renamed
+  first_question: string | null
+}
+
+// One message matching a search, with the conversation it belongs to
+export interface MessageSearchResult {
+  id: string
+  conversation_id: string
+  question: string
+  response: string
+  created_at: string
+}
+
+// One function the assistant called while answering
+export interface ToolCallRecord {
+  name: string
+  arguments: unknown
+  output: string
+  status: 'ok' | 'error' | 'timeout'
+  durationMs: number
+}
+
+// queued: asked, not yet picked up by the avatar screen
+// thinking: the assistant is answering; speaking: the avatar is saying it
+// interrupted: the user cut the answer short
+export type MessageStatus = 'queued' | 'thinking' | 'speaking' | 'done' | 'failed' | 'interrupted'
+
+// Milliseconds from the question reaching the avatar screen
+export interface MessageLatency {
+  firstTokenMs?: number
+  firstSpeechMs?: number
+  totalMs?: number
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ChatMessage {
+  // Chosen by the console that asks the question and kept by the saved row,
+  // so every window refers to the exchange by the same ID from the start
+  id: string
+  question: string
+  response: string
+  // ISO time the question was asked
+  createdAt: string
+  status: MessageStatus
+  // The assistant run that answered, once the server has started it
+  runId?: string | null
+  latency?: MessageLatency | null
+  usage?: TokenUsage | null
+  // Why a failed answer failed
+  error?: string | null
+  toolCalls?: ToolCallRecord[]
+}
+
+// What the avatar screen changes on a message as the answer progresses
+export type MessageUpdate = Partial<Pick<ChatMessage, 'response' | 'status' | 'latency' | 'error'>>
+
+interface MessageRow {
+  id: string
+  question: string
+  response: string
+  status: MessageStatus
+  run_id: string | null
+  latency: MessageLatency | null
+  usage: TokenUsage | null
+  error: string | null
+  tool_calls: ToolCallRecord[] | null
+  created_at: string
+}
+
+const MESSAGE_COLUMNS = 'id, question, response, status, run_id, latency, usage, error, tool_calls, created_at'
+
+function toChatMessage(row: MessageRow): ChatMessage {
+  return {
+    id: row.id,
+    question: row.question,
+    response: row.response,
+    createdAt: row.created_at,
+    status: row.status,
+    runId: row.run_id,
+    latency: row.latency,
+    usage: row.usage,
+    error: row.error,
+    toolCalls: row.tool_calls ?? [],
+  }
+}
+
+// What goes in and out of an exported JSON file
+export interface ConversationExport {
+  version: 1
+  avatarId: string
+  exportedAt: string
+  messages: {
+    question: string
+    response: string
+    createdAt: string
+    status: MessageStatus
+    toolCalls: ToolCallRecord[]
+    // Null in exports from before they were recorded
+    runId: string | null
+    latency: MessageLatency | null
+    usage: TokenUsage | null
+    error: string | null
+  }[]
+}
+
+const CONVERSATION_COLUMNS = 'id, avatar_id, thread_id, title, pinned, created_at, updated_at'
+const SEARCH_RESULT_LIMIT = 100
+
+// Most recently active conversation for the signed-in user, optionally
+// narrowed to one avatar. RLS limits the rows to the current user.
+export async function getLatestConversation(supabase: SupabaseClient, avatarId?: string | null) {
+  let query = supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+  if (avatarId) {
+    query = query.eq('avatar_id', avatarId)
+  }
+
+  const { data, error } = await query.maybeSingle()
+  if (error) throw error
+  return data as Conversation | null
+}
+
+// Resume the latest conversation with this avatar, or start a new one
+export async function getOrCreateConversation(supabase: SupabaseClient, avatarId: string) {
+  const existing = await getLatestConversation(supabase, avatarId)
+  return existing ?? createConversation(supabase, avatarId)
+}
+
+// Always a new conversation; its assistant thread is created when the avatar
+// screen first uses it
+export async function createConversation(supabase: SupabaseClient, avatarId: string) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({ avatar_id: avatarId })
+    .select(CONVERSATION_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as Conversation
+}
+
+export async function getConversation(supabase: SupabaseClient, conversationId: string) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', conversationId)
+    .maybeSingle()
+  if (error) throw error
+  return data as Conversation | null
+}
+
+// The user's conversations, pinned ones first, then most recently active
+export async function listConversations(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(`${CONVERSATION_COLUMNS}, messages(question)`)
+    .order('pinned', { ascending: false })
+    .order('updated_at', { ascending: false })
+    .order('created_at', { referencedTable: 'messages', ascending: true })
+    .limit(1, { referencedTable: 'messages' })
+  if (error) throw error
+  return (data as (Conversation & { messages: { question: string }[] })[]).map(({ messages, ...conversation }) => ({
+    ...conversation,
+    first_question: messages[0]?.question ?? null,
+  })) as ConversationSummary[]
+}
+
+export async function renameConversation(supabase: SupabaseClient, conversationId: string, title: string | null) {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ title: title?.trim() || null })
+    .eq('id', conversationId)
+  if (error) throw error
+}
+
+export async function setConversationPinned(supabase: SupabaseClient, conversationId: string, pinned: boolean) {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ pinned })
+    .eq('id', conversationId)
+  if (error) throw error
+}
+
+// Messages and recording rows go with it; recording files are removed by the
+// caller through deleteSessionRecording first
+export async function deleteConversation(supabase: SupabaseClient, conversationId: string) {
+  const { error } = await supabase.from('conversations').delete().eq('id', conversationId)
+  if (error) throw error
+}
+
+// Full-text search over questions and answers in all of the user's
+// conversations, newest first. Accepts web search syntax: "quoted phrases",
+// or, and -excluded words.
+export async function searchMessages(supabase: SupabaseClient, query: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, conversation_id, question, response, created_at')
+    .textSearch('search', query, { type: 'websearch', config: 'simple' })
+    .order('created_at', { ascending: false })
+    .limit(SEARCH_RESULT_LIMIT)
+  if (error) throw error
+  return data as MessageSearchResult[]
+}
+
+export async function setConversationThread(supabase: SupabaseClient, conversationId: string, threadId: string) {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ thread_id: threadId })
+    .eq('id', conversationId)
+  if (error) throw error
+}
+
+// True if one of the signed-in user's conversations uses the thread. RLS keeps
+// other users' conversations out of the lookup.
+export async function ownsThread(supabase: SupabaseClient, threadId: string) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('thread_id', threadId)
+    .limit(1)
+  if (error) throw error
+  return data.length > 0
+}
+
+export async function listMessages(supabase: SupabaseClient, conversationId: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return (data as MessageRow[]).map(toChatMessage)
+}
+
+// Saves the question as being answered. Asking again with the ID of a failed
+// message starts it over in place.
+export async function insertMessage(supabase: SupabaseClient, conversationId: string, messageId: string, question: string) {
+  const { error } = await supabase
+    .from('messages')
+    .upsert({
+      id: messageId,
+      conversation_id: conversationId,
+      question,
+      response: '',
+      status: 'thinking',
+      run_id: null,
+      latency: null,
+      usage: null,
+      error: null,
+      tool_calls: [],
+    }, { onConflict: 'id' })
+  if (error) throw error
+}
+
+export async function updateMessage(supabase: SupabaseClient, messageId: string, changes: MessageUpdate) {
+  const { error } = await supabase
+    .from('messages')
+    .update(changes)
+    .eq('id', messageId)
+  if (error) throw error
+}
+
+// The run is recorded by the server, which is the only side that sees it
+export async function recordMessageRun(
+  supabase: SupabaseClient,
+  messageId: string,
+  run: { runId: string; usage?: TokenUsage | null }
+) {
+  const { error } = await supabase
+    .from('messages')
+    .update({ run_id: run.runId, ...(run.usage !== undefined ? { usage: run.usage } : {}) })
+    .eq('id', messageId)
+  if (error) throw error
+}
+
+// Tool calls are recorded by the server as the run makes them, separately from
+// the response text the client saves
+export async function appendToolCalls(supabase: SupabaseClient, messageId: string, records: ToolCallRecord[]) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('tool_calls')
+    .eq('id', messageId)
+    .single()
+  if (error) throw error
+  const { error: updateError } = await supabase
+    .from('messages')
+    .update({ tool_calls: [...(data.tool_calls ?? []), ...records] })
+    .eq('id', messageId)
+  if (updateError) throw updateError
+}
+
+export async function clearMessages(supabase: SupabaseClient, conversationId: string) {
+  const { error } = await supabase
+    .from('messages')
+    .delete()
+    .eq('conversation_id', conversationId)
+  if (error) throw error
+}
+
+export function exportConversation(avatarId: string, messages: ChatMessage[]): string {
+  const file: ConversationExport = {
+    version: 1,
+    avatarId,
+    exportedAt: new Date().toISOString(),
+    messages: messages.map((message) => ({
+      question: message.question,
+      response: message.response,
+      createdAt: message.createdAt,
+      status: message.status,
+      toolCalls: message.toolCalls ?? [],
+      runId: message.runId ?? null,
+      latency: message.latency ?? null,
+      usage: message.usage ?? null,
+      error: message.error ?? null,
+    })),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+const MESSAGE_STATUSES: MessageStatus[] = ['queued', 'thinking', 'speaking', 'done', 'failed', 'interrupted']
+const TOOL_CALL_STATUSES: ToolCallRecord['status'][] = ['ok', 'error', 'timeout']
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isMessageStatus(value: unknown): value is MessageStatus {
+  return MESSAGE_STATUSES.includes(value as MessageStatus)
+}
+
+function isToolCallRecord(value: unknown): value is ToolCallRecord {
+  return (
+    isObject(value) &&
+    typeof value.name === 'string' &&
+    'arguments' in value &&
+    typeof value.output === 'string' &&
+    TOOL_CALL_STATUSES.includes(value.status as ToolCallRecord['status']) &&
+    typeof value.durationMs === 'number'
+  )
+}
+
+// Exports from before message statuses only flag interrupted answers.
+// Answers that were still in progress when exported count as failed.
+function importedStatus(message: JsonObject): MessageStatus {
+  const { status } = message
+  if (isMessageStatus(status)) {
+    return status === 'queued' || status === 'thinking' || status === 'speaking' ? 'failed' : status
+  }
+  return message.interrupted === true ? 'interrupted' : 'done'
+}
+
+// Exports from before tool calls were recorded have none
+function importedToolCalls(message: JsonObject, index: number): ToolCallRecord[] {
+  if (message.toolCalls === undefined) return []
+  if (!Array.isArray(message.toolCalls) || !message.toolCalls.every(isToolCallRecord)) {
+    throw new Error(`Message ${index + 1} has invalid tool calls`)
+  }
+  return message.toolCalls.map(({ name, arguments: args, output, status, durationMs }) => ({
+    name,
+    arguments: args,
+    output,
+    status,
+    durationMs,
+  }))
+}
+
+function isLatency(value: unknown): value is MessageLatency {
+  return (
+    isObject(value) &&
+    ['firstTokenMs', 'firstSpeechMs', 'totalMs'].every((key) => value[key] === undefined || typeof value[key] === 'number')
+  )
+}
+
+function isTokenUsage(value: unknown): value is TokenUsage {
+  return (
+    isObject(value) &&
+    typeof value.promptTokens === 'number' &&
+    typeof value.completionTokens === 'number' &&
+    typeof value.totalTokens === 'number'
+  )
+}
+
+// A field that may be missing or null; anything else has to pass the check
+function importedField<T>(message: JsonObject, key: string, index: number, check: (value: unknown) => value is T): T | null {
+  const value = message[key]
+  if (value === undefined || value === null) return null
+  if (!check(value)) throw new Error(`Message ${index + 1} has an invalid ${key}`)
+  return value
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+function importedMessage(message: unknown, index: number): ConversationExport['messages'][number] {
+  if (!isObject(message) || typeof message.question !== 'string' || typeof message.response !== 'string') {
+    throw new Error(`Message ${index + 1} has no question or response`)
+  }
+  if (typeof message.createdAt !== 'string' || Number.isNaN(Date.parse(message.createdAt))) {
+    throw new Error(`Message ${index + 1} has no valid createdAt time`)
+  }
+  return {
+    question: message.question,
+    response: message.response,
+    createdAt: new Date(message.createdAt).toISOString(),
+    status: importedStatus(message),
+    toolCalls: importedToolCalls(message, index),
+    runId: importedField(message, 'runId', index, isString),
+    latency: importedField(message, 'latency', index, isLatency),
+    usage: importedField(message, 'usage', index, isTokenUsage),
+    error: importedField(message, 'error', index, isString),
+  }
+}
+
+// Throws with a readable message when the file is not an export
+export function parseConversationExport(json: string): ConversationExport {
+  let file: unknown
+  try {
+    file = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  if (!isObject(file) || file.version !== 1 || typeof file.avatarId !== 'string' || !Array.isArray(file.messages)) {
+    throw new Error('The file is not a conversation export')
+  }
+  return {
+    version: 1,
+    avatarId: file.avatarId,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : new Date().toISOString(),
+    messages: file.messages.map(importedMessage),
+  }
+}
+
+// Restores an export as a new conversation, keeping each message's original
+// time. The conversation becomes the most recently active one.
+export async function importConversation(supabase: SupabaseClient, file: ConversationExport) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({ avatar_id: file.avatarId })
+    .select(CONVERSATION_COLUMNS)
+    .single()
+  if (error) throw error
+  const conversation = data as Conversation
+
+  if (file.messages.length > 0) {
+    const { error: messagesError } = await supabase.from('messages').insert(
+      file.messages.map((message) => ({
+        conversation_id: conversation.id,
+        question: message.question,
+        response: message.response,
+        status: message.status,
+        tool_calls: message.toolCalls,
+        run_id: message.runId,
+        latency: message.latency,
+        usage: message.usage,
+        error: message.error,
+        created_at: message.createdAt,
+      }))
+    )
+    if (messagesError) {
+      await supabase.from('conversations').delete().eq('id', conversation.id)
+      throw messagesError
+    }
+  }
+  return conversation
+}
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface KioskDevice {
+  id: string
+  name: string
+  user_id: string
+  avatar_id: string | null
+  has_pin: boolean
+}
+
+export function hashDeviceToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Looks the token up with the admin client. Revoked devices and devices
+// registered for a different avatar are treated as unknown.
+export async function findKioskDevice(admin: SupabaseClient, token: string, avatarId: string): Promise<KioskDevice | null> {
+  const { data, error } = await admin
+    .from('kiosk_devices')
+    .select('id, name, user_id, avatar_id, pin_hash')
+    .eq('token_hash', hashDeviceToken(token))
+    .is('revoked_at', null)
+    .maybeSingle()
+  if (error) throw error
+  if (!data || (data.avatar_id !== null && data.avatar_id !== avatarId)) return null
+  return {
+    id: data.id,
+    name: data.name,
+    user_id: data.user_id,
+    avatar_id: data.avatar_id,
+    has_pin: data.pin_hash !== null,
+  }
+}
+
+export async function touchKioskDevice(admin: SupabaseClient, deviceId: string) {
+  const { error } = await admin
+    .from('kiosk_devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', deviceId)
+  if (error) throw error
+}
+
+export interface KioskPinCheck {
+  unlocked: boolean
+  // Set while wrong PINs have locked the device out
+  lockedUntil: string | null
+}
+
+// Counts wrong PINs per device; see the kiosk_pin_lockout migration
+export async function checkKioskPin(admin: SupabaseClient, token: string, pin: string): Promise<KioskPinCheck> {
+  const { data, error } = await admin
+    .rpc('check_kiosk_pin', {
+      device_token_hash: hashDeviceToken(token),
+      pin,
+    })
+    .single()
+  if (error) throw error
+  const result = data as { unlocked: boolean; locked_until: string | null }
+  return { unlocked: result.unlocked, lockedUntil: result.locked_until }
+}
+
+// Signs the server client in as the device's account by minting a one-time
+// magic link token and redeeming it straight away, so the session cookies
+// land on the kiosk's browser
+export async function signInAsKioskDevice(admin: SupabaseClient, supabase: SupabaseClient, device: KioskDevice) {
+  const { data: userData, error: userError } = await admin.auth.admin.getUserById(device.user_id)
+  if (userError) throw userError
+  const email = userData.user.email
+  if (!email) throw new Error(`Kiosk account for ${device.name} has no email`)
+
+  const { data: linkData, error: linkError } = await admin.auth.admin.generateLink({ type: 'magiclink', email })
+  if (linkError) throw linkError
+
+  const { error } = await supabase.auth.verifyOtp({
+    token_hash: linkData.properties.hashed_token,
+    type: 'magiclink',
+  })
+  if (error) throw error
+}
@@ -0,0 +1,20 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Pairing codes guard the private Realtime channel between an avatar screen
+// and chat consoles on other devices (see the avatar_pairings migration).
+
+// Claims the code for this screen, or renews it. False if another screen
+// holds it, in which case the screen picks a new code.
+export async function registerPairing(supabase: SupabaseClient, code: string) {
+  const { data, error } = await supabase.rpc('register_avatar_pairing', { pairing_code: code })
+  if (error) throw error
+  return data as boolean
+}
+
+// Lets the signed-in console onto the screen's channel. False for a code no
+// screen holds.
+export async function joinPairing(supabase: SupabaseClient, code: string) {
+  const { data, error } = await supabase.rpc('join_avatar_pairing', { pairing_code: code })
+  if (error) throw error
+  return data as boolean
+}
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const SESSION_RECORDINGS_BUCKET = 'session-recordings'
+
+// Signed download links stay valid this long
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60
+
+export interface SessionRecording {
+  id: string
+  conversation_id: string
+  avatar_id: string
+  video_path: string
+  captions_path: string
+  duration_ms: number
+  size_bytes: number
+  created_at: string
+}
+
+export interface NewSessionRecording {
+  conversationId: string
+  avatarId: string
+  video: Blob
+  // WebVTT document
+  captions: string
+  durationMs: number
+}
+
+const RECORDING_COLUMNS = 'id, conversation_id, avatar_id, video_path, captions_path, duration_ms, size_bytes, created_at'
+
+// Uploads the video and its captions under <user id>/<conversation id>/ and
+// records them. Storage policies only allow writes to the user's own folder.
+export async function saveSessionRecording(supabase: SupabaseClient, recording: NewSessionRecording) {
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+  if (userError) throw userError
+  if (!user) throw new Error('Not signed in')
+
+  const basePath = `${user.id}/${recording.conversationId}/${Date.now()}`
+  const storage = supabase.storage.from(SESSION_RECORDINGS_BUCKET)
+  const { error: videoError } = await storage.upload(`${basePath}.webm`, recording.video, {
+    contentType: recording.video.type || 'video/webm',
+    upsert: false,
+  })
+  if (videoError) throw videoError
+  const { error: captionsError } = await storage.upload(`${basePath}.vtt`, new Blob([recording.captions], { type: 'text/vtt' }), {
+    contentType: 'text/vtt',
+    upsert: false,
+  })
+  if (captionsError) throw captionsError
+
+  const { data, error } = await supabase
+    .from('session_recordings')
+    .insert({
+      conversation_id: recording.conversationId,
+      avatar_id: recording.avatarId,
+      video_path: `${basePath}.webm`,
+      captions_path: `${basePath}.vtt`,
+      duration_ms: Math.round(recording.durationMs),
+      size_bytes: recording.video.size,
+    })
+    .select(RECORDING_COLUMNS)
+    .single()
+  if (error) throw error
+  return data as SessionRecording
+}
+
+export async function listSessionRecordings(supabase: SupabaseClient, conversationId: string) {
+  const { data, error } = await supabase
+    .from('session_recordings')
+    .select(RECORDING_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return data as SessionRecording[]
+}
+
+// The bucket is private, so downloads go through short-lived signed URLs that
+// save under a readable file name
+export async function getRecordingDownloadUrl(supabase: SupabaseClient, recording: SessionRecording, file: 'video' | 'captions') {
+  const path = file === 'video' ? recording.video_path : recording.captions_path
+  const stamp = recording.created_at.slice(0, 19).replace(/[:T]/g, '-')
+  const fileName = `${recording.avatar_id}-${stamp}.${file === 'video' ? 'webm' : 'vtt'}`
+  const { data, error } = await supabase.storage
+    .from(SESSION_RECORDINGS_BUCKET)
+    .createSignedUrl(path, DOWNLOAD_URL_TTL_SECONDS, { download: fileName })
+  if (error) throw error
+  return data.signedUrl
+}
+
+export async function deleteSessionRecording(supabase: SupabaseClient, recording: SessionRecording) {
+  const { error: storageError } = await supabase.storage
+    .from(SESSION_RECORDINGS_BUCKET)
+    .remove([recording.video_path, recording.captions_path])
+  if (storageError) throw storageError
+  const { error } = await supabase.from('session_recordings').delete().eq('id', recording.id)
+  if (error) throw error
+}
@@ -0,0 +1,40 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Admins manage avatars and settings, operators run the avatar screen and the
+// chat console, viewers only browse the avatars: a screen can go live, which
+// spends HeyGen and OpenAI credit. Each role can do everything the ones below
+// it can.
+export type Role = 'viewer' | 'operator' | 'admin'
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 }
+
+export function hasRole(role: Role | null, required: Role) {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+// Users without a profile row get the least access
+export async function getRole(supabase: SupabaseClient, userId: string): Promise<Role> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle()
+  if (error) throw error
+  return (data?.role as Role | undefined) ?? 'viewer'
+}
+
+// Minimum role per route, checked by the middleware. Everything else is open
+// to any signed-in user; avatar data is also guarded by RLS.
+const ROUTE_ROLES: { prefix: string; role: Role }[] = [
+  { prefix: '/analytics', role: 'admin' },
+  { prefix: '/chat-interface', role: 'operator' },
+  { prefix: '/api/transcribe', role: 'operator' },
+  // Going live spends HeyGen and OpenAI credit
+  { prefix: '/api/assistant', role: 'operator' },
+  { prefix: '/api/heygen', role: 'operator' },
+]
+
+export function requiredRoleForPath(pathname: string): Role | null {
+  const rule = ROUTE_ROLES.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  return rule?.role ?? null
+}
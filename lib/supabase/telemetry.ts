@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type SessionEndReason = 'closed' | 'inactivity' | 'error' | 'unload'
+
+export interface AvatarSession {
+  id: string
+  avatar_id: string
+  started_at: string
+  ended_at: string | null
+  end_reason: SessionEndReason | null
+}
+
+// What each event type carries in its data column
+export type SessionEventInput =
+  | { type: 'phase'; data: { phase: string; durationMs: number } }
+  | { type: 'question'; data: { question: string } }
+  | { type: 'assistant_latency'; data: { latencyMs: number } }
+  | { type: 'first_word'; data: { latencyMs: number } }
+  | { type: 'speak'; data: { durationMs: number } }
+  | { type: 'error'; data: { message: string } }
+  | { type: 'disconnect'; data: Record<string, never> }
+
+export type SessionEvent = SessionEventInput & {
+  id: string
+  session_id: string
+  created_at: string
+}
+
+export async function startAvatarSession(supabase: SupabaseClient, avatarId: string) {
+  const { data, error } = await supabase
+    .from('avatar_sessions')
+    .insert({ avatar_id: avatarId })
+    .select('id')
+    .single()
+  if (error) throw error
+  return data.id as string
+}
+
+export async function endAvatarSession(supabase: SupabaseClient, sessionId: string, reason: SessionEndReason) {
+  const { error } = await supabase
+    .from('avatar_sessions')
+    .update({ ended_at: new Date().toISOString(), end_reason: reason })
+    .eq('id', sessionId)
+  if (error) throw error
+}
+
+export async function insertSessionEvents(
+  supabase: SupabaseClient,
+  sessionId: string,
+  events: (SessionEventInput & { created_at: string })[]
+) {
+  if (events.length === 0) return
+  const { error } = await supabase
+    .from('session_events')
+    .insert(events.map((event) => ({ session_id: sessionId, ...event })))
+  if (error) throw error
+}
+
+export async function listAvatarSessionsSince(supabase: SupabaseClient, since: Date) {
+  const { data, error } = await supabase
+    .from('avatar_sessions')
+    .select('id, avatar_id, started_at, ended_at, end_reason')
+    .gte('started_at', since.toISOString())
+    .order('started_at', { ascending: true })
+  if (error) throw error
+  return data as AvatarSession[]
+}
+
+const EVENT_PAGE_SIZE = 1000
+
+// Reads page by page, since a busy month has more events than one response holds
+export async function listSessionEventsSince(supabase: SupabaseClient, since: Date) {
+  const events: SessionEvent[] = []
+  for (let from = 0; ; from += EVENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('session_events')
+      .select('id, session_id, type, data, created_at')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, from + EVENT_PAGE_SIZE - 1)
+    if (error) throw error
+    events.push(...(data as SessionEvent[]))
+    if (data.length < EVENT_PAGE_SIZE) return events
+  }
+}
@@ -1,5 +1,6 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { getRole, hasRole, requiredRoleForPath } from '@/lib/supabase/roles'
 
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
@@ -31,8 +32,18 @@ export async function middleware(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser()
 
+  // Kiosk screens sign themselves in with a device token
+  const isKiosk =
+    request.nextUrl.pathname.startsWith('/kiosk') ||
+    request.nextUrl.pathname.startsWith('/api/kiosk')
+
+  if (!user && !isKiosk && request.nextUrl.pathname.startsWith('/api')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
   if (
     !user &&
+    !isKiosk &&
     !request.nextUrl.pathname.startsWith('/login') &&
     !request.nextUrl.pathname.startsWith('/auth')
   ) {
@@ -41,6 +52,25 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url)
   }
 
+  const requiredRole = user ? requiredRoleForPath(request.nextUrl.pathname) : null
+  if (user && requiredRole) {
+    let allowed = false
+    try {
+      allowed = hasRole(await getRole(supabase, user.id), requiredRole)
+    } catch (error) {
+      console.error('Error checking role:', error)
+    }
+    if (!allowed) {
+      if (request.nextUrl.pathname.startsWith('/api')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+      const url = request.nextUrl.clone()
+      url.pathname = '/'
+      url.search = ''
+      return NextResponse.redirect(url)
+    }
+  }
+
   return supabaseResponse
 }
 
@@ -0,0 +1,36 @@
+import { defineConfig, devices } from '@playwright/test';
+
+// End-to-end suite against a production build with HeyGen and OpenAI mocked.
+// Supabase must be running; see e2e/global-setup.ts for what it seeds.
+const PORT = 3100;
+
+export default defineConfig({
+  testDir: './e2e',
+  globalSetup: './e2e/global-setup.ts',
+  // The specs share one seeded avatar and one browser's message bus
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? [['github'], ['html', { open: 'never' }]] : 'list',
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    storageState: 'e2e/.auth/operator.json',
+    trace: 'retain-on-failure'
+  },
+  projects: [
+    {
+      name: 'chromium',
+      use: {
+        ...devices['Desktop Chrome'],
+        // The idle clips start without a click
+        launchOptions: { args: ['--autoplay-policy=no-user-gesture-required'] }
+      }
+    }
+  ],
+  webServer: {
+    command: `npm run build && npm run start -- -p ${PORT}`,
+    url: `http://localhost:${PORT}/login`,
+    timeout: 300_000,
+    reuseExistingServer: !process.env.CI,
+    env: { NEXT_PUBLIC_MOCK_BACKENDS: 'true' }
+  }
+});
@@ -0,0 +1,14 @@
+-- The avatars the dashboard lists. Projects that predate the migrations
+-- created this table by hand; fresh databases get it here, before the
+-- migrations that add policies and settings for it.
+
+create table if not exists public.avatars (
+  -- HeyGen avatar ID, also the key for settings and conversations
+  avatar_id text primary key,
+  avatar_name text not null,
+  avatar_preview_image_url text not null,
+  idle_video_path text not null,
+  to_live_video_path text not null,
+  to_idle_video_path text not null,
+  created_at timestamptz not null default now()
+);
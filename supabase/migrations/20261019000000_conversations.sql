@@ -0,0 +1,59 @@
+-- Conversation threads per user and avatar, with their question/response exchanges.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  avatar_id text not null,
+  thread_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists conversations_user_avatar_idx
+  on public.conversations (user_id, avatar_id, updated_at desc);
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  question text not null,
+  response text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_conversation_idx
+  on public.messages (conversation_id, created_at);
+
+-- Keep conversations ordered by last activity
+create or replace function public.touch_conversation()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.conversations set updated_at = now() where id = new.conversation_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_touch_conversation on public.messages;
+create trigger messages_touch_conversation
+  after insert or update on public.messages
+  for each row execute function public.touch_conversation();
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+
+create policy "Users manage their own conversations"
+  on public.conversations for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage messages in their own conversations"
+  on public.messages for all
+  using (exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ));
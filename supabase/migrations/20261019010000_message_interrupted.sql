@@ -0,0 +1,3 @@
+-- Answers cut short by the user (barge-in or the stop button)
+alter table public.messages
+  add column interrupted boolean not null default false;
@@ -0,0 +1,24 @@
+-- Per-avatar persona: which assistant answers, how the avatar sounds and looks,
+-- and how long it stays live. Missing rows or null columns fall back to the
+-- app defaults.
+
+create table if not exists public.avatar_settings (
+  avatar_id text primary key,
+  assistant_id text,
+  voice_id text,
+  voice_rate real not null default 1.0 check (voice_rate between 0.5 and 1.5),
+  language text not null default 'en',
+  quality text not null default 'high' check (quality in ('low', 'medium', 'high')),
+  inactivity_timeout_seconds integer not null default 20 check (inactivity_timeout_seconds > 0),
+  greeting text,
+  -- { minHue, maxHue, minSaturation, threshold }
+  chroma_key jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.avatar_settings enable row level security;
+
+create policy "Signed-in users read avatar settings"
+  on public.avatar_settings for select
+  to authenticated
+  using (true);
@@ -0,0 +1,40 @@
+-- Avatars and their media are managed from the dashboard instead of by hand.
+-- public.avatars comes from 20261018000000_avatars.sql.
+
+insert into storage.buckets (id, name, public)
+values ('avatar-media', 'avatar-media', true)
+on conflict (id) do nothing;
+
+create policy "Signed-in users upload avatar media"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatar-media');
+
+create policy "Signed-in users replace avatar media"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatar-media');
+
+create policy "Signed-in users delete avatar media"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'avatar-media');
+
+alter table public.avatars enable row level security;
+
+create policy "Signed-in users read avatars"
+  on public.avatars for select
+  to authenticated
+  using (true);
+
+create policy "Signed-in users manage avatars"
+  on public.avatars for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Signed-in users manage avatar settings"
+  on public.avatar_settings for all
+  to authenticated
+  using (true)
+  with check (true);
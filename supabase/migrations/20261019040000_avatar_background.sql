@@ -0,0 +1,4 @@
+-- Background composited behind the keyed avatar:
+-- { type: 'none' } | { type: 'color', color } | { type: 'image' | 'video', url }
+alter table public.avatar_settings
+  add column background jsonb;
@@ -0,0 +1,22 @@
+-- Named chroma-key settings an operator has tuned, either for one avatar or,
+-- with a null avatar_id, for every avatar.
+
+create table if not exists public.chroma_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  avatar_id text,
+  name text not null,
+  -- { minHue, maxHue, minSaturation, threshold, softness?, spill? }
+  config jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chroma_presets_user_avatar_idx
+  on public.chroma_presets (user_id, avatar_id);
+
+alter table public.chroma_presets enable row level security;
+
+create policy "Users manage their own chroma presets"
+  on public.chroma_presets for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
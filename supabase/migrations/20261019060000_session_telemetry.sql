@@ -0,0 +1,45 @@
+-- Telemetry for live avatar sessions, read back by the analytics page.
+
+create table if not exists public.avatar_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  avatar_id text not null,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  -- 'closed', 'inactivity', 'error' or 'unload'
+  end_reason text
+);
+
+create index if not exists avatar_sessions_user_started_idx
+  on public.avatar_sessions (user_id, started_at desc);
+
+-- One row per phase change, question, latency sample, answer, error or disconnect
+create table if not exists public.session_events (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.avatar_sessions (id) on delete cascade,
+  type text not null check (type in ('phase', 'question', 'assistant_latency', 'first_word', 'speak', 'error', 'disconnect')),
+  data jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_events_session_idx
+  on public.session_events (session_id, created_at);
+
+alter table public.avatar_sessions enable row level security;
+alter table public.session_events enable row level security;
+
+create policy "Users manage their own avatar sessions"
+  on public.avatar_sessions for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage events in their own avatar sessions"
+  on public.session_events for all
+  using (exists (
+    select 1 from public.avatar_sessions s
+    where s.id = session_id and s.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.avatar_sessions s
+    where s.id = session_id and s.user_id = auth.uid()
+  ));
@@ -0,0 +1,163 @@
+-- Roles: admins manage avatars and their settings, operators run the avatar
+-- screen and the chat console, viewers only browse the avatars.
+
+do $$
+begin
+  create type public.app_role as enum ('viewer', 'operator', 'admin');
+exception
+  when duplicate_object then null;
+end;
+$$;
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  role public.app_role not null default 'viewer',
+  created_at timestamptz not null default now()
+);
+
+-- Existing users start as viewers like new sign-ups. Promote the first admin
+-- by hand, who can then promote the rest:
+--
+--   update public.profiles set role = 'admin' where id = '<user id>';
+insert into public.profiles (id)
+select id from auth.users
+on conflict (id) do nothing;
+
+-- New sign-ups start as viewers until an admin promotes them
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  insert into public.profiles (id) values (new.id) on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- True if the signed-in user has at least the given role. Security definer so
+-- policies on profiles itself can call it without recursing.
+create or replace function public.has_role(required public.app_role)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles
+    where id = auth.uid() and role >= required
+  );
+$$;
+
+alter table public.profiles enable row level security;
+
+create policy "Users read their own profile"
+  on public.profiles for select
+  to authenticated
+  using (id = auth.uid() or public.has_role('admin'));
+
+create policy "Admins change roles"
+  on public.profiles for update
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- Avatars, their settings and media: everyone reads, admins write
+drop policy if exists "Signed-in users manage avatars" on public.avatars;
+drop policy if exists "Signed-in users manage avatar settings" on public.avatar_settings;
+drop policy if exists "Signed-in users upload avatar media" on storage.objects;
+drop policy if exists "Signed-in users replace avatar media" on storage.objects;
+drop policy if exists "Signed-in users delete avatar media" on storage.objects;
+
+create policy "Admins manage avatars"
+  on public.avatars for all
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+create policy "Admins manage avatar settings"
+  on public.avatar_settings for all
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+create policy "Admins upload avatar media"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatar-media' and public.has_role('admin'));
+
+create policy "Admins replace avatar media"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatar-media' and public.has_role('admin'));
+
+create policy "Admins delete avatar media"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'avatar-media' and public.has_role('admin'));
+
+-- Chroma presets are tuned from the chat console
+drop policy if exists "Users manage their own chroma presets" on public.chroma_presets;
+
+create policy "Users read their own chroma presets"
+  on public.chroma_presets for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Operators manage their own chroma presets"
+  on public.chroma_presets for all
+  to authenticated
+  using (user_id = auth.uid() and public.has_role('operator'))
+  with check (user_id = auth.uid() and public.has_role('operator'));
+
+-- Admins see everyone's sessions on the analytics page
+create policy "Admins read all avatar sessions"
+  on public.avatar_sessions for select
+  to authenticated
+  using (public.has_role('admin'));
+
+create policy "Admins read all session events"
+  on public.session_events for select
+  to authenticated
+  using (public.has_role('admin'));
+
+-- Conversations are started and answered by operators; viewers keep read
+-- access to their own history but cannot add to it
+drop policy if exists "Users manage their own conversations" on public.conversations;
+drop policy if exists "Users manage messages in their own conversations" on public.messages;
+
+create policy "Users read their own conversations"
+  on public.conversations for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Operators manage their own conversations"
+  on public.conversations for all
+  to authenticated
+  using (user_id = auth.uid() and public.has_role('operator'))
+  with check (user_id = auth.uid() and public.has_role('operator'));
+
+create policy "Users read messages in their own conversations"
+  on public.messages for select
+  to authenticated
+  using (exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ));
+
+create policy "Operators manage messages in their own conversations"
+  on public.messages for all
+  to authenticated
+  using (public.has_role('operator') and exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ))
+  with check (public.has_role('operator') and exists (
+    select 1 from public.conversations c
+    where c.id = conversation_id and c.user_id = auth.uid()
+  ));
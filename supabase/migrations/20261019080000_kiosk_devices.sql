@@ -0,0 +1,82 @@
+-- Lobby screens run unattended at /kiosk/<avatarId>. Each one holds a
+-- long-lived device token instead of a password and signs in as the account
+-- it was registered for. That account has to be an operator, because the
+-- screen itself asks the assistant and starts HeyGen sessions. Admins register
+-- a screen with
+--
+--   select public.create_kiosk_device('Lobby north', '<user id>', '<avatar id>', '1234');
+--
+-- and open the returned URL on it once; the token is only shown then.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.kiosk_devices (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- The account the screen signs in as
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Null lets the screen show any avatar
+  avatar_id text,
+  -- sha256 of the device token, hex encoded
+  token_hash text not null unique,
+  -- bcrypt hash of the PIN that unlocks the hidden controls; null means the
+  -- unlock gesture alone is enough
+  pin_hash text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz,
+  revoked_at timestamptz
+);
+
+alter table public.kiosk_devices enable row level security;
+
+-- Tokens are checked by the server with the service role, never by clients
+create policy "Admins manage kiosk devices"
+  on public.kiosk_devices for all
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+create or replace function public.create_kiosk_device(
+  device_name text,
+  device_user_id uuid,
+  device_avatar_id text default null,
+  pin text default null
+)
+returns text
+language plpgsql
+security definer set search_path = public, extensions
+as $$
+declare
+  token text := encode(gen_random_bytes(32), 'hex');
+begin
+  if not public.has_role('admin') then
+    raise exception 'Only admins can register kiosk devices';
+  end if;
+  insert into public.kiosk_devices (name, user_id, avatar_id, token_hash, pin_hash)
+  values (
+    device_name,
+    device_user_id,
+    device_avatar_id,
+    encode(digest(token, 'sha256'), 'hex'),
+    case when pin is null then null else crypt(pin, gen_salt('bf')) end
+  );
+  return token;
+end;
+$$;
+
+create or replace function public.check_kiosk_pin(device_token_hash text, pin text)
+returns boolean
+language sql
+stable
+security definer set search_path = public, extensions
+as $$
+  select exists (
+    select 1 from public.kiosk_devices
+    where token_hash = device_token_hash
+      and revoked_at is null
+      and (pin_hash is null or pin_hash = crypt(pin, pin_hash))
+  );
+$$;
+
+revoke execute on function public.check_kiosk_pin(text, text) from public, anon, authenticated;
+grant execute on function public.check_kiosk_pin(text, text) to service_role;
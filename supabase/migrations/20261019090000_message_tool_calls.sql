@@ -0,0 +1,4 @@
+-- Functions the assistant called while answering, with their arguments and
+-- outputs: [{ name, arguments, output, status, durationMs }]
+alter table public.messages
+  add column tool_calls jsonb not null default '[]'::jsonb;
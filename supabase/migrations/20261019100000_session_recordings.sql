@@ -0,0 +1,50 @@
+-- Video recordings of live avatar sessions, with a WebVTT captions file each.
+-- Files live under <user id>/<conversation id>/ in a private bucket and are
+-- downloaded through signed URLs.
+
+insert into storage.buckets (id, name, public)
+values ('session-recordings', 'session-recordings', false)
+on conflict (id) do nothing;
+
+create table if not exists public.session_recordings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  avatar_id text not null,
+  video_path text not null,
+  captions_path text not null,
+  duration_ms integer not null,
+  size_bytes bigint not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_recordings_conversation_idx
+  on public.session_recordings (conversation_id, created_at desc);
+
+alter table public.session_recordings enable row level security;
+
+create policy "Users manage their own session recordings"
+  on public.session_recordings for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Admins read all session recordings"
+  on public.session_recordings for select
+  to authenticated
+  using (public.has_role('admin'));
+
+create policy "Users upload their own session recordings"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'session-recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users read their own session recordings"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'session-recordings' and ((storage.foldername(name))[1] = auth.uid()::text or public.has_role('admin')));
+
+create policy "Users delete their own session recordings"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'session-recordings' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,5 @@
+-- Caption layer on the avatar screen; null leaves captions off:
+-- { position: 'top' | 'bottom', fontSize: 'small' | 'medium' | 'large',
+--   contrast: 'standard' | 'high', language, showQuestion, showRecap }
+alter table public.avatar_settings
+  add column captions jsonb;
@@ -0,0 +1,14 @@
+-- Named, pinnable conversations; a null title shows the first question
+alter table public.conversations
+  add column title text,
+  add column pinned boolean not null default false;
+
+-- Full-text search over questions and answers. The 'simple' configuration
+-- keeps it language neutral, since avatars speak many languages.
+alter table public.messages
+  add column search tsvector generated always as (
+    to_tsvector('simple', question || ' ' || response)
+  ) stored;
+
+create index if not exists messages_search_idx
+  on public.messages using gin (search);
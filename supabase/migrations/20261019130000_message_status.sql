@@ -0,0 +1,17 @@
+-- Where each exchange stands and what answering it took:
+-- status: queued | thinking | speaking | done | failed | interrupted
+-- latency: { firstTokenMs, firstSpeechMs, totalMs } since the question arrived
+-- usage: { promptTokens, completionTokens, totalTokens } of the assistant run
+alter table public.messages
+  add column status text not null default 'done'
+    check (status in ('queued', 'thinking', 'speaking', 'done', 'failed', 'interrupted')),
+  add column run_id text,
+  add column latency jsonb,
+  add column usage jsonb,
+  add column error text;
+
+-- status replaces the interrupted flag
+update public.messages set status = 'interrupted' where interrupted;
+
+alter table public.messages
+  drop column interrupted;
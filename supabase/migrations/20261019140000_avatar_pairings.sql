@@ -0,0 +1,133 @@
+-- Paired chat consoles talk to an avatar screen over a private Realtime
+-- channel, avatar-session:<code>. The screen claims its code with
+-- register_avatar_pairing; a console that is given the code joins with
+-- join_avatar_pairing. Only the screen and the consoles that joined can
+-- receive or send on the channel.
+
+create table if not exists public.avatar_pairings (
+  code text primary key,
+  -- The account the avatar screen is signed in as
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  -- Renewed each time the screen opens
+  expires_at timestamptz not null
+);
+
+create table if not exists public.avatar_pairing_members (
+  code text not null references public.avatar_pairings (code) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (code, user_id)
+);
+
+-- Wrong codes per user, so codes cannot be guessed by trying them all
+create table if not exists public.avatar_pairing_failures (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists avatar_pairing_failures_user_idx
+  on public.avatar_pairing_failures (user_id, attempted_at);
+
+-- Only reached through the functions below
+alter table public.avatar_pairings enable row level security;
+alter table public.avatar_pairing_members enable row level security;
+alter table public.avatar_pairing_failures enable row level security;
+
+-- Claims the code for the signed-in screen, or renews it if the screen already
+-- holds it. False if another account holds a code that has not expired.
+create or replace function public.register_avatar_pairing(pairing_code text)
+returns boolean
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  holder uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to pair';
+  end if;
+  select owner_id into holder
+  from public.avatar_pairings
+  where code = pairing_code and expires_at > now();
+  if holder is not null and holder <> auth.uid() then
+    return false;
+  end if;
+  -- An expired code starts over without its old consoles
+  delete from public.avatar_pairings where code = pairing_code and holder is null;
+  insert into public.avatar_pairings (code, owner_id, expires_at)
+  values (pairing_code, auth.uid(), now() + interval '12 hours')
+  on conflict (code) do update set expires_at = excluded.expires_at;
+  return true;
+end;
+$$;
+
+-- Lets the signed-in operator onto a screen's channel. False for an unknown
+-- or expired code; too many wrong codes lock the user out for a while.
+create or replace function public.join_avatar_pairing(pairing_code text)
+returns boolean
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  if not public.has_role('operator') then
+    raise exception 'Only operators can pair with an avatar screen';
+  end if;
+  if (
+    select count(*) from public.avatar_pairing_failures
+    where user_id = auth.uid() and attempted_at > now() - interval '15 minutes'
+  ) >= 10 then
+    raise exception 'Too many wrong pair codes; try again in 15 minutes';
+  end if;
+  if not exists (
+    select 1 from public.avatar_pairings
+    where code = pairing_code and expires_at > now()
+  ) then
+    insert into public.avatar_pairing_failures (user_id) values (auth.uid());
+    return false;
+  end if;
+  insert into public.avatar_pairing_members (code, user_id)
+  values (pairing_code, auth.uid())
+  on conflict do nothing;
+  return true;
+end;
+$$;
+
+-- True if the signed-in user is the screen or a console paired with it.
+-- Called from the Realtime policies with the channel's topic.
+create or replace function public.is_avatar_pairing_member(topic text)
+returns boolean
+language sql
+stable
+security definer set search_path = public
+as $$
+  select exists (
+    select 1 from public.avatar_pairings pairing
+    where 'avatar-session:' || pairing.code = topic
+      and pairing.expires_at > now()
+      and (
+        pairing.owner_id = auth.uid()
+        or exists (
+          select 1 from public.avatar_pairing_members member
+          where member.code = pairing.code and member.user_id = auth.uid()
+        )
+      )
+  );
+$$;
+
+create policy "Paired devices receive avatar session messages"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast'
+    and public.is_avatar_pairing_member(realtime.topic())
+  );
+
+create policy "Paired devices send avatar session messages"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and public.is_avatar_pairing_member(realtime.topic())
+  );
@@ -0,0 +1,55 @@
+-- Kiosk PINs are only a few digits, so wrong guesses are counted per device.
+-- Every fifth wrong PIN in a row locks the unlock gesture for 15 minutes; the
+-- right PIN resets the count.
+
+alter table public.kiosk_devices
+  add column if not exists failed_pin_attempts integer not null default 0,
+  add column if not exists pin_locked_until timestamptz;
+
+drop function if exists public.check_kiosk_pin(text, text);
+
+-- unlocked is true for the right PIN; locked_until is set while the device is
+-- locked out, including by the wrong PIN just given
+create function public.check_kiosk_pin(device_token_hash text, pin text)
+returns table (unlocked boolean, locked_until timestamptz)
+language plpgsql
+security definer set search_path = public, extensions
+as $$
+declare
+  device public.kiosk_devices;
+begin
+  select * into device
+  from public.kiosk_devices
+  where token_hash = device_token_hash and revoked_at is null
+  for update;
+  if not found then
+    return query select false, null::timestamptz;
+    return;
+  end if;
+
+  if device.pin_locked_until > now() then
+    return query select false, device.pin_locked_until;
+    return;
+  end if;
+
+  if device.pin_hash is null or device.pin_hash = crypt(pin, device.pin_hash) then
+    update public.kiosk_devices
+    set failed_pin_attempts = 0, pin_locked_until = null
+    where id = device.id;
+    return query select true, null::timestamptz;
+    return;
+  end if;
+
+  update public.kiosk_devices
+  set failed_pin_attempts = failed_pin_attempts + 1,
+      pin_locked_until = case
+        when (failed_pin_attempts + 1) % 5 = 0 then now() + interval '15 minutes'
+      end
+  where id = device.id
+  returning kiosk_devices.pin_locked_until into device.pin_locked_until;
+  return query select false, device.pin_locked_until;
+end;
+$$;
+
+revoke execute on function public.check_kiosk_pin(text, text) from public, anon, authenticated;
+grant execute on function public.check_kiosk_pin(text, text) to service_role;
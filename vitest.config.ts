@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Playwright runs the end-to-end specs
+    exclude: ['e2e/**', 'node_modules/**']
+  }
+});